@@ -1,7 +1,8 @@
 /**
  * LUDO BOARD CONFIGURATION - BACKEND VERSION
  * This configuration is independent of the frontend's ludoConfig.ts
- * Supports 2-6 players
+ * Supports 2-6 and 8 players: the classic square board for 2-4 players and
+ * pentagon/hexagon/octagon boards for 5, 6 and 8 players (see BOARD_LAYOUTS)
  */
 
 export type PlayerColor = 'red' | 'green' | 'yellow' | 'blue' | 'purple' | 'orange' | 'white' | 'black';
@@ -12,7 +13,7 @@ export interface Token {
   id: number; // Unique identifier for the token (e.g., 0, 1, 2, 3)
   color: PlayerColor;
   status: TokenStatus;
-  position: number; // -1: Base, 0-51: Main Track, 52-57: Home Run, 58: Center/Home
+  position: number; // -1: Base, 0..TRACK_LENGTH-1: Main Track, then Home Run, TRACK_LENGTH+6: Center/Home
   steps: number; // Total steps taken
 }
 
@@ -25,11 +26,11 @@ export interface PlayerConfig {
     accent: string;
     hex: string;
   };
-  homeStart: number; // Starting index on main track (0, 13, 26, 39, ...)
+  homeStart: number; // Starting index on main track of the board this color is seated on (0, 13, 26, 39, ...)
   direction: number; // Angle in degrees for board orientation (0, 90, 180, 270, ...)
   baseCoords: { r: number, c: number }; // Top-left corner of the 6x6 base grid
-  homeEntranceCoord: [number, number]; // Coordinate where tokens enter the home run
-  homeRunCoords: [number, number][]; // Coordinates of the 6 cells in the home run
+  homeEntranceCoord: [number, number]; // Coordinate where tokens enter the home run (classic board)
+  homeRunCoords: [number, number][]; // Coordinates of the 6 cells in the home run (classic board)
 }
 
 // Comprehensive configuration for all possible players (up to 8)
@@ -94,7 +95,8 @@ export const ALL_PLAYER_DETAILS: PlayerConfig[] = [
     homeEntranceCoord: [13,6],
     homeRunCoords: [[13, 7], [12, 7], [11, 7], [10, 7], [9, 7], [8, 7]],
   },
-  // Additional players for 6 or 8 player games (example configurations - adjust as per board design)
+  // Pentagon/hexagon/octagon seats. Track indices come from BOARD_LAYOUTS; the grid
+  // coordinates below only matter to clients drawing the classic 15x15 grid.
   {
     id: 'purple',
     name: 'Purple',
@@ -104,11 +106,11 @@ export const ALL_PLAYER_DETAILS: PlayerConfig[] = [
       accent: '#4A148C',
       hex: '#6A1B9A',
     },
-    homeStart: 6, // Example track position
-    direction: 45, // Example direction
-    baseCoords: { r: 3, c: 0 }, // Example base position
-    homeEntranceCoord: [6,4], // Example
-    homeRunCoords: [[6, 5], [5, 5], [4, 5], [3, 5], [2, 5], [1, 5]], // Example
+    homeStart: 52, // Fifth arm of the hexagon
+    direction: 240,
+    baseCoords: { r: 3, c: 0 },
+    homeEntranceCoord: [6,4],
+    homeRunCoords: [[6, 5], [5, 5], [4, 5], [3, 5], [2, 5], [1, 5]],
   },
   {
     id: 'orange',
@@ -119,13 +121,42 @@ export const ALL_PLAYER_DETAILS: PlayerConfig[] = [
       accent: '#E65100',
       hex: '#EF6C00',
     },
-    homeStart: 32, // Example track position
-    direction: 225, // Example direction
-    baseCoords: { r: 9, c: 3 }, // Example base position
-    homeEntranceCoord: [8,10], // Example
-    homeRunCoords: [[9, 9], [9, 10], [9, 11], [9, 12], [9, 13], [9, 14]], // Example
+    homeStart: 65, // Sixth arm of the hexagon (fifth arm, 52, on the pentagon)
+    direction: 300,
+    baseCoords: { r: 9, c: 3 },
+    homeEntranceCoord: [8,10],
+    homeRunCoords: [[9, 9], [9, 10], [9, 11], [9, 12], [9, 13], [9, 14]],
+  },
+  {
+    id: 'white',
+    name: 'White',
+    color: {
+      primary: '#F5F5F5',
+      secondary: '#FFFFFF',
+      accent: '#BDBDBD',
+      hex: '#F5F5F5',
+    },
+    homeStart: 78, // Seventh arm of the octagon
+    direction: 135,
+    baseCoords: { r: 3, c: 9 },
+    homeEntranceCoord: [6,10],
+    homeRunCoords: [[6, 9], [5, 9], [4, 9], [3, 9], [2, 9], [1, 9]],
+  },
+  {
+    id: 'black',
+    name: 'Black',
+    color: {
+      primary: '#212121',
+      secondary: '#616161',
+      accent: '#000000',
+      hex: '#212121',
+    },
+    homeStart: 91, // Eighth arm of the octagon
+    direction: 315,
+    baseCoords: { r: 9, c: 6 },
+    homeEntranceCoord: [8,4],
+    homeRunCoords: [[9, 5], [9, 4], [9, 3], [9, 2], [9, 1], [9, 0]],
   },
-  // You can add more for white/black if you plan 8 players
 ];
 
 // Mapping player counts to specific player IDs/colors and their board positions
@@ -135,10 +166,45 @@ export const PLAYER_COLOR_MAPS: Record<number, PlayerColor[]> = {
   4: ['red', 'green', 'yellow', 'blue'], // All four corners
   5: ['red', 'green', 'yellow', 'blue', 'orange'], // 4 corners + 1 side
   6: ['red', 'green', 'yellow', 'blue', 'purple', 'orange'], // 4 corners + 2 sides
+  8: ['red', 'green', 'yellow', 'blue', 'purple', 'orange', 'white', 'black'], // Octagon, teammates sit opposite
+};
+
+export const SUPPORTED_PLAYER_COUNTS = Object.keys(PLAYER_COLOR_MAPS).map(Number);
+
+/**
+ * Every board is a ring of identical arms, one per seat. Each arm contributes
+ * ARM_LENGTH track cells: the seat's start cell, a safe star 8 cells later,
+ * and the entrance to the next seat's home run 2 cells before its start.
+ */
+export interface BoardLayout {
+  name: 'classic' | 'pentagon' | 'hexagon' | 'octagon';
+  seats: PlayerColor[]; // Clockwise, seat i starts at track index i * ARM_LENGTH
+}
+
+export const ARM_LENGTH = 13;
+export const HOME_RUN_LENGTH = 6;
+const STAR_OFFSET = 8;
+const HOME_ENTRY_OFFSET = -2;
+
+const CLASSIC_BOARD: BoardLayout = { name: 'classic', seats: ['red', 'green', 'yellow', 'blue'] };
+
+export const BOARD_LAYOUTS: Record<number, BoardLayout> = {
+  2: CLASSIC_BOARD,
+  3: CLASSIC_BOARD,
+  4: CLASSIC_BOARD,
+  5: { name: 'pentagon', seats: ['red', 'green', 'yellow', 'blue', 'orange'] },
+  6: { name: 'hexagon', seats: ['red', 'green', 'yellow', 'blue', 'purple', 'orange'] },
+  8: { name: 'octagon', seats: ['red', 'green', 'yellow', 'blue', 'purple', 'orange', 'white', 'black'] },
 };
 
 export interface GameConfig {
+  board: BoardLayout['name'];
   players: PlayerConfig[];
+  TRACK_LENGTH: number;
+  SAFE_INDICES: number[];
+  HOME_ENTRY_INDICES: Record<PlayerColor, number>; // Last track cell before the home run
+  HOME_POSITION: number; // Token position once it reaches the center
+  FINISH_STEPS: number; // Steps from the start cell to the center
   BASES: Record<PlayerColor, { r: number, c: number }>;
   START_POSITIONS: Record<PlayerColor, number>;
   HOME_ENTRANCES: Record<PlayerColor, [number, number]>;
@@ -159,7 +225,13 @@ const createColorRecord = <T>(initializer: (color: PlayerColor) => T): Record<Pl
 
 export const getGameConfig = (numPlayers: number): GameConfig => {
   const activePlayerColors = PLAYER_COLOR_MAPS[numPlayers] || PLAYER_COLOR_MAPS[4]; // Default to 4 players
-  const playersConfig = ALL_PLAYER_DETAILS.filter(p => activePlayerColors.includes(p.id));
+  const layout = BOARD_LAYOUTS[numPlayers] || CLASSIC_BOARD;
+  const trackLength = layout.seats.length * ARM_LENGTH;
+  const playersConfig = ALL_PLAYER_DETAILS
+    .filter(p => activePlayerColors.includes(p.id))
+    .map(p => ({ ...p, homeStart: layout.seats.indexOf(p.id) * ARM_LENGTH }));
+  const SAFE_INDICES = layout.seats.flatMap((_, seat) => [seat * ARM_LENGTH, seat * ARM_LENGTH + STAR_OFFSET]);
+  const HOME_ENTRY_INDICES = createColorRecord(() => -1);
 
   const BASES = createColorRecord(() => ({ r: 0, c: 0 }));
   const START_POSITIONS = createColorRecord(() => 0);
@@ -172,19 +244,26 @@ export const getGameConfig = (numPlayers: number): GameConfig => {
     START_POSITIONS[player.id] = player.homeStart;
     HOME_ENTRANCES[player.id] = player.homeEntranceCoord;
     HOME_RUNS[player.id] = player.homeRunCoords;
+    HOME_ENTRY_INDICES[player.id] = (player.homeStart + HOME_ENTRY_OFFSET + trackLength) % trackLength;
 
     // Dynamically set track highlight cells based on homeEntranceCoord
     TRACK_HIGHLIGHT_CELLS[`${player.homeEntranceCoord[0]}-${player.homeEntranceCoord[1]}`] = player.id;
 
     // Add main track entrance cells based on START_POSITIONS for dynamic coloring
-    const startCoord = TRACK_COORDS[player.homeStart];
+    const startCoord = layout === CLASSIC_BOARD ? TRACK_COORDS[player.homeStart] : undefined;
     if (startCoord) {
       TRACK_HIGHLIGHT_CELLS[`${startCoord[0]}-${startCoord[1]}`] = player.id;
     }
   });
 
   return {
+    board: layout.name,
     players: playersConfig,
+    TRACK_LENGTH: trackLength,
+    SAFE_INDICES,
+    HOME_ENTRY_INDICES,
+    HOME_POSITION: trackLength + HOME_RUN_LENGTH,
+    FINISH_STEPS: trackLength + HOME_ENTRY_OFFSET + HOME_RUN_LENGTH,
     BASES,
     START_POSITIONS,
     HOME_ENTRANCES,
@@ -193,7 +272,7 @@ export const getGameConfig = (numPlayers: number): GameConfig => {
   };
 };
 
-// Fixed track coordinates for a 15x15 board
+// Track coordinates of the classic 15x15 board
 export const TRACK_COORDS: [number, number][] = [
     [6, 1], [6, 2], [6, 3], [6, 4], [6, 5],
     [5, 6], [4, 6], [3, 6], [2, 6], [1, 6],
@@ -209,8 +288,9 @@ export const TRACK_COORDS: [number, number][] = [
     [8, 0], [7, 0], [6, 0]
 ];
 
-// Indices on the main track (0-51) that are safe from capture
-// Includes starting positions and star positions
+// Indices on the classic main track (0-51) that are safe from capture.
+// Includes starting positions and star positions; rules code reads
+// GameConfig.SAFE_INDICES so other boards get their own cells.
 export const SAFE_INDICES = [
   0,  // Red Start
   8,  // Red Safe Star
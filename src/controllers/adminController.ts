@@ -0,0 +1,19 @@
+import { Request, Response } from "express";
+import { getReaperStats, runRoomReaper } from "../services/roomReaperService";
+import { formatErrorResponse, formatSuccessResponse } from "../utils/helpers";
+
+export async function getRoomReaperStatus(req: Request, res: Response) {
+  return res.json(formatSuccessResponse(getReaperStats()));
+}
+
+/** Run a reaper pass now instead of waiting for the interval. */
+export async function runRoomReaperNow(req: Request, res: Response) {
+  try {
+    const run = await runRoomReaper();
+    if (!run) return res.status(409).json(formatErrorResponse("Reaper is already running"));
+    return res.json(formatSuccessResponse({ run, ...getReaperStats() }));
+  } catch (error) {
+    console.error("Run room reaper error:", error);
+    return res.status(500).json(formatErrorResponse("Reaper run failed"));
+  }
+}
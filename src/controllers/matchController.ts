@@ -0,0 +1,40 @@
+import { Request, Response } from "express";
+import { Types } from "mongoose";
+import { getMatchResult, listUserMatches, parseMatchCursor } from "../services/matchResultService";
+import { formatErrorResponse, formatSuccessResponse } from "../utils/helpers";
+
+export async function getMyMatches(req: Request, res: Response) {
+  try {
+    const userId = req.userId?.toString();
+    if (!userId) return res.status(401).json(formatErrorResponse("Unauthorized"));
+
+    const before = req.query.before === undefined ? undefined : parseMatchCursor(String(req.query.before));
+    const limit = req.query.limit ? Number(req.query.limit) : undefined;
+    if (before === null) {
+      return res.status(400).json(formatErrorResponse("before must be a nextCursor value"));
+    }
+
+    return res.json(formatSuccessResponse(await listUserMatches(userId, before, limit)));
+  } catch (error) {
+    console.error("Get my matches error:", error);
+    return res.status(500).json(formatErrorResponse("Failed to fetch matches"));
+  }
+}
+
+export async function getMatch(req: Request, res: Response) {
+  try {
+    const userId = req.userId?.toString();
+    if (!userId) return res.status(401).json(formatErrorResponse("Unauthorized"));
+
+    const { matchId } = req.params;
+    if (!Types.ObjectId.isValid(matchId)) return res.status(400).json(formatErrorResponse("Invalid matchId"));
+
+    return res.json(formatSuccessResponse(await getMatchResult(matchId, userId)));
+  } catch (error) {
+    if (error instanceof Error && error.message === "MATCH_NOT_FOUND") {
+      return res.status(404).json(formatErrorResponse("Match not found"));
+    }
+    console.error("Get match error:", error);
+    return res.status(500).json(formatErrorResponse("Failed to fetch match"));
+  }
+}
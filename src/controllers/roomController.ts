@@ -1,26 +1,63 @@
 import { Request, Response } from "express";
 import mongoose, { Types } from "mongoose";
-import { PlayerColor, Token, PLAYER_COLOR_MAPS, ALL_PLAYER_COLORS, SAFE_INDICES, getGameConfig } from "../config/ludoConfigBackend";
-import { findValidMoves, applyMove, checkWinCondition, advanceTurn as advanceGameTurn } from "../services/ludoGameLogicBackend";
+import {
+  PlayerColor,
+  Token,
+  PLAYER_COLOR_MAPS,
+  ALL_PLAYER_COLORS,
+  SUPPORTED_PLAYER_COUNTS,
+  getGameConfig,
+} from "../config/ludoConfigBackend";
+import {
+  BOT_DIFFICULTIES,
+  BotDifficulty,
+  TEAM_LAYOUTS,
+  TeamLayoutName,
+  evaluateMoves,
+  getHomeUnlocked,
+  getTeamIndexForPosition,
+  normalizeHouseRules,
+  resolveTeamLayout,
+  validateHouseRules,
+  validateTeamLayout,
+} from "../game-logic/rules-engine";
 import { generateRoomCode, formatErrorResponse, formatSuccessResponse } from "../utils/helpers";
 import { emitRoomUpdate } from "../socket";
-import { gameStateCache } from "../state/gameStateCache";
+import { RuntimeGameBoard, gameStateCache } from "../state/gameStateCache";
 import { invalidateRoomPlayers } from "../state/roomPlayersCache";
-import { generateDiceValue, reportCaptureOutcome, reportDiceOutcome } from "../game-logic/engagement-engine";
 import { engagementStateCache } from "../game-logic/engagement-engine/engagementStateCache";
 import { DEFAULT_ENGAGEMENT_PROFILE, ENGAGEMENT_TUNING_PROFILES } from "../game-logic/engagement-engine/tuning";
 import { syncRoomTeams } from "../services/roomTeamService";
 import { recordGameEvent } from "../services/gameEventService";
-import { processTauntEvents, isRevengeKill, recordTauntCaptureMemory } from "../engagement/taunts";
-import { TauntEventInput, TauntRoomSnapshot } from "../engagement/taunts/types";
-
-const PERF_DEBUG = process.env.GAME_PERF_DEBUG === "true";
-const perfNow = () => Date.now();
-const logPerf = (label: string, start: number, extra?: Record<string, unknown>) => {
-  if (!PERF_DEBUG) return;
-  const tookMs = perfNow() - start;
-  console.log(`[perf] ${label} tookMs=${tookMs}`, extra || {});
-};
+import {
+  armTurnTimer,
+  cancelResignRequest,
+  getColorOrder,
+  getCurrentIndex,
+  moveForCurrentPlayer,
+  passForCurrentPlayer,
+  resignForPlayer,
+  rollForCurrentPlayer,
+  sortPlayersByColor,
+  toRulesState,
+} from "../services/gameActionService";
+import { createRematch, heldRematchPositions } from "../services/rematchService";
+import { clearPauseVotes, setRoomPaused } from "../services/roomPauseService";
+import { buildRoomReplay } from "../services/replayService";
+import { toRevisionConflict } from "../services/roomSyncService";
+import { getConnectedUserIds } from "../services/seatPresenceService";
+import {
+  closeSpectatorFeed,
+  countSpectators,
+  getSpectatorSnapshot,
+  holdsSeat,
+  moveLobbyWatchersToFeed,
+  normalizeSpectatorSettings,
+  resolveRoomViewer,
+  setSpectatorSettings,
+  validateSpectatorSettings,
+} from "../services/spectatorService";
+import { clearTurnTimeout, computeTurnDeadline, normalizeTurnTimer, validateTurnTimer } from "../services/turnTimer";
 
 // Helper to get Mongoose models safely
 const Room = () => mongoose.model('Room');
@@ -31,19 +68,6 @@ const GameEvent = () => mongoose.model('GameEvent');
 const isValidObjectId = (id: unknown): id is string =>
   typeof id === "string" && Types.ObjectId.isValid(id);
 
-const getColorOrder = (maxPlayers: number) =>
-  PLAYER_COLOR_MAPS[maxPlayers] || PLAYER_COLOR_MAPS[4];
-
-const sortPlayersByColor = (players: any[], maxPlayers: number) => {
-  const order = getColorOrder(maxPlayers);
-  const orderIndex = new Map(order.map((c, i) => [c, i]));
-  return [...players].sort((a, b) => {
-    const aIdx = orderIndex.get(a.color as PlayerColor) ?? 999;
-    const bIdx = orderIndex.get(b.color as PlayerColor) ?? 999;
-    return aIdx - bIdx;
-  });
-};
-
 const sortPlayersBySlot = (players: any[], maxPlayers: number) => {
   const fallbackOrder = getColorOrder(maxPlayers);
   const fallbackIndex = new Map(fallbackOrder.map((c, i) => [c, i]));
@@ -54,137 +78,45 @@ const sortPlayersBySlot = (players: any[], maxPlayers: number) => {
   });
 };
 
-const getCurrentIndex = (room: any, orderedPlayers: any[]) => {
-  const currentId = room?.gameBoard?.currentPlayerId?.toString();
-  if (currentId) {
-    const idx = orderedPlayers.findIndex(p => p._id.toString() === currentId);
-    if (idx !== -1) return idx;
-  }
-  const fallback = room?.currentPlayerIndex ?? 0;
-  return Math.min(Math.max(fallback, 0), Math.max(orderedPlayers.length - 1, 0));
+const readExpectedRevision = (body: any): number | undefined | null => {
+  const value = body?.expectedRevision;
+  if (value === undefined || value === null) return undefined;
+  return Number.isInteger(value) && value >= 0 ? value : null;
 };
 
-const getTeammateColor = (maxPlayers: number, color: PlayerColor): PlayerColor | null => {
-  const order = getColorOrder(maxPlayers);
-  if (order.length < 4 || order.length % 2 !== 0) return null;
-  const idx = order.indexOf(color);
-  if (idx === -1) return null;
-  const partnerIdx = (idx + order.length / 2) % order.length;
-  return order[partnerIdx] || null;
+// 409 with the current revision and board. Only seat holders get this far
+// (assertRevision checks the seat first), and they may see the live board.
+const sendRevisionConflict = async (res: Response, roomId: string) => {
+  const state = await gameStateCache.getState(roomId);
+  return res.status(409).json({
+    ...formatErrorResponse("Board has changed, resync and try again"),
+    data: toRevisionConflict(state),
+  });
 };
 
-const getControllableColors = (
-  mode: "individual" | "team",
-  maxPlayers: number,
-  color: PlayerColor
-): PlayerColor[] => {
-  if (mode !== "team") return [color];
-  const teammate = getTeammateColor(maxPlayers, color);
-  if (!teammate || teammate === color) return [color];
-  return [color, teammate];
+// Fields a delayed spectator snapshot does not carry.
+const EMPTY_SPECTATOR_BOARD: RuntimeGameBoard = {
+  tokens: {} as RuntimeGameBoard["tokens"],
+  currentPlayerId: null,
+  diceValue: null,
+  validMoves: [],
+  gameLog: [],
+  winners: [],
+  lastRollAt: null,
+  consecutiveSixes: {},
+  turnStart: null,
+  captureCounts: {},
+  turnDeadline: null,
+  resigned: [],
+  pause: null,
 };
 
 const resolveTeamIndex = (
-  mode: "individual" | "team",
-  maxPlayers: number,
+  settings: { mode: "individual" | "team"; maxPlayers: number; teamLayout?: TeamLayoutName | null },
   position: number,
 ): number | null => {
-  if (mode !== "team" || maxPlayers < 4 || maxPlayers % 2 !== 0) return null;
-  if (!Number.isInteger(position) || position < 0 || position >= maxPlayers) return null;
-  return position % (maxPlayers / 2);
-};
-
-const toTauntRoomSnapshot = (
-  roomId: string,
-  room: any,
-  orderedPlayers: any[],
-  tokens: Record<PlayerColor, Token[]>,
-  winners: Array<{ playerId: string; rank: number }>
-): TauntRoomSnapshot => ({
-  roomId,
-  mode: room.settings.mode,
-  maxPlayers: room.settings.maxPlayers,
-  players: orderedPlayers.map((p) => ({
-    roomPlayerId: p._id.toString(),
-    userId: p.userId.toString(),
-    displayName: String(p.displayName || "Player"),
-    color: p.color as PlayerColor,
-  })),
-  board: {
-    tokens,
-    winners: winners.map((w) => ({
-      playerId: String(w.playerId),
-      rank: Number(w.rank),
-    })),
-  },
-});
-
-const progressScore = (tokens: Token[] = []) =>
-  tokens.reduce((sum, t) => {
-    if (t.status === "base") return sum;
-    if (t.status === "home" || t.status === "finished") return sum + 66;
-    return sum + Math.max(0, Number(t.steps || 0));
-  }, 0);
-
-const computePlayerRankMap = (
-  orderedPlayers: any[],
-  tokens: Record<PlayerColor, Token[]>,
-  winners: Array<{ playerId: string; rank: number }>
-) => {
-  const winnerRank = new Map<string, number>();
-  winners.forEach((w) => winnerRank.set(String(w.playerId), Number(w.rank)));
-
-  const rows = orderedPlayers.map((p) => ({
-    roomPlayerId: p._id.toString(),
-    score: progressScore(tokens[p.color as PlayerColor] || []),
-    rank: winnerRank.get(p._id.toString()) || 999,
-  }));
-
-  const pending = rows.filter((r) => r.rank === 999).sort((a, b) => b.score - a.score);
-  let nextRank = winners.length + 1;
-  pending.forEach((r) => {
-    r.rank = nextRank;
-    nextRank += 1;
-  });
-
-  const map = new Map<string, number>();
-  rows.forEach((r) => map.set(r.roomPlayerId, r.rank));
-  return map;
-};
-
-const isWinnerRoomPlayer = (
-  gameBoard: { winners: Array<{ playerId: string; rank: number }> },
-  roomPlayerId: string
-) => gameBoard.winners.some((w) => String(w.playerId) === roomPlayerId);
-
-const normalizeCurrentTurnForIndividual = (
-  state: { currentPlayerIndex: number; gameBoard: any },
-  orderedPlayers: any[]
-) => {
-  let currentIndex = getCurrentIndex(
-    { currentPlayerIndex: state.currentPlayerIndex, gameBoard: state.gameBoard },
-    orderedPlayers
-  );
-  let current = orderedPlayers[currentIndex];
-  if (!current) return { currentIndex: 0, current: orderedPlayers[0] };
-
-  if (isWinnerRoomPlayer(state.gameBoard, current._id.toString())) {
-    const nextIndex = advanceGameTurn(currentIndex, orderedPlayers, state.gameBoard as any, true);
-    currentIndex = nextIndex;
-    current = orderedPlayers[currentIndex];
-    state.currentPlayerIndex = currentIndex;
-    if (current) {
-      state.gameBoard.currentPlayerId = current._id.toString();
-    }
-    state.gameBoard.diceValue = null;
-    state.gameBoard.validMoves = [];
-    state.gameBoard.lastRollAt = null;
-  } else {
-    state.currentPlayerIndex = currentIndex;
-    if (!state.gameBoard.currentPlayerId) state.gameBoard.currentPlayerId = current._id.toString();
-  }
-
-  return { currentIndex, current };
+  if (settings.mode !== "team") return null;
+  return getTeamIndexForPosition(resolveTeamLayout(settings.maxPlayers, settings.teamLayout), position);
 };
 
 /* ============================================================
@@ -202,15 +134,23 @@ export async function createRoom(req: Request, res: Response) {
       selectedColor,
       tuningProfile,
       tauntMode,
+      rules,
+      turnTimer,
+      hintsEnabled = true,
+      teamLayout,
+      spectators,
     } = req.body;
-    if (!Number.isInteger(maxPlayers) || maxPlayers < 2 || maxPlayers > 6) {
-      return res.status(400).json(formatErrorResponse("maxPlayers must be between 2 and 6"));
+    if (!Number.isInteger(maxPlayers) || !SUPPORTED_PLAYER_COUNTS.includes(maxPlayers)) {
+      return res
+        .status(400)
+        .json(formatErrorResponse(`maxPlayers must be one of ${SUPPORTED_PLAYER_COUNTS.join(", ")}`));
     }
     if (mode !== "individual" && mode !== "team") {
       return res.status(400).json(formatErrorResponse("Invalid mode"));
     }
-    if (mode === "team" && (maxPlayers < 4 || maxPlayers % 2 !== 0)) {
-      return res.status(400).json(formatErrorResponse("Team mode requires 4 or 6 players"));
+    const layout = mode === "team" ? validateTeamLayout(maxPlayers, teamLayout) : null;
+    if (layout && "error" in layout) {
+      return res.status(400).json(formatErrorResponse("Invalid teamLayout", layout.error));
     }
     const requestedProfile =
       typeof tuningProfile === "string" ? tuningProfile.trim().toLowerCase() : DEFAULT_ENGAGEMENT_PROFILE;
@@ -222,10 +162,26 @@ export async function createRoom(req: Request, res: Response) {
     if (!["suggestion", "hybrid", "auto"].includes(requestedTauntMode)) {
       return res.status(400).json(formatErrorResponse("Invalid taunt mode"));
     }
+    const houseRules = validateHouseRules(rules);
+    if ("error" in houseRules) {
+      return res.status(400).json(formatErrorResponse("Invalid rules", houseRules.error));
+    }
+    if (typeof hintsEnabled !== "boolean") {
+      return res.status(400).json(formatErrorResponse("hintsEnabled must be a boolean"));
+    }
+    const timer = validateTurnTimer(turnTimer);
+    if ("error" in timer) {
+      return res.status(400).json(formatErrorResponse("Invalid turnTimer", timer.error));
+    }
+    const spectatorSettings = validateSpectatorSettings(spectators);
+    if ("error" in spectatorSettings) {
+      return res.status(400).json(formatErrorResponse("Invalid spectators", spectatorSettings.error));
+    }
 
     const code = generateRoomCode();
 
-    const teamCount = mode === "team" ? maxPlayers / 2 : 0;
+    const teamLayoutName = layout ? layout.layout : null;
+    const teamCount = teamLayoutName ? TEAM_LAYOUTS[teamLayoutName].teams.length : 0;
     const defaultTeamNames =
       mode === "team" ? Array.from({ length: teamCount }, (_, idx) => `Team ${String.fromCharCode(65 + idx)}`) : [];
 
@@ -236,9 +192,14 @@ export async function createRoom(req: Request, res: Response) {
         maxPlayers,
         mode,
         visibility,
+        teamLayout: teamLayoutName,
         teamNames: defaultTeamNames,
         tuningProfile: requestedProfile,
         tauntMode: requestedTauntMode,
+        rules: houseRules.rules,
+        turnTimer: timer.settings,
+        hintsEnabled,
+        spectators: spectatorSettings.settings,
       },
       gameBoard: {
         tokens: {},
@@ -248,6 +209,7 @@ export async function createRoom(req: Request, res: Response) {
         gameLog: [],
         winners: [],
         lastRollAt: null,
+        turnDeadline: null,
       },
     });
 
@@ -260,7 +222,7 @@ export async function createRoom(req: Request, res: Response) {
       userId,
       color: hostColor,
       position: hostPosition,
-      teamIndex: resolveTeamIndex(mode, maxPlayers, hostPosition),
+      teamIndex: resolveTeamIndex(room.settings, hostPosition),
     });
 
     room.players.push(rp._id);
@@ -275,6 +237,9 @@ export async function createRoom(req: Request, res: Response) {
         maxPlayers,
         mode,
         visibility,
+        teamLayout: teamLayoutName,
+        rules: houseRules.rules,
+        turnTimer: timer.settings,
       },
     });
 
@@ -328,6 +293,7 @@ export async function getRoomDetails(req: Request, res: Response) {
     if (!room) {
       return res.status(404).json(formatErrorResponse('Room not found'));
     }
+    const viewer = await resolveRoomViewer(roomId, req.userId?.toString() ?? null);
 
     const players = await RoomPlayer().find({ roomId }).populate('userId', 'displayName avatarUrl level xp');
     if (room.settings.mode === "team") {
@@ -341,7 +307,20 @@ export async function getRoomDetails(req: Request, res: Response) {
         ? sortPlayersBySlot(players, room.settings.maxPlayers)
         : sortPlayersByColor(players, room.settings.maxPlayers);
 
-    const cachedState = await gameStateCache.getState(roomId, room.toObject());
+    const liveState = await gameStateCache.getState(roomId, room.toObject());
+    // Someone without a seat sees a running game as the spectator feed shows it.
+    let cachedState = liveState;
+    if (liveState && viewer.role === "spectator") {
+      // Only what the snapshot carries; a delayed one leaves the rest of the board empty.
+      const snapshot = await getSpectatorSnapshot(roomId, viewer.settings);
+      cachedState = {
+        ...liveState,
+        revision: snapshot.revision,
+        status: snapshot.status,
+        currentPlayerIndex: snapshot.currentPlayerIndex,
+        gameBoard: { ...EMPTY_SPECTATOR_BOARD, ...snapshot.gameBoard },
+      };
+    }
     const roomView = cachedState
       ? {
           ...room.toObject(),
@@ -357,29 +336,49 @@ export async function getRoomDetails(req: Request, res: Response) {
       : room.toObject();
 
     const currentIndex = getCurrentIndex(roomView, orderedPlayers);
+    const spectatorCount = await countSpectators(roomId);
+    const connectedUserIds = await getConnectedUserIds(roomId);
+    const homeUnlocked = cachedState
+      ? getHomeUnlocked(toRulesState(room, cachedState, orderedPlayers))
+      : {};
 
     return res.json(formatSuccessResponse({
         ...roomView,
         id: room._id,
         currentPlayerIndex: currentIndex,
         teams,
+        spectatorCount,
         players: orderedPlayers.map(p => {
-            const userObj = p.userId as any;
+            // Bot ids match no User, so populate leaves them null.
+            const userObj = p.isBot ? null : (p.userId as any);
             return {
-                userId: userObj._id.toString(),
+                userId: userObj?._id?.toString() ?? null,
+                isBot: !!p.isBot,
+                botDifficulty: p.isBot ? p.botDifficulty : undefined,
+                autopilot: !!p.autopilot,
+                connected: p.isBot ? true : connectedUserIds.has(String(userObj?._id ?? p.userId)),
                 color: p.color,
                 status: p.status,
                 ready: p.ready,
-                displayName: userObj?.displayName || "Unknown",
+                displayName: userObj?.displayName || p.displayName || "Unknown",
                 avatarUrl: userObj?.avatarUrl || "",
                 level: typeof userObj?.level === "number" ? userObj.level : 1,
                 xp: typeof userObj?.xp === "number" ? userObj.xp : 0,
                 roomPlayerId: p._id.toString(),
                 position: typeof p.position === "number" ? p.position : undefined,
+                homeUnlocked: homeUnlocked[p._id.toString()] ?? !normalizeHouseRules(room.settings?.rules).captureToEnterHome,
             };
         }),
     }));
   } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === "SPECTATORS_NOT_ALLOWED") {
+        return res.status(403).json(formatErrorResponse("Spectators are not allowed in this room"));
+      }
+      if (error.message === "DELAYED_VIEW_NOT_AVAILABLE") {
+        return res.status(409).json(formatErrorResponse("This game cannot be watched with a delay"));
+      }
+    }
     console.error('Get room details error:', error);
     return res.status(500).json(formatErrorResponse('Failed to fetch room details'));
   }
@@ -395,6 +394,26 @@ export async function leaveRoom(req: Request, res: Response) {
           return res.status(400).json(formatErrorResponse("Invalid roomId"));
         }
 
+        const activeRoom = await Room().findById(roomId).select("status");
+        if (activeRoom?.status === "in_progress" || activeRoom?.status === "paused") {
+          // A running game keeps the seat: turn order, winners and timers all point at it.
+          const seat = await RoomPlayer().findOne({ roomId, userId }).select("_id");
+          if (!seat) return res.status(404).json(formatErrorResponse("Player not found"));
+          try {
+            const outcome = await resignForPlayer(roomId, userIdStr);
+            if (outcome.status === "pending") {
+              return res.status(202).json(formatSuccessResponse(outcome, "Waiting for teammate to confirm"));
+            }
+            return res.json(formatSuccessResponse(outcome, "Left room"));
+          } catch (e) {
+            // Already out of the game: nothing left to give up.
+            if (e instanceof Error && (e.message === "ALREADY_RESIGNED" || e.message === "ALREADY_FINISHED")) {
+              return res.json(formatSuccessResponse({}, "Left room"));
+            }
+            throw e;
+          }
+        }
+
         const roomPlayer = await RoomPlayer().findOneAndDelete({ roomId, userId });
         if (!roomPlayer) return res.status(404).json(formatErrorResponse("Player not found"));
         
@@ -402,16 +421,23 @@ export async function leaveRoom(req: Request, res: Response) {
         if (room) {
             room.players.pull(roomPlayer._id);
             invalidateRoomPlayers(roomId);
-            if (room.players.length === 0) {
+            const humansLeft = await RoomPlayer().countDocuments({ roomId, isBot: { $ne: true } });
+            if (humansLeft === 0) {
+                // Bots never keep a room alive on their own.
+                await RoomPlayer().deleteMany({ roomId });
                 await Room().findByIdAndDelete(roomId);
                 await RoomTeam().deleteMany({ roomId });
                 await gameStateCache.evict(roomId);
-            } else if (room.hostId.toString() === userIdStr) {
-                const newHost = await RoomPlayer().findOne({ roomId });
-                if(newHost) room.hostId = newHost.userId;
+                clearTurnTimeout(roomId);
+                await clearPauseVotes(roomId);
+            } else {
+                if (room.hostId.toString() === userIdStr) {
+                    const newHost = await RoomPlayer().findOne({ roomId, isBot: { $ne: true } });
+                    if(newHost) room.hostId = newHost.userId;
+                }
+                await room.save();
+                await syncRoomTeams(roomId);
             }
-            await room.save();
-            await syncRoomTeams(roomId);
         }
         await recordGameEvent({
           roomId,
@@ -424,6 +450,11 @@ export async function leaveRoom(req: Request, res: Response) {
         });
         return res.json(formatSuccessResponse({}, "Left room"));
     } catch (error) {
+        if (error instanceof Error) {
+          if (error.message === "GAME_NOT_IN_PROGRESS") return res.status(409).json(formatErrorResponse("Game state changed, try again"));
+          if (error.message === "STATE_NOT_FOUND") return res.status(404).json(formatErrorResponse("Room state not found"));
+          if (error.message === "ROOM_LOCKED") return res.status(503).json(formatErrorResponse("Room is busy, try again"));
+        }
         console.error("Leave room error:", error);
         return res.status(500).json(formatErrorResponse("Leave room failed"));
     }
@@ -455,25 +486,40 @@ export async function updateRoomStatus(req: Request, res: Response) {
     if (!orderedPlayers.every((p) => p.ready)) return res.status(400).json(formatErrorResponse("All players must be ready"));
     
     const config = getGameConfig(room.settings.maxPlayers);
+    const houseRules = normalizeHouseRules(room.settings?.rules);
     const tokens = ALL_PLAYER_COLORS.reduce<Record<PlayerColor, Token[]>>((acc, colorKey) => {
       acc[colorKey] = [];
       return acc;
     }, {} as Record<PlayerColor, Token[]>);
     for (const p of config.players) {
-        tokens[p.id] = Array.from({ length: 4 }, (_, i) => ({ id: i, color: p.id, position: -1, status: "base", steps: 0 }));
+        tokens[p.id] = Array.from({ length: houseRules.tokensPerPlayer }, (_, i) =>
+          houseRules.startTokenReleased && i === 0
+            ? { id: i, color: p.id, position: p.homeStart, status: "safe", steps: 0 }
+            : { id: i, color: p.id, position: -1, status: "base", steps: 0 }
+        );
     }
 
-    const startIndex = Math.floor(Math.random() * orderedPlayers.length);
+    const openerIndex = orderedPlayers.findIndex((p) => p.color === room.startingColor);
+    const startIndex = openerIndex !== -1 ? openerIndex : Math.floor(Math.random() * orderedPlayers.length);
     room.status = "in_progress";
     room.currentPlayerIndex = startIndex;
     room.gameBoard.tokens = tokens;
     room.gameBoard.currentPlayerId = orderedPlayers[startIndex]._id;
     room.gameBoard.lastRollAt = null;
+    const turnDeadline = computeTurnDeadline("in_progress", null, normalizeTurnTimer(room.settings?.turnTimer));
+    room.gameBoard.turnDeadline = turnDeadline ? new Date(turnDeadline) : null;
     room.gameBoard.gameLog.push("Game started");
 
     await room.save();
     await gameStateCache.primeFromRoomDoc(room);
     await syncRoomTeams(room._id.toString());
+    const startState = await gameStateCache.getState(room._id.toString());
+    armTurnTimer(
+      room._id.toString(),
+      turnDeadline,
+      orderedPlayers[startIndex],
+      startState?.revision ?? Number((room.gameBoard as any)?.revision || 0)
+    );
     await recordGameEvent({
       roomId: room._id.toString(),
       type: "game:start",
@@ -483,9 +529,21 @@ export async function updateRoomStatus(req: Request, res: Response) {
         currentPlayerId: room.gameBoard.currentPlayerId?.toString() || null,
         maxPlayers: room.settings.maxPlayers,
         mode: room.settings.mode,
+        tokensPerPlayer: houseRules.tokensPerPlayer,
+        startTokenReleased: houseRules.startTokenReleased,
+        turnDeadline,
+        homeUnlocked: Object.fromEntries(
+          orderedPlayers.map((p) => [p._id.toString(), !houseRules.captureToEnterHome])
+        ),
+        // Starting point for GET /:roomId/replay
+        initialBoard: startState ? toRulesState(room, startState, orderedPlayers) : null,
       },
     });
-    emitRoomUpdate(room._id.toString(), { type: "game:start" });
+    emitRoomUpdate(room._id.toString(), { type: "game:start", turnDeadline });
+    void moveLobbyWatchersToFeed(
+      room._id.toString(),
+      orderedPlayers.filter((p) => !p.isBot).map((p) => p.userId.toString())
+    ).catch((error) => console.error("[spectators] moving lobby watchers failed:", error));
 
     return res.json(formatSuccessResponse(room.gameBoard));
   } catch (e) {
@@ -496,7 +554,6 @@ export async function updateRoomStatus(req: Request, res: Response) {
 
 export async function rollDice(req: Request, res: Response) {
   try {
-    const t0 = perfNow();
     const { roomId } = req.params;
     const userId = req.userId;
     if (!userId) return res.status(401).json(formatErrorResponse("Unauthorized"));
@@ -505,192 +562,26 @@ export async function rollDice(req: Request, res: Response) {
       return res.status(400).json(formatErrorResponse("Invalid roomId"));
     }
 
-    console.log("[rollDice] roomId", roomId, "userId", userIdStr);
-
-    const tRoom = perfNow();
-    const room = await Room().findById(roomId);
-    if (!room) return res.status(404).json(formatErrorResponse("Room not found"));
-    logPerf("rollDice.roomLookup", tRoom);
-
-    const tPlayers = perfNow();
-    const players = await RoomPlayer().find({ roomId });
-    const orderedPlayers = sortPlayersByColor(players, room.settings.maxPlayers);
-    logPerf("rollDice.playersLookup", tPlayers, { players: orderedPlayers.length });
-    const config = getGameConfig(room.settings.maxPlayers);
-
-    const tState = perfNow();
-    const payload = await gameStateCache.runExclusive(roomId, async () => {
-      const state = await gameStateCache.getState(roomId, room.toObject());
-      if (!state) throw new Error("STATE_NOT_FOUND");
-
-      let currentIndex = getCurrentIndex(
-        { currentPlayerIndex: state.currentPlayerIndex, gameBoard: state.gameBoard },
-        orderedPlayers
-      );
-      let current = orderedPlayers[currentIndex];
-      if (room.settings.mode !== "team") {
-        const normalized = normalizeCurrentTurnForIndividual(state, orderedPlayers);
-        currentIndex = normalized.currentIndex;
-        current = normalized.current;
-      } else {
-        state.currentPlayerIndex = currentIndex;
-        if (!state.gameBoard.currentPlayerId) state.gameBoard.currentPlayerId = current._id.toString();
-      }
-      if (!current) throw new Error("STATE_NOT_FOUND");
-
-      if (current.userId.toString() !== userIdStr) {
-        if (PERF_DEBUG) {
-          console.warn("[turn-mismatch][rollDice]", {
-            roomId,
-            expectedUserId: current.userId.toString(),
-            actualUserId: userIdStr,
-            currentPlayerRoomPlayerId: current._id.toString(),
-            stateCurrentPlayerId: state.gameBoard.currentPlayerId,
-            currentIndex,
-          });
-        }
-        throw new Error("NOT_YOUR_TURN");
-      }
-      if (state.gameBoard.winners.some((w) => String(w.playerId) === current._id.toString())) {
-        if (room.settings.mode !== "team") throw new Error("WINNER_CANNOT_ROLL");
-      }
-      if (state.gameBoard.diceValue !== null) {
-        throw new Error("ALREADY_ROLLED");
-      }
-
-      const controllableColors = getControllableColors(room.settings.mode, room.settings.maxPlayers, current.color);
-      const dice = await generateDiceValue({
-        roomId,
-        playerId: current._id.toString(),
-        playerColor: current.color,
-        controllableColors,
-        state,
-        gameConfig: config,
-        tuningProfile: room.settings?.tuningProfile,
-      });
-      state.gameBoard.diceValue = dice;
-      state.gameBoard.lastRollAt = new Date().toISOString();
-
-      const valid = findValidMoves(state.gameBoard.tokens, current.color, dice, config, controllableColors);
-      state.gameBoard.validMoves = valid;
-      await reportDiceOutcome(
-        roomId,
-        current._id.toString(),
-        dice,
-        valid.length > 0,
-        room.settings?.tuningProfile
-      );
-
-      if (valid.length === 0) {
-        state.currentPlayerIndex = advanceGameTurn(
-          currentIndex,
-          orderedPlayers,
-          state.gameBoard as any,
-          room.settings.mode !== "team"
-        );
-        state.gameBoard.currentPlayerId = orderedPlayers[state.currentPlayerIndex]._id.toString();
-        state.gameBoard.diceValue = null;
-        state.gameBoard.validMoves = [];
-        state.gameBoard.lastRollAt = null;
-        state.gameBoard.gameLog.push("No move, turn skipped");
-      }
-
-      const rankMap = computePlayerRankMap(orderedPlayers, state.gameBoard.tokens, state.gameBoard.winners as any);
-      const actorRoomPlayerId = current._id.toString();
-      const actorRank = rankMap.get(actorRoomPlayerId) || orderedPlayers.length;
-      const tauntEvents: TauntEventInput[] = [];
-      if (dice === 6) {
-        tauntEvents.push({
-          trigger: "rolled_six",
-          actorRoomPlayerId,
-          actorUserId: current.userId.toString(),
-          metadata: {
-            actorWasLast: actorRank >= orderedPlayers.length,
-          },
-        });
-      }
-      if (dice >= 5 && state.gameBoard.winners.length >= Math.max(1, orderedPlayers.length - 2)) {
-        tauntEvents.push({
-          trigger: "clutch_roll",
-          actorRoomPlayerId,
-          actorUserId: current.userId.toString(),
-          metadata: {
-            actorWasLast: actorRank >= orderedPlayers.length,
-          },
-        });
-      }
-      if (actorRank >= orderedPlayers.length && valid.length > 0) {
-        tauntEvents.push({
-          trigger: "last_place",
-          actorRoomPlayerId,
-          actorUserId: current.userId.toString(),
-        });
-      }
+    const expectedRevision = readExpectedRevision(req.body);
+    if (expectedRevision === null) {
+      return res.status(400).json(formatErrorResponse("expectedRevision must be a non-negative integer"));
+    }
 
-      await gameStateCache.markDirty(roomId, "dice:roll", false);
-      return {
-        dice,
-        valid,
-        actorRoomPlayerId,
-        actorUserId: current.userId.toString(),
-        tauntEvents,
-        tauntSnapshot: {
-          tokens: state.gameBoard.tokens,
-          winners: state.gameBoard.winners as Array<{ playerId: string; rank: number }>,
-        },
-        patch: {
-          revision: state.revision,
-          currentPlayerIndex: state.currentPlayerIndex,
-          gameBoard: {
-            diceValue: state.gameBoard.diceValue,
-            validMoves: state.gameBoard.validMoves,
-            currentPlayerId: state.gameBoard.currentPlayerId,
-            lastRollAt: state.gameBoard.lastRollAt,
-          },
-        },
-      };
-    });
-    logPerf("rollDice.stateUpdate", tState);
+    console.log("[rollDice] roomId", roomId, "userId", userIdStr);
 
-    const tEmit = perfNow();
-    emitRoomUpdate(room._id.toString(), {
-      type: "dice:roll",
-      dice: payload.dice,
-      patch: payload.patch,
-    });
-    await recordGameEvent({
-      roomId: room._id.toString(),
-      type: "dice:roll",
-      actorUserId: payload.actorUserId,
-      actorRoomPlayerId: payload.actorRoomPlayerId,
-      revision: payload.patch.revision,
-      payload: {
-        dice: payload.dice,
-        validMoves: payload.valid,
-      },
-    });
-    if (payload.tauntEvents?.length) {
-      await processTauntEvents({
-        room: toTauntRoomSnapshot(
-          room._id.toString(),
-          room,
-          orderedPlayers,
-          payload.tauntSnapshot.tokens,
-          payload.tauntSnapshot.winners
-        ),
-        roomTauntMode: (room.settings as any)?.tauntMode,
-        events: payload.tauntEvents,
-      });
-    }
-    logPerf("rollDice.emit", tEmit);
-    logPerf("rollDice.total", t0);
+    const payload = await rollForCurrentPlayer(roomId, { source: "player", userId: userIdStr, expectedRevision });
     return res.json(formatSuccessResponse(payload));
   } catch (e) {
     if (e instanceof Error) {
+      if (e.message === "REVISION_MISMATCH") return sendRevisionConflict(res, req.params.roomId);
+      if (e.message === "ROOM_NOT_FOUND") return res.status(404).json(formatErrorResponse("Room not found"));
       if (e.message === "NOT_YOUR_TURN") return res.status(403).json(formatErrorResponse("Not your turn"));
       if (e.message === "WINNER_CANNOT_ROLL") return res.status(403).json(formatErrorResponse("Winner cannot roll"));
       if (e.message === "ALREADY_ROLLED") return res.status(400).json(formatErrorResponse("Already rolled"));
+      if (e.message === "GAME_NOT_IN_PROGRESS") return res.status(400).json(formatErrorResponse("Game is not in progress"));
+      if (e.message === "GAME_PAUSED") return res.status(409).json(formatErrorResponse("Game is paused"));
       if (e.message === "STATE_NOT_FOUND") return res.status(404).json(formatErrorResponse("Room state not found"));
+      if (e.message === "ROOM_LOCKED") return res.status(503).json(formatErrorResponse("Room is busy, try again"));
     }
     console.error("Roll dice error:", e);
     return res.status(500).json(formatErrorResponse("Roll dice failed"));
@@ -771,26 +662,65 @@ export async function getRoomEvents(req: Request, res: Response) {
 
     const room = await Room().findById(roomId).select("_id");
     if (!room) return res.status(404).json(formatErrorResponse("Room not found"));
+    const viewer = await resolveRoomViewer(roomId, req.userId?.toString() ?? null);
 
     const events = await GameEvent()
-      .find({ roomId })
+      .find(viewer.role === "spectator" ? { roomId, createdAt: { $lte: viewer.cutoff } } : { roomId })
       .sort({ createdAt: -1 })
       .limit(limit)
       .lean();
 
     return res.json(formatSuccessResponse(events));
   } catch (error) {
+    if (error instanceof Error && error.message === "SPECTATORS_NOT_ALLOWED") {
+      return res.status(403).json(formatErrorResponse("Spectators are not allowed in this room"));
+    }
     console.error("Get room events error:", error);
     return res.status(500).json(formatErrorResponse("Failed to fetch room events"));
   }
 }
 
+export async function getRoomReplay(req: Request, res: Response) {
+  try {
+    const { roomId } = req.params;
+    if (!isValidObjectId(roomId)) {
+      return res.status(400).json(formatErrorResponse("Invalid roomId"));
+    }
+    const revision = req.query.revision === undefined ? undefined : Number(req.query.revision);
+    if (revision !== undefined && (!Number.isInteger(revision) || revision < 0)) {
+      return res.status(400).json(formatErrorResponse("revision must be a non-negative integer"));
+    }
+
+    const viewer = await resolveRoomViewer(roomId, req.userId?.toString() ?? null);
+    const replay = await buildRoomReplay(roomId, {
+      revision,
+      before: viewer.role === "spectator" ? viewer.cutoff : undefined,
+    });
+    return res.json(formatSuccessResponse(replay));
+  } catch (e) {
+    if (e instanceof Error) {
+      if (e.message === "ROOM_NOT_FOUND") return res.status(404).json(formatErrorResponse("Room not found"));
+      if (e.message === "SPECTATORS_NOT_ALLOWED") {
+        return res.status(403).json(formatErrorResponse("Spectators are not allowed in this room"));
+      }
+      if (e.message === "REPLAY_NOT_AVAILABLE") return res.status(404).json(formatErrorResponse("No replay recorded for this room"));
+      if (e.message === "REVISION_NOT_REPLAYABLE") {
+        return res.status(409).json(formatErrorResponse("Events up to that revision are missing"));
+      }
+      if (e.message === "REPLAY_DIVERGED") {
+        return res.status(409).json(formatErrorResponse("Recorded events do not replay cleanly"));
+      }
+    }
+    console.error("Get room replay error:", e);
+    return res.status(500).json(formatErrorResponse("Failed to build replay"));
+  }
+}
+
 /* ============================================================
    ADVANCE TURN
 ============================================================ */
 export async function advanceTurn(req: Request, res: Response) {
   try {
-    const t0 = perfNow();
     const { roomId } = req.params;
     const userId = req.userId;
     if (!userId) return res.status(401).json(formatErrorResponse("Unauthorized"));
@@ -799,116 +729,39 @@ export async function advanceTurn(req: Request, res: Response) {
       return res.status(400).json(formatErrorResponse("Invalid roomId"));
     }
 
-    const tRoom = perfNow();
-    const room = await Room().findById(roomId);
-    if (!room) return res.status(404).json(formatErrorResponse("Room not found"));
-    logPerf("advanceTurn.roomLookup", tRoom);
-
-    const tPlayers = perfNow();
-    const players = await RoomPlayer().find({ roomId });
-    const orderedPlayers = sortPlayersByColor(players, room.settings.maxPlayers);
-    logPerf("advanceTurn.playersLookup", tPlayers, { players: orderedPlayers.length });
-
-    const tState = perfNow();
-    const payload = await gameStateCache.runExclusive(roomId, async () => {
-      const state = await gameStateCache.getState(roomId, room.toObject());
-      if (!state) throw new Error("STATE_NOT_FOUND");
-
-      let currentIndex = getCurrentIndex(
-        { currentPlayerIndex: state.currentPlayerIndex, gameBoard: state.gameBoard },
-        orderedPlayers
-      );
-      let current = orderedPlayers[currentIndex];
-      if (room.settings.mode !== "team") {
-        const normalized = normalizeCurrentTurnForIndividual(state, orderedPlayers);
-        currentIndex = normalized.currentIndex;
-        current = normalized.current;
-      } else {
-        state.currentPlayerIndex = currentIndex;
-        if (!state.gameBoard.currentPlayerId) state.gameBoard.currentPlayerId = current._id.toString();
-      }
-      if (!current) throw new Error("STATE_NOT_FOUND");
-      if (current.userId.toString() !== userIdStr) {
-        if (PERF_DEBUG) {
-          console.warn("[turn-mismatch][advanceTurn]", {
-            roomId,
-            expectedUserId: current.userId.toString(),
-            actualUserId: userIdStr,
-            currentPlayerRoomPlayerId: current._id.toString(),
-            stateCurrentPlayerId: state.gameBoard.currentPlayerId,
-            currentIndex,
-          });
-        }
-        throw new Error("NOT_YOUR_TURN");
-      }
-
-      if (state.gameBoard.diceValue !== null && state.gameBoard.lastRollAt) {
-        const elapsed = Date.now() - new Date(state.gameBoard.lastRollAt).getTime();
-        if (elapsed < 20000) {
-          throw new Error("MOVE_TIME_NOT_EXPIRED");
-        }
-      }
-
-      state.currentPlayerIndex = advanceGameTurn(
-        currentIndex,
-        orderedPlayers,
-        state.gameBoard as any,
-        room.settings.mode !== "team"
-      );
-      state.gameBoard.currentPlayerId = orderedPlayers[state.currentPlayerIndex]._id.toString();
-      const next = orderedPlayers[state.currentPlayerIndex];
-      state.gameBoard.diceValue = null;
-      state.gameBoard.validMoves = [];
-      state.gameBoard.lastRollAt = null;
-
-      await gameStateCache.markDirty(roomId, "turn:advance", false);
-      return {
-        actorRoomPlayerId: current._id.toString(),
-        actorUserId: current.userId.toString(),
-        previousPlayerId: current._id.toString(),
-        currentPlayerId: state.gameBoard.currentPlayerId,
-        nextPlayerId: next._id.toString(),
-        patch: {
-          revision: state.revision,
-          currentPlayerIndex: state.currentPlayerIndex,
-          gameBoard: {
-            currentPlayerId: state.gameBoard.currentPlayerId,
-            diceValue: state.gameBoard.diceValue,
-            validMoves: state.gameBoard.validMoves,
-            lastRollAt: state.gameBoard.lastRollAt,
-          },
-        },
-      };
-    });
-    logPerf("advanceTurn.stateUpdate", tState);
+    const expectedRevision = readExpectedRevision(req.body);
+    if (expectedRevision === null) {
+      return res.status(400).json(formatErrorResponse("expectedRevision must be a non-negative integer"));
+    }
 
-    const tEmit = perfNow();
-    emitRoomUpdate(room._id.toString(), { type: "turn:advance", patch: payload.patch });
-    await recordGameEvent({
-      roomId: room._id.toString(),
-      type: "turn:advance",
-      actorUserId: payload.actorUserId,
-      actorRoomPlayerId: payload.actorRoomPlayerId,
-      revision: payload.patch.revision,
-      payload: {
-        previousPlayerId: payload.previousPlayerId,
-        nextPlayerId: payload.nextPlayerId,
-      },
-    });
-    logPerf("advanceTurn.emit", tEmit);
-    logPerf("advanceTurn.total", t0);
+    const payload = await passForCurrentPlayer(roomId, { source: "player", userId: userIdStr, expectedRevision });
     return res.json(formatSuccessResponse(payload, "Turn advanced"));
   } catch (error) {
     if (error instanceof Error) {
+      if (error.message === "REVISION_MISMATCH") {
+        return sendRevisionConflict(res, req.params.roomId);
+      }
+      if (error.message === "ROOM_NOT_FOUND") {
+        return res.status(404).json(formatErrorResponse("Room not found"));
+      }
       if (error.message === "NOT_YOUR_TURN") {
         return res.status(403).json(formatErrorResponse("It is not your turn to advance"));
       }
       if (error.message === "MOVE_TIME_NOT_EXPIRED") {
         return res.status(400).json(formatErrorResponse("Move time has not expired"));
       }
+      if (error.message === "GAME_NOT_IN_PROGRESS") {
+        return res.status(400).json(formatErrorResponse("Game is not in progress"));
+      }
+      if (error.message === "GAME_PAUSED") {
+        return res.status(409).json(formatErrorResponse("Game is paused"));
+      }
       if (error.message === "STATE_NOT_FOUND") {
         return res.status(404).json(formatErrorResponse("Room state not found"));
       }
+      if (error.message === "ROOM_LOCKED") {
+        return res.status(503).json(formatErrorResponse("Room is busy, try again"));
+      }
     }
     console.error("Advance turn error:", error);
     return res.status(500).json(formatErrorResponse("Failed to advance turn"));
@@ -917,7 +770,6 @@ export async function advanceTurn(req: Request, res: Response) {
 
 export async function makeMove(req: Request, res: Response) {
   try {
-    const t0 = perfNow();
     const { roomId } = req.params;
     const { tokenId, color, diceValue, enterHome } = req.body;
     const userId = req.userId;
@@ -936,394 +788,325 @@ export async function makeMove(req: Request, res: Response) {
       return res.status(400).json(formatErrorResponse("Invalid color"));
     }
     const moveColor = color as PlayerColor;
+    const expectedRevision = readExpectedRevision(req.body);
+    if (expectedRevision === null) {
+      return res.status(400).json(formatErrorResponse("expectedRevision must be a non-negative integer"));
+    }
 
     console.log("[makeMove] roomId", roomId, "userId", userIdStr, "tokenId", tokenId, "color", moveColor, "diceValue", diceValue);
 
-    const tRoom = perfNow();
+    const movePayload = await moveForCurrentPlayer(
+      roomId,
+      { source: "player", userId: userIdStr, expectedRevision },
+      { tokenId, color: moveColor, diceValue, enterHome }
+    );
+    return res.json(formatSuccessResponse({ ...movePayload.board, revision: movePayload.patch.revision }));
+  } catch (e) {
+    if (e instanceof Error) {
+      if (e.message === "REVISION_MISMATCH") return sendRevisionConflict(res, req.params.roomId);
+      if (e.message === "ROOM_NOT_FOUND") return res.status(404).json(formatErrorResponse("Room not found"));
+      if (e.message === "NOT_YOUR_TURN") return res.status(403).json(formatErrorResponse("Not your turn"));
+      if (e.message === "WINNER_CANNOT_MOVE") return res.status(403).json(formatErrorResponse("Winner cannot move"));
+      if (e.message === "DICE_MISMATCH") return res.status(400).json(formatErrorResponse("Dice value mismatch"));
+      if (e.message === "INVALID_MOVE") return res.status(400).json(formatErrorResponse("Invalid move"));
+      if (e.message === "INVALID_TEAM_COLOR") return res.status(403).json(formatErrorResponse("You can only move your team colors"));
+      if (e.message === "TOKEN_NOT_FOUND") return res.status(404).json(formatErrorResponse("Token not found"));
+      if (e.message === "GAME_NOT_IN_PROGRESS") return res.status(400).json(formatErrorResponse("Game is not in progress"));
+      if (e.message === "GAME_PAUSED") return res.status(409).json(formatErrorResponse("Game is paused"));
+      if (e.message === "STATE_NOT_FOUND") return res.status(404).json(formatErrorResponse("Room state not found"));
+      if (e.message === "ROOM_LOCKED") return res.status(503).json(formatErrorResponse("Room is busy, try again"));
+    }
+    console.error("Make move error:", e);
+    return res.status(500).json(formatErrorResponse("Make move failed"));
+  }
+}
+
+/* ============================================================
+   PAUSE / RESUME
+============================================================ */
+async function updateRoomPause(req: Request, res: Response, action: "pause" | "resume") {
+  try {
+    const { roomId } = req.params;
+    const userId = req.userId;
+    const { reason } = req.body as { reason?: unknown };
+    if (!userId) return res.status(401).json(formatErrorResponse("Unauthorized"));
+    if (!isValidObjectId(roomId)) {
+      return res.status(400).json(formatErrorResponse("Invalid roomId"));
+    }
+    if (reason !== undefined && (typeof reason !== "string" || reason.length > 120)) {
+      return res.status(400).json(formatErrorResponse("reason must be a string of at most 120 characters"));
+    }
+
+    const room = await Room().findById(roomId).select("hostId");
+    if (!room) return res.status(404).json(formatErrorResponse("Room not found"));
+    if (room.hostId.toString() !== userId.toString()) {
+      return res.status(403).json(formatErrorResponse(`Only host can ${action} the game`));
+    }
+
+    const patch = await setRoomPaused(roomId, action, {
+      source: "host",
+      userId: userId.toString(),
+      reason: typeof reason === "string" ? reason.trim() : null,
+    });
+    return res.json(formatSuccessResponse(patch, action === "pause" ? "Game paused" : "Game resumed"));
+  } catch (e) {
+    if (e instanceof Error) {
+      if (e.message === "ROOM_NOT_FOUND") return res.status(404).json(formatErrorResponse("Room not found"));
+      if (e.message === "ALREADY_PAUSED") return res.status(409).json(formatErrorResponse("Game is already paused"));
+      if (e.message === "GAME_NOT_PAUSED") return res.status(409).json(formatErrorResponse("Game is not paused"));
+      if (e.message === "GAME_NOT_IN_PROGRESS") return res.status(400).json(formatErrorResponse("Game is not in progress"));
+      if (e.message === "STATE_NOT_FOUND") return res.status(404).json(formatErrorResponse("Room state not found"));
+      if (e.message === "ROOM_LOCKED") return res.status(503).json(formatErrorResponse("Room is busy, try again"));
+    }
+    console.error(`${action === "pause" ? "Pause" : "Resume"} game error:`, e);
+    return res.status(500).json(formatErrorResponse(`Failed to ${action} game`));
+  }
+}
+
+export async function pauseGame(req: Request, res: Response) {
+  return updateRoomPause(req, res, "pause");
+}
+
+export async function resumeGame(req: Request, res: Response) {
+  return updateRoomPause(req, res, "resume");
+}
+
+/* ============================================================
+   RESIGN
+============================================================ */
+export async function resignGame(req: Request, res: Response) {
+  try {
+    const { roomId } = req.params;
+    const userId = req.userId;
+    if (!userId) return res.status(401).json(formatErrorResponse("Unauthorized"));
+    if (!isValidObjectId(roomId)) {
+      return res.status(400).json(formatErrorResponse("Invalid roomId"));
+    }
+
+    const outcome = await resignForPlayer(roomId, userId.toString());
+    if (outcome.status === "pending") {
+      return res.status(202).json(formatSuccessResponse(outcome, "Waiting for teammate to confirm"));
+    }
+    return res.json(formatSuccessResponse(outcome, "Resigned"));
+  } catch (e) {
+    if (e instanceof Error) {
+      if (e.message === "ROOM_NOT_FOUND") return res.status(404).json(formatErrorResponse("Room not found"));
+      if (e.message === "NOT_IN_ROOM") return res.status(403).json(formatErrorResponse("You are not in this room"));
+      if (e.message === "GAME_NOT_IN_PROGRESS") return res.status(400).json(formatErrorResponse("Game is not in progress"));
+      if (e.message === "ALREADY_RESIGNED") return res.status(409).json(formatErrorResponse("Already resigned"));
+      if (e.message === "ALREADY_FINISHED") return res.status(409).json(formatErrorResponse("You have already finished"));
+      if (e.message === "STATE_NOT_FOUND") return res.status(404).json(formatErrorResponse("Room state not found"));
+      if (e.message === "ROOM_LOCKED") return res.status(503).json(formatErrorResponse("Room is busy, try again"));
+    }
+    console.error("Resign error:", e);
+    return res.status(500).json(formatErrorResponse("Resign failed"));
+  }
+}
+
+export async function cancelResign(req: Request, res: Response) {
+  try {
+    const { roomId } = req.params;
+    const userId = req.userId;
+    if (!userId) return res.status(401).json(formatErrorResponse("Unauthorized"));
+    if (!isValidObjectId(roomId)) {
+      return res.status(400).json(formatErrorResponse("Invalid roomId"));
+    }
+
+    const cancelled = await cancelResignRequest(roomId, userId.toString());
+    if (!cancelled) return res.status(404).json(formatErrorResponse("No pending resign request"));
+    return res.json(formatSuccessResponse({ cancelled }, "Resign request cancelled"));
+  } catch (e) {
+    if (e instanceof Error) {
+      if (e.message === "ROOM_NOT_FOUND") return res.status(404).json(formatErrorResponse("Room not found"));
+      if (e.message === "NOT_IN_ROOM") return res.status(403).json(formatErrorResponse("You are not in this room"));
+    }
+    console.error("Cancel resign error:", e);
+    return res.status(500).json(formatErrorResponse("Cancel resign failed"));
+  }
+}
+
+/* ============================================================
+   REMATCH
+============================================================ */
+export async function requestRematch(req: Request, res: Response) {
+  try {
+    const { roomId } = req.params;
+    const userId = req.userId;
+    const { useRankings = false } = req.body as { useRankings?: unknown };
+    if (!userId) return res.status(401).json(formatErrorResponse("Unauthorized"));
+    if (!isValidObjectId(roomId)) {
+      return res.status(400).json(formatErrorResponse("Invalid roomId"));
+    }
+    if (typeof useRankings !== "boolean") {
+      return res.status(400).json(formatErrorResponse("useRankings must be a boolean"));
+    }
+
+    const rematch = await createRematch(roomId, userId.toString(), { useRankings });
+    return res
+      .status(rematch.created ? 201 : 200)
+      .json(formatSuccessResponse(rematch, rematch.created ? "Rematch created" : "Rematch already open"));
+  } catch (e) {
+    if (e instanceof Error) {
+      if (e.message === "ROOM_NOT_FOUND") return res.status(404).json(formatErrorResponse("Room not found"));
+      if (e.message === "NOT_IN_ROOM") return res.status(403).json(formatErrorResponse("You are not in this room"));
+      if (e.message === "GAME_NOT_COMPLETED") return res.status(400).json(formatErrorResponse("Game has not finished yet"));
+      if (e.message === "REMATCH_IN_PROGRESS") return res.status(409).json(formatErrorResponse("Rematch is being created"));
+    }
+    console.error("Rematch error:", e);
+    return res.status(500).json(formatErrorResponse("Rematch failed"));
+  }
+}
+
+/* ============================================================
+   MOVE HINTS
+============================================================ */
+export async function getMoveHint(req: Request, res: Response) {
+  try {
+    const { roomId } = req.params;
+    const userId = req.userId;
+    if (!userId) return res.status(401).json(formatErrorResponse("Unauthorized"));
+    if (!isValidObjectId(roomId)) {
+      return res.status(400).json(formatErrorResponse("Invalid roomId"));
+    }
+
     const room = await Room().findById(roomId);
-    if (!room) return res.status(404).json(formatErrorResponse('Room not found'));
-    logPerf("makeMove.roomLookup", tRoom);
+    if (!room) return res.status(404).json(formatErrorResponse("Room not found"));
+    if (room.settings?.hintsEnabled === false) {
+      return res.status(403).json(formatErrorResponse("Hints are disabled in this room"));
+    }
 
-    const tPlayers = perfNow();
     const players = await RoomPlayer().find({ roomId });
     const orderedPlayers = sortPlayersByColor(players, room.settings.maxPlayers);
-    logPerf("makeMove.playersLookup", tPlayers, { players: orderedPlayers.length });
-
-    const tState = perfNow();
-    const movePayload = await gameStateCache.runExclusive(roomId, async () => {
-      const state = await gameStateCache.getState(roomId, room.toObject());
-      if (!state) throw new Error("STATE_NOT_FOUND");
-
-      let currentIndex = getCurrentIndex(
-        { currentPlayerIndex: state.currentPlayerIndex, gameBoard: state.gameBoard },
-        orderedPlayers
-      );
-      let current = orderedPlayers[currentIndex];
-      if (room.settings.mode !== "team") {
-        const normalized = normalizeCurrentTurnForIndividual(state, orderedPlayers);
-        currentIndex = normalized.currentIndex;
-        current = normalized.current;
-      } else {
-        state.currentPlayerIndex = currentIndex;
-        if (!state.gameBoard.currentPlayerId) state.gameBoard.currentPlayerId = current._id.toString();
-      }
-      if (!current) throw new Error("STATE_NOT_FOUND");
-
-      if (current.userId.toString() !== userIdStr) {
-        if (PERF_DEBUG) {
-          console.warn("[turn-mismatch][makeMove]", {
-            roomId,
-            expectedUserId: current.userId.toString(),
-            actualUserId: userIdStr,
-            currentPlayerRoomPlayerId: current._id.toString(),
-            stateCurrentPlayerId: state.gameBoard.currentPlayerId,
-            currentIndex,
-          });
-        }
-        throw new Error("NOT_YOUR_TURN");
-      }
-      if (state.gameBoard.winners.some((w) => String(w.playerId) === current._id.toString())) {
-        if (room.settings.mode !== "team") throw new Error("WINNER_CANNOT_MOVE");
-      }
-      if (state.gameBoard.diceValue !== diceValue) throw new Error("DICE_MISMATCH");
-
-      const config = getGameConfig(room.settings.maxPlayers);
-      const controllableColors = getControllableColors(room.settings.mode, room.settings.maxPlayers, current.color);
-      if (!controllableColors.includes(moveColor)) throw new Error("INVALID_TEAM_COLOR");
-      const isValid = state.gameBoard.validMoves.some((m) => m.id === tokenId && m.color === moveColor);
-      if (!isValid) throw new Error("INVALID_MOVE");
-
-      const token = state.gameBoard.tokens[moveColor]?.find((t: Token) => t.id === tokenId);
-      if (!token) throw new Error("TOKEN_NOT_FOUND");
-      const beforeTokens: Record<PlayerColor, Token[]> = JSON.parse(JSON.stringify(state.gameBoard.tokens || {}));
-      const beforeWinners = [...(state.gameBoard.winners as Array<{ playerId: string; rank: number }>)];
-      const tokenOnTrack =
-        typeof token.position === "number" &&
-        token.position >= 0 &&
-        token.position < 52 &&
-        (token.status === "active" || token.status === "safe");
-      const sameCellTokenIds = tokenOnTrack
-        ? (state.gameBoard.tokens[moveColor] || [])
-            .filter((t: Token) => {
-              const onTrack =
-                typeof t.position === "number" &&
-                t.position >= 0 &&
-                t.position < 52 &&
-                (t.status === "active" || t.status === "safe");
-              return onTrack && t.position === token.position;
-            })
-            .map((t: Token) => t.id)
-        : [tokenId];
-      const forcedStackMove =
-        tokenOnTrack && sameCellTokenIds.length >= 2 && !SAFE_INDICES.includes(token.position);
-      if (forcedStackMove && diceValue % 2 !== 0) throw new Error("INVALID_MOVE");
-      const effectiveDice = forcedStackMove ? diceValue / 2 : diceValue;
-      if (effectiveDice < 1) throw new Error("INVALID_MOVE");
-
-      const movingTokenIds = forcedStackMove ? sameCellTokenIds : [tokenId];
-      const workingTokens: Record<PlayerColor, Token[]> = JSON.parse(JSON.stringify(state.gameBoard.tokens || {}));
-      const mergedCaptured: { id: number; color: PlayerColor }[] = [];
-      const seenCaptured = new Set<string>();
-      let capturedToken: { id: number; color: PlayerColor } | undefined;
-      let reachedHomeThisMove = false;
-      let releasedFromBase = false;
-      let enteredSafeCell = false;
-
-      for (const movingId of movingTokenIds) {
-        const movingToken = (workingTokens[moveColor] || []).find((t: Token) => t.id === movingId);
-        if (!movingToken) continue;
-        const beforeStatus = movingToken.status;
-        const beforePosition = movingToken.position;
-        const { updatedToken, capturedTokens } = applyMove(
-          movingToken,
-          effectiveDice,
-          moveColor,
-          config,
-          workingTokens,
-          enterHome !== false,
-          controllableColors
-        );
-        workingTokens[moveColor] = (workingTokens[moveColor] || []).map((t: Token) =>
-          t.id === movingId ? updatedToken : t
-        );
-        if (beforeStatus !== "home" && updatedToken.status === "home") {
-          reachedHomeThisMove = true;
-        }
-        if (beforeStatus === "base" && updatedToken.status !== "base") {
-          releasedFromBase = true;
-        }
-        if (
-          (beforeStatus === "active" || beforeStatus === "safe") &&
-          beforePosition >= 0 &&
-          beforePosition < 52 &&
-          updatedToken.status === "safe"
-        ) {
-          enteredSafeCell = true;
-        }
+    const state = await gameStateCache.getState(roomId, room.toObject());
+    if (!state) return res.status(404).json(formatErrorResponse("Room state not found"));
+    if (state.status !== "in_progress") {
+      return res.status(400).json(formatErrorResponse("Game is not in progress"));
+    }
+    const current = orderedPlayers.find((p) => p._id.toString() === state.gameBoard.currentPlayerId);
+    if (!current || current.userId.toString() !== userId.toString()) {
+      return res.status(403).json(formatErrorResponse("Not your turn"));
+    }
+    if (state.gameBoard.diceValue === null) {
+      return res.status(400).json(formatErrorResponse("Roll the dice first"));
+    }
 
-        if (capturedTokens && capturedTokens.length > 0) {
-          capturedTokens.forEach((c) => {
-            const key = `${c.color}-${c.id}`;
-            if (seenCaptured.has(key)) return;
-            seenCaptured.add(key);
-            mergedCaptured.push(c);
-            if (!capturedToken) capturedToken = c;
-          });
-        }
-      }
+    return res.json(
+      formatSuccessResponse({
+        revision: state.revision,
+        diceValue: state.gameBoard.diceValue,
+        hints: evaluateMoves(toRulesState(room, state, orderedPlayers)),
+      })
+    );
+  } catch (error) {
+    console.error("Get move hint error:", error);
+    return res.status(500).json(formatErrorResponse("Failed to evaluate moves"));
+  }
+}
 
-      if (mergedCaptured.length > 0) {
-        const capturedByColor = new Map<PlayerColor, Set<number>>();
-        mergedCaptured.forEach((c) => {
-          if (!capturedByColor.has(c.color)) capturedByColor.set(c.color, new Set<number>());
-          capturedByColor.get(c.color)!.add(c.id);
-        });
-        capturedByColor.forEach((capturedIds, color) => {
-          workingTokens[color] = (workingTokens[color] || []).map((t: Token) =>
-            capturedIds.has(t.id) ? { ...t, position: -1, status: "base", steps: -1 } : t
-          );
-        });
-      }
+export async function updateRoomHints(req: Request, res: Response) {
+  try {
+    const { roomId } = req.params;
+    const userId = req.userId;
+    const { enabled } = req.body as { enabled?: unknown };
 
-      if (mergedCaptured.length > 0) {
-        const capturedVictims = Array.from(
-          new Map(
-            mergedCaptured
-              .map((c) => {
-                const victim = orderedPlayers.find((p) => p.color === c.color);
-                if (!victim?._id) return null;
-                return [
-                  victim._id.toString(),
-                  { playerId: victim._id.toString(), color: c.color },
-                ] as const;
-              })
-              .filter((entry): entry is readonly [string, { playerId: string; color: PlayerColor }] => !!entry)
-          ).values()
-        );
-        await reportCaptureOutcome(roomId, current._id.toString(), current.color, capturedVictims);
-      }
+    if (!userId) return res.status(401).json(formatErrorResponse("Unauthorized"));
+    if (!isValidObjectId(roomId)) return res.status(400).json(formatErrorResponse("Invalid roomId"));
+    if (typeof enabled !== "boolean") {
+      return res.status(400).json(formatErrorResponse("enabled must be a boolean"));
+    }
 
-      state.gameBoard.tokens = workingTokens;
+    const room = await Room().findById(roomId);
+    if (!room) return res.status(404).json(formatErrorResponse("Room not found"));
+    if (room.hostId.toString() !== userId.toString()) {
+      return res.status(403).json(formatErrorResponse("Only host can change hints"));
+    }
 
-      const hasWon = checkWinCondition(state.gameBoard.tokens, moveColor);
-      const moveOwner = orderedPlayers.find((p) => p.color === moveColor);
-      const moveOwnerId = moveOwner?._id?.toString();
-      if (hasWon && moveOwnerId && !state.gameBoard.winners.some((w) => String(w.playerId) === moveOwnerId)) {
-        state.gameBoard.winners.push({ playerId: moveOwnerId, rank: state.gameBoard.winners.length + 1 });
-        state.gameBoard.gameLog.push(`${moveOwner.displayName || "Player"} finished! Rank ${state.gameBoard.winners.length}`);
-      }
+    room.settings.hintsEnabled = enabled;
+    room.markModified("settings");
+    await room.save();
+    emitRoomUpdate(roomId, { type: "room:hints", hintsEnabled: enabled });
 
-      state.gameBoard.diceValue = null;
-      state.gameBoard.validMoves = [];
-      state.gameBoard.lastRollAt = null;
-
-      const earnedExtraTurn = diceValue === 6 || !!capturedToken || reachedHomeThisMove;
-      const gameCompleted = state.gameBoard.winners.length >= orderedPlayers.length;
-      const shouldGrantExtraTurn =
-        earnedExtraTurn && !(room.settings.mode !== "team" && hasWon);
-      if (gameCompleted) {
-        state.status = "completed";
-        state.gameBoard.gameLog.push("Game Over! All players finished.");
-      } else if (shouldGrantExtraTurn) {
-        state.gameBoard.gameLog.push(`${current.displayName || "Player"} earned an extra turn!`);
-      } else {
-        state.currentPlayerIndex = advanceGameTurn(
-          currentIndex,
-          orderedPlayers,
-          state.gameBoard as any,
-          room.settings.mode !== "team"
-        );
-        state.gameBoard.currentPlayerId = orderedPlayers[state.currentPlayerIndex]._id.toString();
-      }
+    return res.json(formatSuccessResponse({ hintsEnabled: enabled }, enabled ? "Hints enabled" : "Hints disabled"));
+  } catch (error) {
+    console.error("Update hints error:", error);
+    return res.status(500).json(formatErrorResponse("Failed to update hints"));
+  }
+}
 
-      await gameStateCache.markDirty(roomId, "move", gameCompleted);
-      const tokenPatch: Partial<Record<PlayerColor, Token[]>> = {
-        [moveColor]: workingTokens[moveColor],
-      };
-      if (mergedCaptured.length > 0) {
-        Array.from(new Set(mergedCaptured.map((c) => c.color))).forEach((color) => {
-          tokenPatch[color] = workingTokens[color];
-        });
-      }
+export async function updateRoomSpectators(req: Request, res: Response) {
+  try {
+    const { roomId } = req.params;
+    const userId = req.userId;
 
-      const actorRoomPlayerId = current._id.toString();
-      const rankBefore = computePlayerRankMap(orderedPlayers, beforeTokens, beforeWinners);
-      const rankAfter = computePlayerRankMap(
-        orderedPlayers,
-        workingTokens,
-        state.gameBoard.winners as Array<{ playerId: string; rank: number }>
-      );
-      const actorRankBefore = rankBefore.get(actorRoomPlayerId) || orderedPlayers.length;
-      const actorRankAfter = rankAfter.get(actorRoomPlayerId) || orderedPlayers.length;
-      const leaderBefore = Array.from(rankBefore.entries()).sort((a, b) => a[1] - b[1])[0]?.[0];
-
-      const tauntEvents: TauntEventInput[] = [];
-      if (releasedFromBase) {
-        tauntEvents.push({
-          trigger: "released_token",
-          actorRoomPlayerId,
-          actorUserId: current.userId.toString(),
-          metadata: {
-            actorWasLast: actorRankBefore >= orderedPlayers.length,
-          },
-        });
-      }
-      if (enteredSafeCell) {
-        tauntEvents.push({
-          trigger: "entered_safe",
-          actorRoomPlayerId,
-          actorUserId: current.userId.toString(),
-        });
-      }
-      if (actorRankBefore !== 1 && actorRankAfter === 1) {
-        tauntEvents.push({
-          trigger: "lead_change",
-          actorRoomPlayerId,
-          actorUserId: current.userId.toString(),
-        });
-      }
-      if (actorRankBefore >= orderedPlayers.length && actorRankAfter < actorRankBefore) {
-        tauntEvents.push({
-          trigger: "last_place",
-          actorRoomPlayerId,
-          actorUserId: current.userId.toString(),
-        });
-      }
-      if (hasWon || state.gameBoard.winners.length >= Math.max(1, orderedPlayers.length - 1)) {
-        tauntEvents.push({
-          trigger: "near_win",
-          actorRoomPlayerId,
-          actorUserId: current.userId.toString(),
-        });
-      }
+    if (!userId) return res.status(401).json(formatErrorResponse("Unauthorized"));
+    if (!isValidObjectId(roomId)) return res.status(400).json(formatErrorResponse("Invalid roomId"));
 
-      const capturedVictimRoomPlayerIds = Array.from(
-        new Set(
-          mergedCaptured
-            .map((c) => orderedPlayers.find((p) => p.color === c.color)?._id?.toString())
-            .filter((value): value is string => !!value)
-        )
-      );
-      for (const victimRoomPlayerId of capturedVictimRoomPlayerIds) {
-        const victim = orderedPlayers.find((p) => p._id.toString() === victimRoomPlayerId);
-        if (!victim) continue;
-        const revengeActive = await isRevengeKill(roomId, actorRoomPlayerId, victimRoomPlayerId);
-        tauntEvents.push({
-          trigger: revengeActive ? "revenge_kill" : "captured",
-          actorRoomPlayerId,
-          actorUserId: current.userId.toString(),
-          targetRoomPlayerId: victimRoomPlayerId,
-          targetUserId: victim.userId.toString(),
-          metadata: {
-            revengeActive,
-            actorWasLast: actorRankBefore >= orderedPlayers.length,
-            targetWasLeader: leaderBefore === victimRoomPlayerId,
-          },
-        });
-        tauntEvents.push({
-          trigger: "got_captured",
-          actorRoomPlayerId: victimRoomPlayerId,
-          actorUserId: victim.userId.toString(),
-          targetRoomPlayerId: actorRoomPlayerId,
-          targetUserId: current.userId.toString(),
-          metadata: {
-            byUser: current.userId.toString(),
-          },
-        });
-      }
+    const room = await Room().findById(roomId);
+    if (!room) return res.status(404).json(formatErrorResponse("Room not found"));
+    if (room.hostId.toString() !== userId.toString()) {
+      return res.status(403).json(formatErrorResponse("Only host can change spectator settings"));
+    }
+    const validated = validateSpectatorSettings(req.body, normalizeSpectatorSettings(room.settings?.spectators));
+    if ("error" in validated) {
+      return res.status(400).json(formatErrorResponse("Invalid spectators", validated.error));
+    }
 
-      return {
-        board: state.gameBoard,
-        actorRoomPlayerId,
-        actorUserId: current.userId.toString(),
-        capturedToken: capturedToken || null,
-        capturedTokens: mergedCaptured,
-        effectiveDice,
-        movingTokenIds,
-        earnedExtraTurn: shouldGrantExtraTurn,
-        gameCompleted,
-        tauntEvents,
-        tauntSnapshot: {
-          tokens: workingTokens,
-          winners: state.gameBoard.winners as Array<{ playerId: string; rank: number }>,
-        },
-        capturedVictimRoomPlayerIds,
-        patch: {
-          revision: state.revision,
-          status: state.status,
-          currentPlayerIndex: state.currentPlayerIndex,
-          gameBoard: {
-            tokens: tokenPatch,
-            currentPlayerId: state.gameBoard.currentPlayerId,
-            diceValue: state.gameBoard.diceValue,
-            validMoves: state.gameBoard.validMoves,
-            winners: state.gameBoard.winners,
-            lastRollAt: state.gameBoard.lastRollAt,
-          },
-        },
-      };
-    });
-    logPerf("makeMove.stateUpdate", tState);
-
-    const tEmit = perfNow();
-    emitRoomUpdate(room._id.toString(), {
-      type: "move",
-      color: moveColor,
-      tokenId,
-      diceValue,
-      patch: movePayload.patch,
-    });
-    await recordGameEvent({
-      roomId: room._id.toString(),
-      type: "move",
-      actorUserId: movePayload.actorUserId,
-      actorRoomPlayerId: movePayload.actorRoomPlayerId,
-      revision: movePayload.patch.revision,
-      payload: {
-        tokenId,
-        color: moveColor,
-        diceValue,
-        effectiveDice: movePayload.effectiveDice,
-        movingTokenIds: movePayload.movingTokenIds,
-        capturedToken: movePayload.capturedToken,
-        capturedTokens: movePayload.capturedTokens,
-        earnedExtraTurn: movePayload.earnedExtraTurn,
-        gameCompleted: movePayload.gameCompleted,
-      },
-    });
-    if (movePayload.capturedVictimRoomPlayerIds?.length) {
-      for (const victimRoomPlayerId of movePayload.capturedVictimRoomPlayerIds) {
-        await recordTauntCaptureMemory(room._id.toString(), movePayload.actorRoomPlayerId, victimRoomPlayerId);
-      }
+    room.settings.spectators = validated.settings;
+    room.markModified("settings");
+    await room.save();
+    setSpectatorSettings(roomId, validated.settings);
+    if (!validated.settings.allowed) closeSpectatorFeed(roomId);
+    emitRoomUpdate(roomId, { type: "room:spectators", spectators: validated.settings });
+
+    return res.json(formatSuccessResponse({ spectators: validated.settings }, "Spectator settings updated"));
+  } catch (error) {
+    console.error("Update spectators error:", error);
+    return res.status(500).json(formatErrorResponse("Failed to update spectator settings"));
+  }
+}
+
+/**
+ * Watch a room without taking a seat. Returns the board as the spectator
+ * feed currently shows it; the client then emits room:spectate to follow
+ * the feed.
+ */
+export async function spectateRoom(req: Request, res: Response) {
+  try {
+    const { roomId } = req.params;
+    const userId = req.userId;
+
+    if (!userId) return res.status(401).json(formatErrorResponse("Unauthorized"));
+    if (!isValidObjectId(roomId)) return res.status(400).json(formatErrorResponse("Invalid roomId"));
+
+    const room = await Room().findById(roomId).select("settings.spectators");
+    if (!room) return res.status(404).json(formatErrorResponse("Room not found"));
+    const settings = normalizeSpectatorSettings(room.settings?.spectators);
+    if (!settings.allowed) {
+      return res.status(403).json(formatErrorResponse("Spectators are not allowed in this room"));
     }
-    if (movePayload.tauntEvents?.length) {
-      await processTauntEvents({
-        room: toTauntRoomSnapshot(
-          room._id.toString(),
-          room,
-          orderedPlayers,
-          movePayload.tauntSnapshot.tokens,
-          movePayload.tauntSnapshot.winners
-        ),
-        roomTauntMode: (room.settings as any)?.tauntMode,
-        events: movePayload.tauntEvents,
-      });
+    if (await holdsSeat(roomId, userId.toString())) {
+      return res.status(409).json(formatErrorResponse("You have a seat in this room"));
     }
-    logPerf("makeMove.emit", tEmit);
-    logPerf("makeMove.total", t0, { tokenId, color: moveColor, diceValue });
-    return res.json(formatSuccessResponse(movePayload.board));
-  } catch (e) {
-    if (e instanceof Error) {
-      if (e.message === "NOT_YOUR_TURN") return res.status(403).json(formatErrorResponse("Not your turn"));
-      if (e.message === "WINNER_CANNOT_MOVE") return res.status(403).json(formatErrorResponse("Winner cannot move"));
-      if (e.message === "DICE_MISMATCH") return res.status(400).json(formatErrorResponse("Dice value mismatch"));
-      if (e.message === "INVALID_MOVE") return res.status(400).json(formatErrorResponse("Invalid move"));
-      if (e.message === "INVALID_TEAM_COLOR") return res.status(403).json(formatErrorResponse("You can only move your team colors"));
-      if (e.message === "TOKEN_NOT_FOUND") return res.status(404).json(formatErrorResponse("Token not found"));
-      if (e.message === "STATE_NOT_FOUND") return res.status(404).json(formatErrorResponse("Room state not found"));
+
+    const snapshot = await getSpectatorSnapshot(roomId, settings);
+    return res.json(
+      formatSuccessResponse({
+        roomId,
+        role: "spectator",
+        delaySeconds: settings.delaySeconds,
+        spectatorCount: await countSpectators(roomId),
+        snapshot,
+      })
+    );
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === "ROOM_NOT_FOUND") return res.status(404).json(formatErrorResponse("Room not found"));
+      if (error.message === "DELAYED_VIEW_NOT_AVAILABLE") {
+        return res.status(409).json(formatErrorResponse("This game cannot be watched with a delay"));
+      }
     }
-    console.error("Make move error:", e);
-    return res.status(500).json(formatErrorResponse("Make move failed"));
+    console.error("Spectate room error:", error);
+    return res.status(500).json(formatErrorResponse("Failed to spectate room"));
   }
 }
 
@@ -1383,8 +1166,14 @@ export async function joinRoom(req: Request, res: Response) {
         .filter((n: number) => n >= 0)
     );
 
+    // Seats held for rematch invitees stay free for them; an invitee gets theirs back.
+    const ownInvite = (room.rematchInvites || []).find(
+      (i: any) => i.status === "invited" && i.userId.toString() === userId.toString()
+    );
+    heldRematchPositions(room.rematchInvites, userId.toString()).forEach((position) => positionSet.add(position));
+
     const requestedColor = selectedColor && colors.includes(selectedColor) ? selectedColor : undefined;
-    const requestedPosition = requestedColor ? colors.indexOf(requestedColor) : -1;
+    const requestedPosition = ownInvite ? ownInvite.position : requestedColor ? colors.indexOf(requestedColor) : -1;
 
     const assignedPosition =
       requestedPosition >= 0 && !positionSet.has(requestedPosition)
@@ -1401,12 +1190,16 @@ export async function joinRoom(req: Request, res: Response) {
       userId,
       color: assignedColor,
       position: assignedPosition,
-      teamIndex: resolveTeamIndex(room.settings.mode, room.settings.maxPlayers, assignedPosition ?? -1),
+      teamIndex: resolveTeamIndex(room.settings, assignedPosition ?? -1),
       ready: false,
       status: "waiting",
     });
 
     room.players.push(rp._id);
+    if (ownInvite) {
+      ownInvite.status = "accepted";
+      room.markModified("rematchInvites");
+    }
     await room.save();
     invalidateRoomPlayers(room._id.toString());
     await syncRoomTeams(room._id.toString());
@@ -1428,6 +1221,152 @@ export async function joinRoom(req: Request, res: Response) {
   }
 }
 
+/* ============================================================
+   BOT SEATS
+============================================================ */
+export async function addBot(req: Request, res: Response) {
+  try {
+    const { roomId } = req.params;
+    const userId = req.userId;
+    if (!userId) return res.status(401).json(formatErrorResponse("Unauthorized"));
+    if (!isValidObjectId(roomId)) {
+      return res.status(400).json(formatErrorResponse("Invalid roomId"));
+    }
+    const { difficulty = "greedy", selectedColor } = req.body as {
+      difficulty?: BotDifficulty;
+      selectedColor?: PlayerColor;
+    };
+    if (!BOT_DIFFICULTIES.includes(difficulty)) {
+      return res
+        .status(400)
+        .json(formatErrorResponse(`difficulty must be one of ${BOT_DIFFICULTIES.join(", ")}`));
+    }
+
+    const room = await Room().findById(roomId);
+    if (!room) return res.status(404).json(formatErrorResponse("Room not found"));
+    if (room.hostId.toString() !== userId.toString()) {
+      return res.status(403).json(formatErrorResponse("Only host can add bots"));
+    }
+    if (room.status !== "waiting") {
+      return res.status(400).json(formatErrorResponse("Bots can only be added before the game starts"));
+    }
+
+    const players = await RoomPlayer().find({ roomId }).select("position color isBot");
+    if (players.length >= room.settings.maxPlayers) {
+      return res.status(400).json(formatErrorResponse("Room is full"));
+    }
+    const colors = getColorOrder(room.settings.maxPlayers);
+    const positionSet = new Set(
+      players
+        .map((p: any) => (typeof p.position === "number" ? p.position : colors.indexOf(p.color)))
+        .filter((n: number) => n >= 0)
+    );
+    // Seats held for rematch invitees are not the host's to fill.
+    heldRematchPositions(room.rematchInvites).forEach((position) => positionSet.add(position));
+    const requestedPosition = selectedColor && colors.includes(selectedColor) ? colors.indexOf(selectedColor) : -1;
+    const assignedPosition =
+      requestedPosition >= 0 && !positionSet.has(requestedPosition)
+        ? requestedPosition
+        : Array.from({ length: room.settings.maxPlayers }, (_, idx) => idx).find((idx) => !positionSet.has(idx));
+    if (typeof assignedPosition !== "number") {
+      return res.status(400).json(formatErrorResponse("No available colors"));
+    }
+
+    const botCount = players.filter((p: any) => p.isBot).length;
+    const rp = await RoomPlayer().create({
+      roomId: room._id,
+      userId: new Types.ObjectId(),
+      isBot: true,
+      botDifficulty: difficulty,
+      displayName: `Bot ${botCount + 1}`,
+      color: colors[assignedPosition],
+      position: assignedPosition,
+      teamIndex: resolveTeamIndex(room.settings, assignedPosition),
+      ready: true,
+      status: "waiting",
+    });
+
+    room.players.push(rp._id);
+    await room.save();
+    invalidateRoomPlayers(roomId);
+    await syncRoomTeams(roomId);
+    await recordGameEvent({
+      roomId,
+      type: "room:bot-added",
+      actorUserId: userId.toString(),
+      actorRoomPlayerId: rp._id.toString(),
+      payload: {
+        difficulty,
+        color: rp.color,
+        position: assignedPosition,
+      },
+    });
+    emitRoomUpdate(roomId, { type: "room:bot-added", roomPlayerId: rp._id.toString() });
+
+    return res.json(
+      formatSuccessResponse(
+        {
+          roomPlayerId: rp._id.toString(),
+          displayName: rp.displayName,
+          difficulty,
+          color: rp.color,
+          position: assignedPosition,
+        },
+        "Bot added"
+      )
+    );
+  } catch (error) {
+    console.error("Add bot error:", error);
+    return res.status(500).json(formatErrorResponse("Failed to add bot"));
+  }
+}
+
+export async function removeBot(req: Request, res: Response) {
+  try {
+    const { roomId, roomPlayerId } = req.params;
+    const userId = req.userId;
+    if (!userId) return res.status(401).json(formatErrorResponse("Unauthorized"));
+    if (!isValidObjectId(roomId)) {
+      return res.status(400).json(formatErrorResponse("Invalid roomId"));
+    }
+    if (!isValidObjectId(roomPlayerId)) {
+      return res.status(400).json(formatErrorResponse("Invalid roomPlayerId"));
+    }
+
+    const room = await Room().findById(roomId);
+    if (!room) return res.status(404).json(formatErrorResponse("Room not found"));
+    if (room.hostId.toString() !== userId.toString()) {
+      return res.status(403).json(formatErrorResponse("Only host can remove bots"));
+    }
+    if (room.status !== "waiting") {
+      return res.status(400).json(formatErrorResponse("Bots can only be removed before the game starts"));
+    }
+
+    const bot = await RoomPlayer().findOneAndDelete({ _id: roomPlayerId, roomId, isBot: true });
+    if (!bot) return res.status(404).json(formatErrorResponse("Bot not found"));
+
+    room.players.pull(bot._id);
+    await room.save();
+    invalidateRoomPlayers(roomId);
+    await syncRoomTeams(roomId);
+    await recordGameEvent({
+      roomId,
+      type: "room:bot-removed",
+      actorUserId: userId.toString(),
+      actorRoomPlayerId: bot._id.toString(),
+      payload: {
+        color: bot.color,
+      },
+    });
+    emitRoomUpdate(roomId, { type: "room:bot-removed", roomPlayerId: bot._id.toString() });
+
+    return res.json(formatSuccessResponse({}, "Bot removed"));
+  } catch (error) {
+    console.error("Remove bot error:", error);
+    return res.status(500).json(formatErrorResponse("Failed to remove bot"));
+  }
+}
+
 export async function togglePlayerReady(req: Request, res: Response) {
   try {
     const { roomId } = req.params;
@@ -1503,16 +1442,13 @@ export async function movePlayerSlot(req: Request, res: Response) {
 
     myPlayer.position = nextSlot;
     myPlayer.color = colors[nextSlot] || myPlayer.color;
-    myPlayer.teamIndex = resolveTeamIndex(room.settings.mode, room.settings.maxPlayers, nextSlot);
+    myPlayer.teamIndex = resolveTeamIndex(room.settings, nextSlot);
     if (targetPlayer) {
       targetPlayer.position = currentSlot >= 0 ? currentSlot : undefined;
       if (currentSlot >= 0 && colors[currentSlot]) {
         targetPlayer.color = colors[currentSlot];
       }
-      targetPlayer.teamIndex =
-        currentSlot >= 0
-          ? resolveTeamIndex(room.settings.mode, room.settings.maxPlayers, currentSlot)
-          : null;
+      targetPlayer.teamIndex = currentSlot >= 0 ? resolveTeamIndex(room.settings, currentSlot) : null;
       await targetPlayer.save();
     }
     await myPlayer.save();
@@ -1565,7 +1501,7 @@ export async function updateTeamNames(req: Request, res: Response) {
       return res.status(403).json(formatErrorResponse("Only host can update team names"));
     }
 
-    const expectedCount = room.settings.maxPlayers / 2;
+    const expectedCount = resolveTeamLayout(room.settings.maxPlayers, room.settings.teamLayout)?.teams.length ?? 0;
     const normalized = teamNames
       .map((name) => (typeof name === "string" ? name.trim().slice(0, 24) : ""))
       .slice(0, expectedCount);
@@ -113,7 +113,8 @@ export const processTauntEvents = async (params: {
     const suggestions = await selectSuggestions(params.room, event, now);
     if (!suggestions.length) continue;
 
-    if ((mode === "suggestion" || mode === "hybrid") && shouldSuggestForTrigger(event.trigger)) {
+    // Bots never read suggestions, so only humans get them.
+    if ((mode === "suggestion" || mode === "hybrid") && !actor.isBot && shouldSuggestForTrigger(event.trigger)) {
       emitTauntSuggestions({
         roomId: params.room.roomId,
         actorUserId: actor.userId,
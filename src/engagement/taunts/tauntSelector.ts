@@ -1,3 +1,4 @@
+import { GameConfig, getGameConfig } from "../../config/ludoConfigBackend";
 import { TAUNT_LINES } from "./tauntCatalog";
 import { mapEventToEmotions } from "./emotionMapper";
 import { TauntEventInput, TauntLine, TauntRoomSnapshot, TauntSuggestionItem } from "./types";
@@ -19,7 +20,8 @@ export const computePhase = (room: TauntRoomSnapshot): "early" | "mid" | "late"
     const tokens = room.board.tokens[p.color] || [];
     const out = tokens.filter((t) => t.status !== "base").length;
     const finished = tokens.filter((t) => t.status === "home" || t.status === "finished").length;
-    return out + finished;
+    // Thresholds below assume four tokens per player.
+    return tokens.length ? ((out + finished) / tokens.length) * 4 : 0;
   });
   const avgProgress = tokenStats.reduce((a, b) => a + b, 0) / Math.max(1, tokenStats.length);
   if (avgProgress < 1.6) return "early";
@@ -27,22 +29,28 @@ export const computePhase = (room: TauntRoomSnapshot): "early" | "mid" | "late"
   return "late";
 };
 
-const progressScoreForColor = (tokens: TauntRoomSnapshot["board"]["tokens"][keyof TauntRoomSnapshot["board"]["tokens"]] = []) => {
-  return (tokens || []).reduce((sum, token) => {
+const progressScoreForColor = (
+  tokens: TauntRoomSnapshot["board"]["tokens"][keyof TauntRoomSnapshot["board"]["tokens"]] = [],
+  config: GameConfig
+) => {
+  if (!tokens || !tokens.length) return 0;
+  const total = tokens.reduce((sum, token) => {
     if (token.status === "base") return sum;
-    if (token.status === "home" || token.status === "finished") return sum + 66;
+    if (token.status === "home" || token.status === "finished") return sum + config.FINISH_STEPS + 10;
     return sum + Math.max(0, Number(token.steps || 0));
   }, 0);
+  return (total / tokens.length) * 4;
 };
 
 export const computeRanking = (room: TauntRoomSnapshot): RankedPlayer[] => {
+  const config = getGameConfig(room.maxPlayers);
   const winnerMap = new Map<string, number>();
   room.board.winners.forEach((entry) => winnerMap.set(String(entry.playerId), Number(entry.rank)));
 
   const ranked = room.players.map((p) => ({
     roomPlayerId: p.roomPlayerId,
     userId: p.userId,
-    score: progressScoreForColor(room.board.tokens[p.color] || []),
+    score: progressScoreForColor(room.board.tokens[p.color] || [], config),
     rank: winnerMap.get(p.roomPlayerId) || 999,
   }));
 
@@ -54,8 +62,10 @@ export const computeRanking = (room: TauntRoomSnapshot): RankedPlayer[] => {
     .filter((p) => p.rank !== 999)
     .sort((a, b) => a.rank - b.rank);
 
-  let nextRank = winners.length + 1;
+  const taken = new Set(winners.map((p) => p.rank));
+  let nextRank = 1;
   nonWinners.forEach((p) => {
+    while (taken.has(nextRank)) nextRank += 1;
     p.rank = nextRank;
     nextRank += 1;
   });
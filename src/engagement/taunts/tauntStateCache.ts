@@ -81,6 +81,12 @@ export class TauntStateCache {
     await this.redis.setJson(key, snapshot, TAUNT_TTL_SECONDS);
   }
 
+  async evictRoom(roomId: string): Promise<void> {
+    const key = this.key(roomId);
+    this.memory.delete(key);
+    await this.redis.delete(key);
+  }
+
   getPlayerState(state: RoomTauntState, roomPlayerId: string): PlayerTauntState {
     if (!state.players[roomPlayerId]) {
       state.players[roomPlayerId] = defaultPlayerState();
@@ -41,6 +41,7 @@ export interface TauntPlayerSnapshot {
   userId: string;
   displayName: string;
   color: PlayerColor;
+  isBot?: boolean;
 }
 
 export interface TauntRoomSnapshot {
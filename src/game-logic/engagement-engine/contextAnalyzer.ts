@@ -1,6 +1,7 @@
-import { GameConfig, PlayerColor, SAFE_INDICES, Token } from "../../config/ludoConfigBackend";
+import { GameConfig, PlayerColor, Token } from "../../config/ludoConfigBackend";
 import { applyMove, findValidMoves } from "../../services/ludoGameLogicBackend";
 import { RuntimeRoomState } from "../../state/gameStateCache";
+import { DEFAULT_HOUSE_RULES, HouseRules } from "../rules-engine/houseRules";
 
 export type DiceContext = {
   playableFaces: Set<number>;
@@ -17,26 +18,26 @@ export type DiceContext = {
 };
 
 const sumSteps = (tokens: Token[]) => tokens.reduce((acc, t) => acc + Math.max(-1, t.steps), 0);
-const TRACK_LENGTH = 52;
-
-const isTrackToken = (token: Token) =>
+const isTrackToken = (token: Token, trackLength: number) =>
   (token.status === "active" || token.status === "safe") &&
   typeof token.position === "number" &&
   token.position >= 0 &&
-  token.position < TRACK_LENGTH;
+  token.position < trackLength;
 
-const forwardDistance = (from: number, to: number) => (to - from + TRACK_LENGTH) % TRACK_LENGTH;
+const forwardDistance = (from: number, to: number, trackLength: number) =>
+  (to - from + trackLength) % trackLength;
 
 const isThreatenedByEnemy = (
   position: number,
   allTokens: Record<PlayerColor, Token[]>,
-  alliedSet: Set<PlayerColor>
+  alliedSet: Set<PlayerColor>,
+  trackLength: number
 ) => {
   for (const colorKey of Object.keys(allTokens) as PlayerColor[]) {
     if (alliedSet.has(colorKey)) continue;
     for (const token of allTokens[colorKey] || []) {
-      if (!isTrackToken(token)) continue;
-      const dist = forwardDistance(token.position, position);
+      if (!isTrackToken(token, trackLength)) continue;
+      const dist = forwardDistance(token.position, position, trackLength);
       if (dist >= 1 && dist <= 6) return true;
     }
   }
@@ -64,12 +65,15 @@ export const analyzeDiceContext = (
   playerColor: PlayerColor,
   gameConfig: GameConfig,
   controllableColors?: PlayerColor[],
-  revengeTargetColors?: PlayerColor[]
+  revengeTargetColors?: PlayerColor[],
+  rules: HouseRules = DEFAULT_HOUSE_RULES,
+  homeLockedColors: PlayerColor[] = []
 ): DiceContext => {
   const controlledColors = Array.from(
     new Set((controllableColors && controllableColors.length ? controllableColors : [playerColor]))
   );
   const controlledSet = new Set(controlledColors);
+  const trackLength = gameConfig.TRACK_LENGTH;
   const playableFaces = new Set<number>();
   const killFaces = new Set<number>();
   const revengeTargetKillFaces = new Set<number>();
@@ -85,7 +89,15 @@ export const analyzeDiceContext = (
   const allInBase = totalControlledTokens > 0 && baseTokenCount === totalControlledTokens;
 
   for (let face = 1; face <= 6; face++) {
-    const validMoves = findValidMoves(allTokens, playerColor, face, gameConfig, controlledColors);
+    const validMoves = findValidMoves(
+      allTokens,
+      playerColor,
+      face,
+      gameConfig,
+      controlledColors,
+      rules,
+      homeLockedColors
+    );
     if (!validMoves.length) continue;
 
     playableFaces.add(face);
@@ -101,7 +113,9 @@ export const analyzeDiceContext = (
         gameConfig,
         allTokens,
         true,
-        controlledColors
+        controlledColors,
+        rules,
+        homeLockedColors
       );
 
       if (capturedToken) {
@@ -115,22 +129,23 @@ export const analyzeDiceContext = (
         }
       }
 
-      const tokenWasThreatened = isTrackToken(token)
-        ? isThreatenedByEnemy(token.position, allTokens, controlledSet)
+      const tokenWasThreatened = isTrackToken(token, trackLength)
+        ? isThreatenedByEnemy(token.position, allTokens, controlledSet, trackLength)
         : false;
       const tokenIsNowSafe =
         updatedToken.status === "home" ||
-        (isTrackToken(updatedToken) && !isThreatenedByEnemy(updatedToken.position, allTokens, controlledSet));
+        (isTrackToken(updatedToken, trackLength) &&
+          !isThreatenedByEnemy(updatedToken.position, allTokens, controlledSet, trackLength));
       if (tokenWasThreatened && tokenIsNowSafe) {
         escapeFaces.add(face);
       }
 
-      if (isTrackToken(updatedToken)) {
+      if (isTrackToken(updatedToken, trackLength)) {
         for (const enemyColor of leaderEnemyColors) {
           for (const enemyToken of allTokens[enemyColor] || []) {
-            if (!isTrackToken(enemyToken)) continue;
-            if (SAFE_INDICES.includes(enemyToken.position)) continue;
-            const dist = forwardDistance(updatedToken.position, enemyToken.position);
+            if (!isTrackToken(enemyToken, trackLength)) continue;
+            if (rules.safeSquaresProtect && gameConfig.SAFE_INDICES.includes(enemyToken.position)) continue;
+            const dist = forwardDistance(updatedToken.position, enemyToken.position, trackLength);
             if (dist >= 1 && dist <= 6) {
               leaderPressureFaces.add(face);
               break;
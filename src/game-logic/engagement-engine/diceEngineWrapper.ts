@@ -1,5 +1,6 @@
 import crypto from "crypto";
 import { GameConfig, PlayerColor } from "../../config/ludoConfigBackend";
+import { DEFAULT_HOUSE_RULES, HouseRules } from "../rules-engine/houseRules";
 import { RuntimeRoomState } from "../../state/gameStateCache";
 import { analyzeDiceContext, DiceContext } from "./contextAnalyzer";
 import { getMomentumSnapshot, MomentumSnapshot } from "./momentumTracker";
@@ -17,6 +18,8 @@ export type DiceEngineInput = {
   state: RuntimeRoomState;
   gameConfig: GameConfig;
   tuningProfile?: string;
+  rules?: HouseRules;
+  homeLockedColors?: PlayerColor[];
 };
 
 export type DiceEngineDebug = {
@@ -103,7 +106,7 @@ const applyPerceptionMasking = (probs: number[], momentum: MomentumSnapshot): nu
 export const generateEngagementDice = async (
   input: DiceEngineInput
 ): Promise<{ rolled: number; debug: DiceEngineDebug }> => {
-  const { roomId, playerId, playerColor, controllableColors, state, gameConfig, tuningProfile } = input;
+  const { roomId, playerId, playerColor, controllableColors, state, gameConfig, tuningProfile, rules, homeLockedColors } = input;
   purgeGeneratedMeta();
   const profileName = tuningProfile || DEFAULT_ENGAGEMENT_PROFILE;
   const tuning = resolveEngagementTuning(profileName);
@@ -114,7 +117,9 @@ export const generateEngagementDice = async (
     playerColor,
     gameConfig,
     controllableColors,
-    momentum.revengeTargetColors
+    momentum.revengeTargetColors,
+    rules,
+    homeLockedColors
   );
   const controlled = controllableColors && controllableColors.length ? controllableColors : [playerColor];
   const rank = calculateRankContext(state, gameConfig, controlled);
@@ -132,7 +137,11 @@ export const generateEngagementDice = async (
       : dynamicBaseBudget;
   const canForceByBudget = forceState.forcedCount < budgetLimit;
   const emergencyBaseLock = context.allInBase && momentum.turnsAllTokensInBase >= 2;
-  const allowForce = canForceByGap && (canForceByBudget || emergencyBaseLock);
+  // Never force a six that would trigger the three-sixes penalty.
+  const sixPenaltyArmed =
+    (rules?.threeSixesPenalty ?? DEFAULT_HOUSE_RULES.threeSixesPenalty) !== "off" &&
+    Number(state.gameBoard.consecutiveSixes?.[playerId] || 0) >= 2;
+  const allowForce = canForceByGap && (canForceByBudget || emergencyBaseLock) && !sixPenaltyArmed;
   const story = await updateStoryOnRoll({
     roomId,
     roomPlayerId: playerId,
@@ -1,5 +1,6 @@
 import crypto from "crypto";
 import { GameConfig, PlayerColor } from "../../config/ludoConfigBackend";
+import { HouseRules } from "../rules-engine/houseRules";
 import { RuntimeRoomState } from "../../state/gameStateCache";
 import { generateEngagementDice } from "./diceEngineWrapper";
 
@@ -11,6 +12,8 @@ export type DiceGenerationInput = {
   state: RuntimeRoomState;
   gameConfig: GameConfig;
   tuningProfile?: string;
+  rules?: HouseRules;
+  homeLockedColors?: PlayerColor[];
   debug?: boolean;
 };
 
@@ -166,6 +166,17 @@ export class EngagementStateCache {
     await this.redis.setJson(key, snapshot, MOMENTUM_TTL_SECONDS);
   }
 
+  /** Drop a finished room's state, memory and Redis, for the given players. */
+  async evictRoom(roomId: string, playerIds: string[]): Promise<void> {
+    for (const key of Array.from(this.memory.keys())) {
+      if (this.parseKey(key)?.roomId === roomId) this.memory.delete(key);
+    }
+    this.roomForceMemory.delete(this.roomForceKey(roomId));
+    this.roomDirectorMemory.delete(this.roomDirectorKey(roomId));
+    const keys = [this.roomForceKey(roomId), this.roomDirectorKey(roomId), ...playerIds.map((id) => this.key(roomId, id))];
+    for (const key of keys) await this.redis.delete(key);
+  }
+
   async getDiagnostics(roomId: string, playerIds: string[]): Promise<Record<string, unknown>> {
     const requestedIds = Array.from(new Set(playerIds.filter(Boolean)));
     const diagnostics: Array<Record<string, unknown>> = [];
@@ -1,4 +1,5 @@
 import { GameConfig, PlayerColor } from "../../config/ludoConfigBackend";
+import { HouseRules } from "../rules-engine/houseRules";
 import { RuntimeRoomState } from "../../state/gameStateCache";
 import { generateStrategicDice, pureRandomDice } from "./diceStrategy";
 import { consumeGeneratedRollMeta } from "./diceEngineWrapper";
@@ -18,6 +19,8 @@ type GenerateInput = {
   state: RuntimeRoomState;
   gameConfig: GameConfig;
   tuningProfile?: string;
+  rules?: HouseRules;
+  homeLockedColors?: PlayerColor[];
 };
 
 export const generateDiceValue = async (input: GenerateInput): Promise<number> => {
@@ -17,27 +17,36 @@ export type RankContext = {
   behindPlayerCount: number;
 };
 
-const tokenProgressScore = (token: Token): number => {
-  if (token.status === "home") return 95;
+const tokenProgressScore = (token: Token, gameConfig: GameConfig): number => {
+  if (token.status === "home") return gameConfig.FINISH_STEPS + 39;
   const outOfBase = token.status === "base" ? 0 : 1;
-  const finalStretch = token.position >= 52 ? 1 : 0;
+  const finalStretch = token.position >= gameConfig.TRACK_LENGTH ? 1 : 0;
   const steps = Math.max(0, token.steps);
   return outOfBase * 30 + finalStretch * 14 + steps;
 };
 
-const remainingCells = (token: Token): number => {
+const remainingCells = (token: Token, gameConfig: GameConfig): number => {
   if (token.status === "home") return 0;
-  return Math.max(0, 57 - Math.max(0, token.steps));
+  return Math.max(0, gameConfig.FINISH_STEPS + 1 - Math.max(0, token.steps));
 };
 
-const scoreGroup = (tokensByColor: Record<PlayerColor, Token[]>, colors: PlayerColor[]) =>
+// Each color is scaled to four tokens so quick rooms keep the tuning thresholds meaningful.
+const scoreGroup = (tokensByColor: Record<PlayerColor, Token[]>, colors: PlayerColor[], gameConfig: GameConfig) =>
   colors.reduce((acc, color) => {
     const tokens = tokensByColor[color] || [];
-    return acc + tokens.reduce((sum, token) => sum + tokenProgressScore(token), 0);
+    if (!tokens.length) return acc;
+    const total = tokens.reduce((sum, token) => sum + tokenProgressScore(token, gameConfig), 0);
+    return acc + (total / tokens.length) * 4;
   }, 0);
 
-const remainingGroup = (tokensByColor: Record<PlayerColor, Token[]>, colors: PlayerColor[]) => {
-  const values = colors.flatMap((color) => (tokensByColor[color] || []).map(remainingCells));
+const remainingGroup = (
+  tokensByColor: Record<PlayerColor, Token[]>,
+  colors: PlayerColor[],
+  gameConfig: GameConfig
+) => {
+  const values = colors.flatMap((color) =>
+    (tokensByColor[color] || []).map((token) => remainingCells(token, gameConfig))
+  );
   if (!values.length) return 0;
   return Math.min(...values);
 };
@@ -99,8 +108,8 @@ export const calculateRankContext = (
     groups.find((group) => group.every((color) => currentSet.has(color)) && group.length === currentSet.size) ||
     [controllableColors[0]];
 
-  const scores = groups.map((group) => scoreGroup(tokensByColor, group));
-  const currentScore = scoreGroup(tokensByColor, currentGroup);
+  const scores = groups.map((group) => scoreGroup(tokensByColor, group, gameConfig));
+  const currentScore = scoreGroup(tokensByColor, currentGroup, gameConfig);
   const maxScore = Math.max(...scores);
   const minScore = Math.min(...scores);
   const behindPlayerCount = scores.filter((score) => score < maxScore).length;
@@ -111,9 +120,9 @@ export const calculateRankContext = (
 
   const nearWinThreshold = DEFAULT_ENGAGEMENT_TUNING.endgame.nearWinCells;
   const anyPlayerNearWin = groups.some(
-    (group) => remainingGroup(tokensByColor, group) <= nearWinThreshold
+    (group) => remainingGroup(tokensByColor, group, gameConfig) <= nearWinThreshold
   );
-  const selfRemaining = remainingGroup(tokensByColor, currentGroup);
+  const selfRemaining = remainingGroup(tokensByColor, currentGroup, gameConfig);
   const selfNearWin = selfRemaining <= nearWinThreshold;
 
   const totalTokens = activeColors.reduce((acc, color) => acc + (tokensByColor[color] || []).length, 0);
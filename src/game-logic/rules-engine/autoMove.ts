@@ -0,0 +1,39 @@
+import { applyAction, getCurrentPlayer } from "./rulesEngine";
+import { RulesState, TokenRef } from "./types";
+
+/**
+ * Move picked on a player's behalf when their move phase times out:
+ * capture first, then reaching home, then releasing a token, otherwise
+ * the token that is furthest along.
+ */
+export function chooseAutoMove(state: RulesState): TokenRef | null {
+  const current = getCurrentPlayer(state);
+  if (!current || state.diceValue === null || state.validMoves.length === 0) return null;
+
+  let best: TokenRef | null = null;
+  let bestScore = Number.NEGATIVE_INFINITY;
+  for (const move of state.validMoves) {
+    let events;
+    try {
+      ({ events } = applyAction(state, {
+        type: "move",
+        playerId: current.id,
+        tokenId: move.id,
+        color: move.color,
+        diceValue: state.diceValue,
+      }));
+    } catch {
+      continue;
+    }
+    const token = (state.tokens[move.color] || []).find((t) => t.id === move.id);
+    let score = Math.max(0, token?.steps ?? 0);
+    if (events.some((e) => e.type === "token:captured")) score += 1000;
+    if (events.some((e) => e.type === "token:home")) score += 500;
+    if (events.some((e) => e.type === "token:released")) score += 250;
+    if (score > bestScore) {
+      best = { id: move.id, color: move.color };
+      bestScore = score;
+    }
+  }
+  return best;
+}
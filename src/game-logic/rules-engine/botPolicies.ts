@@ -0,0 +1,139 @@
+import { GameConfig, PlayerColor, Token, getGameConfig } from "../../config/ludoConfigBackend";
+import { dangerAt, evaluateMoves } from "./moveEvaluator";
+import { applyAction, getControllableColors, getCurrentPlayer } from "./rulesEngine";
+import { RulesState, TokenRef } from "./types";
+
+export type BotDifficulty = "random" | "greedy" | "lookahead";
+
+export const BOT_DIFFICULTIES: BotDifficulty[] = ["random", "greedy", "lookahead"];
+
+type Candidate = { move: TokenRef; nextState: RulesState };
+
+const onTrack = (token: Token, config: GameConfig) =>
+  token.position >= 0 &&
+  token.position < config.TRACK_LENGTH &&
+  (token.status === "active" || token.status === "safe");
+
+const opponentColors = (state: RulesState, color: PlayerColor): PlayerColor[] => {
+  const own = getControllableColors(state.mode, state.maxPlayers, color, state.teamLayout);
+  return state.players.map((p) => p.color).filter((c) => !own.includes(c));
+};
+
+/**
+ * Own track tokens that some opponent token could land on with a single
+ * dice roll. Tokens on protected safe cells are never at risk.
+ */
+const countThreatened = (state: RulesState, color: PlayerColor, config: GameConfig): number =>
+  getControllableColors(state.mode, state.maxPlayers, color, state.teamLayout)
+    .flatMap((c) => state.tokens[c] || [])
+    .filter((token) => onTrack(token, config) && dangerAt(state, color, token.position, config) > 0).length;
+
+const progressOf = (state: RulesState, colors: PlayerColor[], config: GameConfig): number =>
+  colors
+    .flatMap((c) => state.tokens[c] || [])
+    .reduce((sum, t) => {
+      if (t.status === "base") return sum;
+      if (t.status === "home" || t.status === "finished") return sum + config.FINISH_STEPS + 20;
+      return sum + 10 + Math.max(0, t.steps);
+    }, 0);
+
+/**
+ * Static evaluation of a board from one player's side: own progress,
+ * minus what the opponents have made, minus tokens left hanging.
+ */
+const evaluate = (state: RulesState, color: PlayerColor, config: GameConfig): number => {
+  const own = getControllableColors(state.mode, state.maxPlayers, color, state.teamLayout);
+  const opponents = opponentColors(state, color);
+  const opponentProgress = opponents.length ? progressOf(state, opponents, config) / opponents.length : 0;
+  return progressOf(state, own, config) - opponentProgress - countThreatened(state, color, config) * 25;
+};
+
+const listCandidates = (state: RulesState): Candidate[] => {
+  const current = getCurrentPlayer(state);
+  if (!current || state.diceValue === null) return [];
+  const candidates: Candidate[] = [];
+  for (const move of state.validMoves) {
+    try {
+      const { nextState } = applyAction(state, {
+        type: "move",
+        playerId: current.id,
+        tokenId: move.id,
+        color: move.color,
+        diceValue: state.diceValue,
+      });
+      candidates.push({ move, nextState });
+    } catch {
+      continue;
+    }
+  }
+  return candidates;
+};
+
+const pickBest = (scored: Array<{ move: TokenRef; score: number }>): TokenRef | null => {
+  let best: { move: TokenRef; score: number } | null = null;
+  for (const entry of scored) {
+    if (!best || entry.score > best.score) best = entry;
+  }
+  return best?.move ?? null;
+};
+
+// The move evaluator already weighs captures, safety and progress.
+const chooseGreedy = (state: RulesState): TokenRef | null => evaluateMoves(state)[0]?.token ?? null;
+
+/**
+ * Board after whoever moves next plays one greedy turn, averaged over the
+ * six faces. An extra turn for the bot itself is scored as-is.
+ */
+const expectedAfterReply = (state: RulesState, color: PlayerColor, config: GameConfig): number => {
+  const next = getCurrentPlayer(state);
+  if (state.status !== "in_progress" || !next || next.color === color) {
+    return evaluate(state, color, config) + (next?.color === color ? 40 : 0);
+  }
+  let total = 0;
+  for (let dice = 1; dice <= 6; dice += 1) {
+    let after = state;
+    try {
+      after = applyAction(state, { type: "roll", playerId: next.id, dice }).nextState;
+      const reply = after.diceValue !== null ? chooseGreedy(after) : null;
+      if (reply) {
+        after = applyAction(after, {
+          type: "move",
+          playerId: next.id,
+          tokenId: reply.id,
+          color: reply.color,
+          diceValue: dice,
+        }).nextState;
+      }
+    } catch {
+      after = state;
+    }
+    total += evaluate(after, color, config);
+  }
+  return total / 6;
+};
+
+/**
+ * Pick a move for a bot seat. `random` plays any legal move, `greedy`
+ * prefers captures and safety, `lookahead` also weighs the next
+ * player's best reply.
+ */
+export function chooseBotMove(state: RulesState, difficulty: BotDifficulty): TokenRef | null {
+  const current = getCurrentPlayer(state);
+  if (!current || state.diceValue === null || state.validMoves.length === 0) return null;
+  const config = getGameConfig(state.maxPlayers);
+
+  if (difficulty === "random") {
+    return state.validMoves[Math.floor(Math.random() * state.validMoves.length)] ?? null;
+  }
+  if (difficulty === "greedy") return chooseGreedy(state);
+
+  const immediate = new Map(evaluateMoves(state).map((e) => [`${e.token.color}:${e.token.id}`, e.score]));
+  return pickBest(
+    listCandidates(state).map((c) => ({
+      move: c.move,
+      score:
+        expectedAfterReply(c.nextState, current.color, config) +
+        (immediate.get(`${c.move.color}:${c.move.id}`) ?? 0),
+    }))
+  );
+}
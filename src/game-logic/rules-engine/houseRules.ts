@@ -0,0 +1,111 @@
+export type ExtraTurnTrigger = "six" | "capture" | "home";
+export type ThreeSixesPenalty = "off" | "end_turn" | "rollback";
+
+export interface HouseRules {
+  releaseFaces: number[]; // Dice faces that release a token from base
+  extraTurnOn: Record<ExtraTurnTrigger, boolean>;
+  blockadesInIndividual: boolean; // Team mode always enforces blockades
+  safeSquaresProtect: boolean; // When false, tokens on safe cells can be captured
+  threeSixesPenalty: ThreeSixesPenalty; // What a third consecutive six does to the turn
+  captureToEnterHome: boolean; // Home run stays closed until the player has captured a token
+  tokensPerPlayer: number; // 1-4, fewer tokens make a quick game
+  startTokenReleased: boolean; // One token starts on the start cell instead of in base
+}
+
+export const DEFAULT_HOUSE_RULES: HouseRules = {
+  releaseFaces: [6],
+  extraTurnOn: { six: true, capture: true, home: true },
+  blockadesInIndividual: false,
+  safeSquaresProtect: true,
+  threeSixesPenalty: "rollback",
+  captureToEnterHome: false,
+  tokensPerPlayer: 4,
+  startTokenReleased: false,
+};
+
+export const MAX_TOKENS_PER_PLAYER = 4;
+
+const EXTRA_TURN_TRIGGERS: ExtraTurnTrigger[] = ["six", "capture", "home"];
+const THREE_SIXES_PENALTIES: ThreeSixesPenalty[] = ["off", "end_turn", "rollback"];
+
+const isDiceFace = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= 1 && value <= 6;
+
+const isTokenCount = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= 1 && value <= MAX_TOKENS_PER_PLAYER;
+
+/**
+ * Fill missing fields from the defaults. Used for rooms persisted before
+ * house rules existed, so it never rejects.
+ */
+export const normalizeHouseRules = (raw: any): HouseRules => {
+  const releaseFaces: number[] = Array.isArray(raw?.releaseFaces)
+    ? Array.from(new Set<number>(raw.releaseFaces.filter(isDiceFace))).sort((a, b) => a - b)
+    : [];
+  return {
+    releaseFaces: releaseFaces.length ? releaseFaces : [...DEFAULT_HOUSE_RULES.releaseFaces],
+    extraTurnOn: EXTRA_TURN_TRIGGERS.reduce((acc, trigger) => {
+      const value = raw?.extraTurnOn?.[trigger];
+      acc[trigger] = typeof value === "boolean" ? value : DEFAULT_HOUSE_RULES.extraTurnOn[trigger];
+      return acc;
+    }, {} as Record<ExtraTurnTrigger, boolean>),
+    blockadesInIndividual:
+      typeof raw?.blockadesInIndividual === "boolean"
+        ? raw.blockadesInIndividual
+        : DEFAULT_HOUSE_RULES.blockadesInIndividual,
+    safeSquaresProtect:
+      typeof raw?.safeSquaresProtect === "boolean" ? raw.safeSquaresProtect : DEFAULT_HOUSE_RULES.safeSquaresProtect,
+    threeSixesPenalty: THREE_SIXES_PENALTIES.includes(raw?.threeSixesPenalty)
+      ? raw.threeSixesPenalty
+      : DEFAULT_HOUSE_RULES.threeSixesPenalty,
+    captureToEnterHome:
+      typeof raw?.captureToEnterHome === "boolean" ? raw.captureToEnterHome : DEFAULT_HOUSE_RULES.captureToEnterHome,
+    tokensPerPlayer: isTokenCount(raw?.tokensPerPlayer) ? raw.tokensPerPlayer : DEFAULT_HOUSE_RULES.tokensPerPlayer,
+    startTokenReleased:
+      typeof raw?.startTokenReleased === "boolean" ? raw.startTokenReleased : DEFAULT_HOUSE_RULES.startTokenReleased,
+  };
+};
+
+/**
+ * Strict validation for host input. Returns an error message instead of
+ * silently dropping bad values.
+ */
+export const validateHouseRules = (raw: unknown): { rules: HouseRules } | { error: string } => {
+  if (raw === undefined || raw === null) return { rules: normalizeHouseRules({}) };
+  if (typeof raw !== "object" || Array.isArray(raw)) return { error: "rules must be an object" };
+  const input = raw as Record<string, any>;
+
+  if (input.releaseFaces !== undefined) {
+    if (
+      !Array.isArray(input.releaseFaces) ||
+      input.releaseFaces.length === 0 ||
+      !input.releaseFaces.every(isDiceFace)
+    ) {
+      return { error: "rules.releaseFaces must be a non-empty list of dice faces (1-6)" };
+    }
+  }
+  if (input.extraTurnOn !== undefined) {
+    if (typeof input.extraTurnOn !== "object" || input.extraTurnOn === null || Array.isArray(input.extraTurnOn)) {
+      return { error: "rules.extraTurnOn must be an object" };
+    }
+    for (const [key, value] of Object.entries(input.extraTurnOn)) {
+      if (!EXTRA_TURN_TRIGGERS.includes(key as ExtraTurnTrigger)) {
+        return { error: `Unknown extra turn trigger: ${key}` };
+      }
+      if (typeof value !== "boolean") return { error: `rules.extraTurnOn.${key} must be a boolean` };
+    }
+  }
+  for (const key of ["blockadesInIndividual", "safeSquaresProtect", "captureToEnterHome", "startTokenReleased"]) {
+    if (input[key] !== undefined && typeof input[key] !== "boolean") {
+      return { error: `rules.${key} must be a boolean` };
+    }
+  }
+  if (input.tokensPerPlayer !== undefined && !isTokenCount(input.tokensPerPlayer)) {
+    return { error: `rules.tokensPerPlayer must be an integer between 1 and ${MAX_TOKENS_PER_PLAYER}` };
+  }
+  if (input.threeSixesPenalty !== undefined && !THREE_SIXES_PENALTIES.includes(input.threeSixesPenalty)) {
+    return { error: `rules.threeSixesPenalty must be one of ${THREE_SIXES_PENALTIES.join(", ")}` };
+  }
+
+  return { rules: normalizeHouseRules(input) };
+};
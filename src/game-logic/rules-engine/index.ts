@@ -0,0 +1,22 @@
+export * from "./types";
+export * from "./houseRules";
+export * from "./teamLayouts";
+export {
+  applyAction,
+  assertCanRoll,
+  firstOpenRank,
+  getControllableColors,
+  getCurrentPlayer,
+  getForcedStack,
+  getHomeLockedColors,
+  getHomeUnlocked,
+  isHomeUnlocked,
+  isResigned,
+  isWinner,
+  lastOpenRank,
+  nextTurnIndex,
+} from "./rulesEngine";
+export { REPLAY_STEP_TYPES, ReplayEvent, rebuildBoard, replayStep } from "./replay";
+export { chooseAutoMove } from "./autoMove";
+export { BOT_DIFFICULTIES, BotDifficulty, chooseBotMove } from "./botPolicies";
+export { MoveEvaluation, MoveFactors, evaluateMoves } from "./moveEvaluator";
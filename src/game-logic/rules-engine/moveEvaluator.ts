@@ -0,0 +1,118 @@
+import { GameConfig, PlayerColor, Token, getGameConfig } from "../../config/ludoConfigBackend";
+import { applyAction, getControllableColors, getCurrentPlayer } from "./rulesEngine";
+import { RulesState, TokenRef } from "./types";
+
+export interface MoveFactors {
+  captures: number; // Opponent tokens sent back to base
+  dangerBefore: number; // Opponent tokens up to six cells behind the token before the move
+  dangerAfter: number; // Same, where the token lands
+  safeLanding: boolean;
+  homeRunProgress: number; // Steps taken inside the home run
+  reachesHome: boolean;
+  releases: boolean;
+  formsBlockade: boolean;
+}
+
+export interface MoveEvaluation {
+  token: TokenRef;
+  score: number;
+  factors: MoveFactors;
+}
+
+const WEIGHTS = {
+  capture: 100,
+  danger: 30,
+  safeLanding: 20,
+  homeRunStep: 4,
+  reachesHome: 60,
+  release: 35,
+  blockade: 15,
+  progressStep: 0.5,
+};
+
+const onTrack = (token: Token, config: GameConfig) =>
+  token.position >= 0 &&
+  token.position < config.TRACK_LENGTH &&
+  (token.status === "active" || token.status === "safe");
+
+/**
+ * Opponent tokens that could land on `position` with one roll. Protected
+ * safe cells are never in danger.
+ */
+export function dangerAt(state: RulesState, color: PlayerColor, position: number, config: GameConfig): number {
+  if (position < 0 || position >= config.TRACK_LENGTH) return 0;
+  if (state.rules.safeSquaresProtect && config.SAFE_INDICES.includes(position)) return 0;
+  const own = getControllableColors(state.mode, state.maxPlayers, color, state.teamLayout);
+  const homeRun = config.HOME_POSITION - config.TRACK_LENGTH;
+  return state.players
+    .map((p) => p.color)
+    .filter((c) => !own.includes(c))
+    .flatMap((c) => state.tokens[c] || [])
+    .filter((h) => {
+      if (!onTrack(h, config)) return false;
+      const gap = (position - h.position + config.TRACK_LENGTH) % config.TRACK_LENGTH;
+      return gap >= 1 && gap <= 6 && h.steps + gap <= config.FINISH_STEPS - homeRun;
+    }).length;
+}
+
+const blockadesEnabled = (state: RulesState) => state.mode === "team" || state.rules.blockadesInIndividual;
+
+/**
+ * Score every valid move of the current player, best first. Each move is
+ * played out with applyAction so captures, stacks and home entry follow
+ * the room's house rules exactly.
+ */
+export function evaluateMoves(state: RulesState): MoveEvaluation[] {
+  const current = getCurrentPlayer(state);
+  if (!current || state.diceValue === null) return [];
+  const config = getGameConfig(state.maxPlayers);
+  const homeRunStart = config.FINISH_STEPS - (config.HOME_POSITION - config.TRACK_LENGTH);
+
+  const evaluations: MoveEvaluation[] = [];
+  for (const move of state.validMoves) {
+    const before = (state.tokens[move.color] || []).find((t) => t.id === move.id);
+    if (!before) continue;
+    let result;
+    try {
+      result = applyAction(state, {
+        type: "move",
+        playerId: current.id,
+        tokenId: move.id,
+        color: move.color,
+        diceValue: state.diceValue,
+      });
+    } catch {
+      continue;
+    }
+    const { nextState, events } = result;
+    const after = (nextState.tokens[move.color] || []).find((t) => t.id === move.id) || before;
+
+    const landedOnTrack = onTrack(after, config);
+    const sharedCell = landedOnTrack
+      ? (nextState.tokens[move.color] || []).filter((t) => onTrack(t, config) && t.position === after.position).length
+      : 0;
+    const factors: MoveFactors = {
+      captures: events.filter((e) => e.type === "token:captured").length,
+      dangerBefore: onTrack(before, config) ? dangerAt(state, current.color, before.position, config) : 0,
+      dangerAfter: landedOnTrack ? dangerAt(nextState, current.color, after.position, config) : 0,
+      safeLanding: landedOnTrack && config.SAFE_INDICES.includes(after.position),
+      homeRunProgress: Math.max(0, after.steps - Math.max(before.steps, homeRunStart)),
+      reachesHome: events.some((e) => e.type === "token:home"),
+      releases: events.some((e) => e.type === "token:released"),
+      formsBlockade: blockadesEnabled(state) && sharedCell >= 2 && !config.SAFE_INDICES.includes(after.position),
+    };
+
+    const score =
+      factors.captures * WEIGHTS.capture +
+      (factors.dangerBefore - factors.dangerAfter) * WEIGHTS.danger +
+      (factors.safeLanding ? WEIGHTS.safeLanding : 0) +
+      factors.homeRunProgress * WEIGHTS.homeRunStep +
+      (factors.reachesHome ? WEIGHTS.reachesHome : 0) +
+      (factors.releases ? WEIGHTS.release : 0) +
+      (factors.formsBlockade ? WEIGHTS.blockade : 0) +
+      Math.max(0, after.steps - Math.max(0, before.steps)) * WEIGHTS.progressStep;
+
+    evaluations.push({ token: { id: move.id, color: move.color }, score: Math.round(score * 10) / 10, factors });
+  }
+  return evaluations.sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,75 @@
+import { applyAction } from "./rulesEngine";
+import { RulesAction, RulesState } from "./types";
+
+/** A recorded GameEvent as far as replaying it is concerned. */
+export interface ReplayEvent {
+  revision: number;
+  type: string;
+  actorRoomPlayerId: string | null;
+  payload: Record<string, any>;
+}
+
+// Every event that bumps the board revision. Others (taunts, three-sixes
+// notices) ride along on a revision one of these already holds.
+export const REPLAY_STEP_TYPES = [
+  "dice:roll",
+  "move",
+  "turn:advance",
+  "player:resign",
+  "game:paused",
+  "game:resumed",
+  "game:abandoned",
+];
+
+const toAction = (event: ReplayEvent): RulesAction | null => {
+  const playerId = event.actorRoomPlayerId ?? "";
+  const payload = event.payload || {};
+  switch (event.type) {
+    case "dice:roll":
+      return { type: "roll", playerId, dice: Number(payload.dice) };
+    case "move":
+      return {
+        type: "move",
+        playerId,
+        tokenId: Number(payload.tokenId),
+        color: payload.color,
+        diceValue: Number(payload.diceValue),
+        enterHome: payload.enterHome !== false,
+      };
+    case "turn:advance":
+      return { type: "pass", playerId: String(payload.previousPlayerId ?? playerId) };
+    case "player:resign":
+      return { type: "resign", playerId };
+    default:
+      return null;
+  }
+};
+
+/**
+ * Board after one recorded event. The rules engine is deterministic given
+ * the dice, so replaying the recorded actions reproduces the game exactly.
+ * Throws the engine's error code when an event does not fit the board.
+ */
+export function replayStep(state: RulesState, event: ReplayEvent): RulesState {
+  if (event.type === "game:paused") return { ...state, status: "paused" };
+  if (event.type === "game:resumed") return { ...state, status: "in_progress" };
+  if (event.type === "game:abandoned") {
+    // The reaper ranked everyone where they stood; the event carries those ranks.
+    const winners = Array.isArray(event.payload?.winners)
+      ? event.payload.winners.map((w: any) => ({ playerId: String(w.playerId), rank: Number(w.rank) }))
+      : state.winners;
+    return { ...state, status: "abandoned", winners, diceValue: null, validMoves: [] };
+  }
+  const action = toAction(event);
+  return action ? applyAction(state, action).nextState : state;
+}
+
+/** Board at `revision`, or after the last event when none is given. */
+export function rebuildBoard(initial: RulesState, events: ReplayEvent[], revision?: number): RulesState {
+  let state = initial;
+  for (const event of events) {
+    if (revision !== undefined && event.revision > revision) break;
+    state = replayStep(state, event);
+  }
+  return state;
+}
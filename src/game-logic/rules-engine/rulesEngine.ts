@@ -0,0 +1,415 @@
+import { GameConfig, PlayerColor, Token, getGameConfig } from "../../config/ludoConfigBackend";
+import { applyMove, checkWinCondition, findValidMoves } from "../../services/ludoGameLogicBackend";
+import { TeamLayoutName, getTeamColors, resolveTeamLayout } from "./teamLayouts";
+import { ExtraTurnReason, RulesAction, RulesEvent, RulesPlayer, RulesResult, RulesState, TokenRef } from "./types";
+
+/*
+ * Pure Ludo rules. No Mongo, Redis or socket access: callers load the state,
+ * run applyAction and persist/broadcast the result themselves.
+ * Rule violations throw an Error whose message is a stable code
+ * (NOT_YOUR_TURN, INVALID_MOVE, ...) that controllers map to HTTP errors.
+ */
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value)) as T;
+
+const isTrackToken = (token: Token, trackLength: number) =>
+  typeof token.position === "number" &&
+  token.position >= 0 &&
+  token.position < trackLength &&
+  (token.status === "active" || token.status === "safe");
+
+/**
+ * Colors a player may move: their own, plus every teammate's in team mode.
+ */
+export function getControllableColors(
+  mode: RulesState["mode"],
+  maxPlayers: number,
+  color: PlayerColor,
+  teamLayout?: TeamLayoutName | null
+): PlayerColor[] {
+  if (mode !== "team") return [color];
+  return getTeamColors(resolveTeamLayout(maxPlayers, teamLayout), color);
+}
+
+export function getCurrentPlayer(state: RulesState): RulesPlayer | null {
+  return state.players[state.currentPlayerIndex] || null;
+}
+
+export function isWinner(state: RulesState, playerId: string): boolean {
+  return state.winners.some((w) => w.playerId === playerId);
+}
+
+export function isResigned(state: RulesState, playerId: string): boolean {
+  return (state.resigned || []).includes(playerId);
+}
+
+/**
+ * Best rank nobody holds yet. Resigned players take ranks from the bottom,
+ * so this is not always winners.length + 1.
+ */
+export function firstOpenRank(state: RulesState): number {
+  const taken = new Set(state.winners.map((w) => w.rank));
+  let rank = 1;
+  while (taken.has(rank)) rank += 1;
+  return rank;
+}
+
+export function lastOpenRank(state: RulesState): number {
+  const taken = new Set(state.winners.map((w) => w.rank));
+  let rank = state.players.length;
+  while (rank > 1 && taken.has(rank)) rank -= 1;
+  return rank;
+}
+
+/**
+ * With the captureToEnterHome rule a player's home run stays closed until
+ * they have captured at least one opponent token.
+ */
+export function isHomeUnlocked(state: RulesState, playerId: string): boolean {
+  return !state.rules.captureToEnterHome || (state.captureCounts[playerId] || 0) > 0;
+}
+
+export function getHomeUnlocked(state: RulesState): Record<string, boolean> {
+  return state.players.reduce((acc, p) => {
+    acc[p.id] = isHomeUnlocked(state, p.id);
+    return acc;
+  }, {} as Record<string, boolean>);
+}
+
+/**
+ * Colors whose tokens must keep circling because their owner has not
+ * unlocked the home run yet.
+ */
+export function getHomeLockedColors(state: RulesState): PlayerColor[] {
+  return state.players.filter((p) => !isHomeUnlocked(state, p.id)).map((p) => p.color);
+}
+
+/**
+ * Next seat in turn order. Resigned seats are always skipped. Winners are
+ * skipped in individual mode only, team mode keeps them in rotation so they
+ * can move their teammate's tokens.
+ */
+export function nextTurnIndex(state: RulesState, fromIndex: number): number {
+  const total = state.players.length;
+  const skipWinners = state.mode !== "team";
+  for (let i = 1; i <= total; i += 1) {
+    const next = (fromIndex + i) % total;
+    const candidate = state.players[next].id;
+    if (isResigned(state, candidate)) continue;
+    if (!skipWinners || !isWinner(state, candidate)) return next;
+  }
+  return fromIndex;
+}
+
+/**
+ * Tokens that must move together: two or more own tokens stacked on a
+ * non-safe track cell move as a pair using half the dice value.
+ */
+export function getForcedStack(tokens: Token[], token: Token, config: GameConfig): number[] | null {
+  if (!isTrackToken(token, config.TRACK_LENGTH)) return null;
+  const sameCell = tokens
+    .filter((t) => isTrackToken(t, config.TRACK_LENGTH) && t.position === token.position)
+    .map((t) => t.id);
+  if (sameCell.length < 2 || config.SAFE_INDICES.includes(token.position)) return null;
+  return sameCell;
+}
+
+const requireTurn = (state: RulesState, playerId: string): RulesPlayer => {
+  if (state.status !== "in_progress") throw new Error("GAME_NOT_IN_PROGRESS");
+  const current = getCurrentPlayer(state);
+  if (!current) throw new Error("STATE_NOT_FOUND");
+  if (current.id !== playerId) throw new Error("NOT_YOUR_TURN");
+  return current;
+};
+
+const teamKey = (state: RulesState, color: PlayerColor) =>
+  getControllableColors(state.mode, state.maxPlayers, color, state.teamLayout).sort().join(",");
+
+/**
+ * Ends the game once at most one player (or team) is still playing: those
+ * left take the best open ranks. Returns whether the game ended.
+ */
+const settleIfDecided = (state: RulesState, events: RulesEvent[]): boolean => {
+  const remaining = state.players.filter((p) => !isWinner(state, p.id) && !isResigned(state, p.id));
+  if (new Set(remaining.map((p) => teamKey(state, p.color))).size > 1) return false;
+  for (const seat of remaining) {
+    const rank = firstOpenRank(state);
+    state.winners.push({ playerId: seat.id, rank });
+    events.push({ type: "player:finished", playerId: seat.id, rank });
+  }
+  state.status = "completed";
+  state.diceValue = null;
+  state.validMoves = [];
+  state.turnStart = null;
+  events.push({ type: "game:completed", winners: clone(state.winners) });
+  return true;
+};
+
+const passTurn = (state: RulesState, events: RulesEvent[]) => {
+  const from = state.players[state.currentPlayerIndex];
+  state.currentPlayerIndex = nextTurnIndex(state, state.currentPlayerIndex);
+  state.diceValue = null;
+  state.validMoves = [];
+  state.consecutiveSixes[from.id] = 0;
+  state.turnStart = null;
+  const to = state.players[state.currentPlayerIndex];
+  events.push({ type: "turn:advanced", fromPlayerId: from.id, toPlayerId: to.id });
+};
+
+/**
+ * Throws when `playerId` may not roll right now. Lets callers reject a roll
+ * before spending a dice generation on it.
+ */
+export function assertCanRoll(state: RulesState, playerId: string): RulesPlayer {
+  const current = requireTurn(state, playerId);
+  if (state.mode !== "team" && isWinner(state, current.id)) throw new Error("WINNER_CANNOT_ROLL");
+  if (state.diceValue !== null) throw new Error("ALREADY_ROLLED");
+  return current;
+}
+
+const applyRoll = (state: RulesState, action: Extract<RulesAction, { type: "roll" }>): RulesResult => {
+  const current = assertCanRoll(state, action.playerId);
+  if (!Number.isInteger(action.dice) || action.dice < 1 || action.dice > 6) throw new Error("INVALID_DICE");
+
+  const next = clone(state);
+  const events: RulesEvent[] = [];
+  if (!next.turnStart || next.turnStart.playerId !== current.id) {
+    next.turnStart = {
+      playerId: current.id,
+      tokens: clone(next.tokens),
+      winners: clone(next.winners),
+      captureCounts: clone(next.captureCounts),
+    };
+  }
+
+  const sixChain = action.dice === 6 ? (next.consecutiveSixes[current.id] || 0) + 1 : 0;
+  next.consecutiveSixes[current.id] = sixChain;
+  if (sixChain >= 3 && next.rules.threeSixesPenalty !== "off") {
+    const rolledBack = next.rules.threeSixesPenalty === "rollback";
+    if (rolledBack) {
+      next.tokens = next.turnStart.tokens;
+      next.winners = next.turnStart.winners;
+      next.captureCounts = next.turnStart.captureCounts;
+    }
+    next.diceValue = action.dice;
+    events.push({ type: "dice:rolled", playerId: current.id, dice: action.dice, validMoves: [] });
+    events.push({ type: "turn:forfeited", playerId: current.id, reason: "three_sixes", rolledBack });
+    passTurn(next, events);
+    return { nextState: next, events };
+  }
+
+  const controllableColors = getControllableColors(next.mode, next.maxPlayers, current.color, next.teamLayout);
+  const validMoves = findValidMoves(
+    next.tokens,
+    current.color,
+    action.dice,
+    getGameConfig(next.maxPlayers),
+    controllableColors,
+    next.rules,
+    getHomeLockedColors(next)
+  );
+  next.diceValue = action.dice;
+  next.validMoves = validMoves;
+  events.push({ type: "dice:rolled", playerId: current.id, dice: action.dice, validMoves });
+
+  if (validMoves.length === 0) {
+    events.push({ type: "turn:skipped", playerId: current.id, reason: "no_valid_moves" });
+    passTurn(next, events);
+  }
+
+  return { nextState: next, events };
+};
+
+const applyTokenMove = (state: RulesState, action: Extract<RulesAction, { type: "move" }>): RulesResult => {
+  const current = requireTurn(state, action.playerId);
+  if (state.mode !== "team" && isWinner(state, current.id)) throw new Error("WINNER_CANNOT_MOVE");
+  if (state.diceValue !== action.diceValue) throw new Error("DICE_MISMATCH");
+
+  const config = getGameConfig(state.maxPlayers);
+  const controllableColors = getControllableColors(state.mode, state.maxPlayers, current.color, state.teamLayout);
+  const moveColor = action.color;
+  if (!controllableColors.includes(moveColor)) throw new Error("INVALID_TEAM_COLOR");
+  if (!state.validMoves.some((m) => m.id === action.tokenId && m.color === moveColor)) {
+    throw new Error("INVALID_MOVE");
+  }
+  const token = (state.tokens[moveColor] || []).find((t) => t.id === action.tokenId);
+  if (!token) throw new Error("TOKEN_NOT_FOUND");
+
+  const forcedStack = getForcedStack(state.tokens[moveColor] || [], token, config);
+  if (forcedStack && action.diceValue % 2 !== 0) throw new Error("INVALID_MOVE");
+  const effectiveDice = forcedStack ? action.diceValue / 2 : action.diceValue;
+  if (effectiveDice < 1) throw new Error("INVALID_MOVE");
+
+  const next = clone(state);
+  const events: RulesEvent[] = [];
+  const tokens = next.tokens;
+  const movingTokenIds = forcedStack || [action.tokenId];
+  const homeLockedColors = getHomeLockedColors(next);
+  const captured: Array<{ victim: TokenRef; by: TokenRef; at: number }> = [];
+  const seenCaptured = new Set<string>();
+  let reachedHome = false;
+
+  for (const movingId of movingTokenIds) {
+    const movingToken = (tokens[moveColor] || []).find((t) => t.id === movingId);
+    if (!movingToken) continue;
+    const before = { ...movingToken };
+    const { updatedToken, capturedTokens } = applyMove(
+      movingToken,
+      effectiveDice,
+      moveColor,
+      config,
+      tokens,
+      action.enterHome !== false,
+      controllableColors,
+      next.rules,
+      homeLockedColors
+    );
+    tokens[moveColor] = (tokens[moveColor] || []).map((t) => (t.id === movingId ? updatedToken : t));
+
+    const ref = { id: movingId, color: moveColor };
+    if (before.status === "base" && updatedToken.status !== "base") {
+      events.push({ type: "token:released", playerId: current.id, token: ref, to: updatedToken.position });
+    } else {
+      events.push({
+        type: "token:moved",
+        playerId: current.id,
+        token: ref,
+        from: before.position,
+        to: updatedToken.position,
+        fromStatus: before.status,
+        toStatus: updatedToken.status,
+        steps: effectiveDice,
+      });
+    }
+    if (before.status !== "home" && updatedToken.status === "home") {
+      reachedHome = true;
+      events.push({ type: "token:home", playerId: current.id, token: ref });
+    }
+
+    (capturedTokens || []).forEach((victim) => {
+      const key = `${victim.color}-${victim.id}`;
+      if (seenCaptured.has(key)) return;
+      seenCaptured.add(key);
+      captured.push({ victim, by: ref, at: updatedToken.position });
+    });
+  }
+
+  captured.forEach(({ victim }) => {
+    tokens[victim.color] = (tokens[victim.color] || []).map((t) =>
+      t.id === victim.id ? { ...t, position: -1, status: "base", steps: -1 } : t
+    );
+  });
+  captured.forEach(({ victim, by, at }) => {
+    events.push({ type: "token:captured", playerId: current.id, token: victim, by, at });
+  });
+  if (captured.length > 0) {
+    const wasUnlocked = isHomeUnlocked(next, current.id);
+    next.captureCounts[current.id] = (next.captureCounts[current.id] || 0) + captured.length;
+    if (!wasUnlocked) events.push({ type: "home:unlocked", playerId: current.id });
+  }
+
+  const hasWon = checkWinCondition(tokens, moveColor);
+  const moveOwner = next.players.find((p) => p.color === moveColor);
+  if (hasWon && moveOwner && !isWinner(next, moveOwner.id)) {
+    const rank = firstOpenRank(next);
+    next.winners.push({ playerId: moveOwner.id, rank });
+    events.push({ type: "player:finished", playerId: moveOwner.id, rank });
+  }
+
+  next.diceValue = null;
+  next.validMoves = [];
+
+  const extraTurnReasons: ExtraTurnReason[] = [];
+  if (action.diceValue === 6 && next.rules.extraTurnOn.six) extraTurnReasons.push("six");
+  if (captured.length > 0 && next.rules.extraTurnOn.capture) extraTurnReasons.push("capture");
+  if (reachedHome && next.rules.extraTurnOn.home) extraTurnReasons.push("home");
+  const shouldGrantExtraTurn = extraTurnReasons.length > 0 && !(next.mode !== "team" && hasWon);
+
+  // A team game is decided as soon as a single team is left playing.
+  const canSettle = next.mode === "team" || next.winners.length >= next.players.length;
+  if (canSettle && settleIfDecided(next, events)) return { nextState: next, events };
+  if (shouldGrantExtraTurn) {
+    events.push({ type: "turn:extra", playerId: current.id, reasons: extraTurnReasons });
+  } else {
+    passTurn(next, events);
+  }
+
+  return { nextState: next, events };
+};
+
+const applyPass = (state: RulesState, action: Extract<RulesAction, { type: "pass" }>): RulesResult => {
+  requireTurn(state, action.playerId);
+  const next = clone(state);
+  const events: RulesEvent[] = [];
+  passTurn(next, events);
+  return { nextState: next, events };
+};
+
+/**
+ * Resigning takes the player (their whole team in team mode) out of the
+ * game: unfinished tokens go back to base for good and each seat without a
+ * rank gets the worst one still open. When a single player or team is left
+ * they take the remaining ranks and the game ends. A paused game stays
+ * paused with the turn where it was; it moves on when play resumes.
+ */
+const applyResign = (state: RulesState, action: Extract<RulesAction, { type: "resign" }>): RulesResult => {
+  if (state.status !== "in_progress" && state.status !== "paused") throw new Error("GAME_NOT_IN_PROGRESS");
+  const player = state.players.find((p) => p.id === action.playerId);
+  if (!player) throw new Error("PLAYER_NOT_FOUND");
+  if (isResigned(state, player.id)) throw new Error("ALREADY_RESIGNED");
+  if (state.mode !== "team" && isWinner(state, player.id)) throw new Error("ALREADY_FINISHED");
+
+  const next = clone(state);
+  next.resigned = [...(next.resigned || [])];
+  const events: RulesEvent[] = [];
+  const key = teamKey(next, player.color);
+  // The requester goes first so they take the lowest rank.
+  const seats = next.players
+    .filter((p) => teamKey(next, p.color) === key && !isResigned(next, p.id))
+    .sort((a, b) => Number(b.id === player.id) - Number(a.id === player.id));
+
+  for (const seat of seats) {
+    next.resigned.push(seat.id);
+    next.tokens[seat.color] = (next.tokens[seat.color] || []).map((t) =>
+      t.status === "home" || t.status === "finished" ? t : { ...t, position: -1, status: "base", steps: -1 }
+    );
+    let rank: number | null = null;
+    if (!isWinner(next, seat.id)) {
+      rank = lastOpenRank(next);
+      next.winners.push({ playerId: seat.id, rank });
+    }
+    if (next.turnStart) {
+      next.turnStart.tokens[seat.color] = clone(next.tokens[seat.color]);
+      if (rank !== null) next.turnStart.winners.push({ playerId: seat.id, rank });
+    }
+    events.push({ type: "player:resigned", playerId: seat.id, rank });
+  }
+
+  if (
+    !settleIfDecided(next, events) &&
+    next.status === "in_progress" &&
+    isResigned(next, next.players[next.currentPlayerIndex]?.id)
+  ) {
+    passTurn(next, events);
+  }
+
+  return { nextState: next, events };
+};
+
+/**
+ * Single entry point for every game action. Never mutates the input state.
+ */
+export function applyAction(state: RulesState, action: RulesAction): RulesResult {
+  switch (action.type) {
+    case "roll":
+      return applyRoll(state, action);
+    case "move":
+      return applyTokenMove(state, action);
+    case "pass":
+      return applyPass(state, action);
+    case "resign":
+      return applyResign(state, action);
+    default:
+      throw new Error("UNKNOWN_ACTION");
+  }
+}
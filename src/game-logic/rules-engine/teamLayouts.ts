@@ -0,0 +1,70 @@
+import { PLAYER_COLOR_MAPS, PlayerColor } from "../../config/ludoConfigBackend";
+
+export type TeamLayoutName = "2v2" | "2v2v2" | "3v3" | "2v2v2v2" | "4v4";
+
+/**
+ * Which seats play together. Seats are positions in the room's color order,
+ * which is also clockwise order on the board.
+ */
+export interface TeamLayout {
+  name: TeamLayoutName;
+  maxPlayers: number;
+  teams: number[][];
+}
+
+export const TEAM_LAYOUTS: Record<TeamLayoutName, TeamLayout> = {
+  "2v2": { name: "2v2", maxPlayers: 4, teams: [[0, 2], [1, 3]] },
+  "2v2v2": { name: "2v2v2", maxPlayers: 6, teams: [[0, 3], [1, 4], [2, 5]] },
+  "3v3": { name: "3v3", maxPlayers: 6, teams: [[0, 2, 4], [1, 3, 5]] },
+  "2v2v2v2": { name: "2v2v2v2", maxPlayers: 8, teams: [[0, 4], [1, 5], [2, 6], [3, 7]] },
+  "4v4": { name: "4v4", maxPlayers: 8, teams: [[0, 2, 4, 6], [1, 3, 5, 7]] },
+};
+
+// Partners sit opposite each other unless the room picks another layout.
+export const DEFAULT_TEAM_LAYOUTS: Record<number, TeamLayoutName> = {
+  4: "2v2",
+  6: "2v2v2",
+  8: "2v2v2v2",
+};
+
+export const getTeamLayoutsFor = (maxPlayers: number): TeamLayoutName[] =>
+  (Object.keys(TEAM_LAYOUTS) as TeamLayoutName[]).filter((name) => TEAM_LAYOUTS[name].maxPlayers === maxPlayers);
+
+/**
+ * Layout a room plays with: its own when that fits the player count,
+ * otherwise the default for that count. Null when teams are impossible.
+ */
+export const resolveTeamLayout = (maxPlayers: number, name?: unknown): TeamLayout | null => {
+  const own = typeof name === "string" ? TEAM_LAYOUTS[name as TeamLayoutName] : undefined;
+  if (own && own.maxPlayers === maxPlayers) return own;
+  const fallback = DEFAULT_TEAM_LAYOUTS[maxPlayers];
+  return fallback ? TEAM_LAYOUTS[fallback] : null;
+};
+
+export const validateTeamLayout = (
+  maxPlayers: number,
+  raw: unknown
+): { layout: TeamLayoutName } | { error: string } => {
+  const allowed = getTeamLayoutsFor(maxPlayers);
+  if (allowed.length === 0) return { error: `Team mode is not available for ${maxPlayers} players` };
+  if (raw === undefined || raw === null) return { layout: DEFAULT_TEAM_LAYOUTS[maxPlayers] };
+  if (typeof raw !== "string" || !allowed.includes(raw as TeamLayoutName)) {
+    return { error: `teamLayout must be one of ${allowed.join(", ")}` };
+  }
+  return { layout: raw as TeamLayoutName };
+};
+
+export const getTeamIndexForPosition = (layout: TeamLayout | null, position: number): number | null => {
+  if (!layout || !Number.isInteger(position)) return null;
+  const idx = layout.teams.findIndex((seats) => seats.includes(position));
+  return idx === -1 ? null : idx;
+};
+
+/** Every color on `color`'s team, `color` first. */
+export const getTeamColors = (layout: TeamLayout | null, color: PlayerColor): PlayerColor[] => {
+  if (!layout) return [color];
+  const order = PLAYER_COLOR_MAPS[layout.maxPlayers] || PLAYER_COLOR_MAPS[4];
+  const seats = layout.teams.find((team) => team.some((seat) => order[seat] === color));
+  if (!seats) return [color];
+  return [color, ...seats.map((seat) => order[seat]).filter((c) => c && c !== color)];
+};
@@ -0,0 +1,95 @@
+import { PlayerColor, Token } from "../../config/ludoConfigBackend";
+import { ExtraTurnTrigger, HouseRules } from "./houseRules";
+import { TeamLayoutName } from "./teamLayouts";
+
+export type RulesGameMode = "individual" | "team";
+export type RulesGameStatus = "waiting" | "in_progress" | "paused" | "completed" | "abandoned";
+
+export type TokenRef = { id: number; color: PlayerColor };
+
+export interface RulesPlayer {
+  id: string; // RoomPlayer id
+  color: PlayerColor;
+}
+
+export interface RulesWinner {
+  playerId: string;
+  rank: number;
+}
+
+/**
+ * Board as it was when the current player's turn began, kept so a
+ * three-sixes penalty can undo the whole turn.
+ */
+export interface TurnStartSnapshot {
+  playerId: string;
+  tokens: Record<PlayerColor, Token[]>;
+  winners: RulesWinner[];
+  captureCounts: Record<string, number>;
+}
+
+/**
+ * Everything the rules need to decide the outcome of an action.
+ * Players are listed in turn order.
+ */
+export interface RulesState {
+  status: RulesGameStatus;
+  mode: RulesGameMode;
+  maxPlayers: number;
+  teamLayout?: TeamLayoutName | null; // Team mode only, defaults to the layout for maxPlayers
+  rules: HouseRules;
+  players: RulesPlayer[];
+  currentPlayerIndex: number;
+  tokens: Record<PlayerColor, Token[]>;
+  diceValue: number | null;
+  validMoves: TokenRef[];
+  winners: RulesWinner[];
+  consecutiveSixes: Record<string, number>; // RoomPlayer id -> sixes rolled in a row this turn
+  turnStart: TurnStartSnapshot | null;
+  captureCounts: Record<string, number>; // RoomPlayer id -> opponent tokens captured this game
+  resigned: string[]; // RoomPlayer ids that resigned, skipped in turn order
+}
+
+export type RulesAction =
+  | { type: "roll"; playerId: string; dice: number }
+  | {
+      type: "move";
+      playerId: string;
+      tokenId: number;
+      color: PlayerColor;
+      diceValue: number;
+      enterHome?: boolean;
+    }
+  | { type: "pass"; playerId: string }
+  | { type: "resign"; playerId: string };
+
+export type ExtraTurnReason = ExtraTurnTrigger;
+
+export type RulesEvent =
+  | { type: "dice:rolled"; playerId: string; dice: number; validMoves: TokenRef[] }
+  | { type: "turn:skipped"; playerId: string; reason: "no_valid_moves" }
+  | { type: "turn:forfeited"; playerId: string; reason: "three_sixes"; rolledBack: boolean }
+  | { type: "token:released"; playerId: string; token: TokenRef; to: number }
+  | {
+      type: "token:moved";
+      playerId: string;
+      token: TokenRef;
+      from: number;
+      to: number;
+      fromStatus: Token["status"];
+      toStatus: Token["status"];
+      steps: number;
+    }
+  | { type: "token:captured"; playerId: string; token: TokenRef; by: TokenRef; at: number }
+  | { type: "token:home"; playerId: string; token: TokenRef }
+  | { type: "home:unlocked"; playerId: string }
+  | { type: "player:finished"; playerId: string; rank: number }
+  | { type: "player:resigned"; playerId: string; rank: number | null }
+  | { type: "turn:extra"; playerId: string; reasons: ExtraTurnReason[] }
+  | { type: "turn:advanced"; fromPlayerId: string; toPlayerId: string }
+  | { type: "game:completed"; winners: RulesWinner[] };
+
+export interface RulesResult {
+  nextState: RulesState;
+  events: RulesEvent[];
+}
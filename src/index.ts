@@ -5,10 +5,16 @@ import cors from 'cors';
 import mongoose from 'mongoose';
 import { connectDB, disconnectDB } from './utils/database';
 import { logSupabaseProfileStorageStatus } from './controllers/profileController';
-import { initSocket } from './socket';
+import { attachRedisAdapter, initSocket, isSocketAdapterRedisConnected, shutdownRedisAdapter } from './socket';
 import { gameStateCache } from './state/gameStateCache';
+import { idempotencyStore } from './state/idempotencyStore';
+import { roomRequestStore } from './state/roomRequestStore';
 import { engagementStateCache } from './game-logic/engagement-engine/engagementStateCache';
 import { tauntStateCache } from './engagement/taunts';
+import { clearAllTurnTimeouts } from './services/turnTimer';
+import { clearAllSeatTimers } from './services/seatPresenceService';
+import { recoverInProgressRooms } from './services/roomRecoveryService';
+import { startRoomReaper, stopRoomReaper } from './services/roomReaperService';
 import { registerHttpModules } from './modules/http/registerHttpModules';
 // Register Mongoose models
 import './models/User';
@@ -16,6 +22,7 @@ import './models/Room';
 import './models/RoomPlayer';
 import './models/RoomTeam';
 import './models/GameEvent';
+import './models/MatchResult';
 import './messages/models/Conversation';
 import './messages/models/Message';
 
@@ -114,6 +121,9 @@ app.get('/health', (req, res) => {
     redisConnected: gameStateCache.isRedisConnected(),
     engagementRedisConnected: engagementStateCache.isRedisConnected(),
     tauntRedisConnected: tauntStateCache.isRedisConnected(),
+    idempotencyRedisConnected: idempotencyStore.isRedisConnected(),
+    roomRequestRedisConnected: roomRequestStore.isRedisConnected(),
+    socketAdapterRedisConnected: isSocketAdapterRedisConnected(),
   });
 });
 
@@ -124,6 +134,8 @@ async function start() {
     await gameStateCache.init();
     await engagementStateCache.init();
     await tauntStateCache.init();
+    await idempotencyStore.init();
+    await roomRequestStore.init();
     await logSupabaseProfileStorageStatus();
 
     // ONLY set up routes AFTER the database is connected
@@ -131,6 +143,9 @@ async function start() {
 
     server = http.createServer(app);
     initSocket(server, allowedOrigins.join(','));
+    await attachRedisAdapter();
+    await recoverInProgressRooms();
+    startRoomReaper();
 
     server.listen(PORT, () => {
       console.log(`Server running on port ${PORT}`);
@@ -150,8 +165,14 @@ async function shutdown(signal: string) {
         server?.close(err => (err ? reject(err) : resolve()));
       });
     }
+    clearAllTurnTimeouts();
+    clearAllSeatTimers();
+    stopRoomReaper();
     await engagementStateCache.shutdown();
     await tauntStateCache.shutdown();
+    await idempotencyStore.shutdown();
+    await roomRequestStore.shutdown();
+    await shutdownRedisAdapter();
     await gameStateCache.shutdown();
     await disconnectDB();
     process.exit(0);
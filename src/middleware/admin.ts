@@ -0,0 +1,20 @@
+import { Request, Response, NextFunction } from 'express';
+
+const adminUserIds = () =>
+  (process.env.ADMIN_USER_IDS || '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean);
+
+/**
+ * Only for users listed in ADMIN_USER_IDS. Runs after authMiddleware.
+ */
+export function adminMiddleware(req: Request, res: Response, next: NextFunction) {
+  if (!req.userId || !adminUserIds().includes(req.userId.toString())) {
+    return res.status(403).json({
+      success: false,
+      error: 'Admin access required',
+    });
+  }
+  next();
+}
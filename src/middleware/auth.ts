@@ -31,3 +31,11 @@ export function authMiddleware(req: Request, res: Response, next: NextFunction)
   req.userId = new Types.ObjectId(payload.userId);
   next();
 }
+
+/** Sets req.userId when a valid token is sent, and lets the request through either way. */
+export function optionalAuthMiddleware(req: Request, _res: Response, next: NextFunction) {
+  const token = parseToken(req.headers.authorization || '');
+  const payload = token ? verifyToken(token) : null;
+  if (payload) req.userId = new Types.ObjectId(payload.userId);
+  next();
+}
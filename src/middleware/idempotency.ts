@@ -0,0 +1,72 @@
+import { Request, Response, NextFunction } from 'express';
+import { idempotencyStore } from '../state/idempotencyStore';
+import { formatErrorResponse } from '../utils/helpers';
+
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Honour an `Idempotency-Key` header on game actions. The first request
+ * with a key runs; a retry with the same key gets the stored response back
+ * instead of rolling or moving again. Keys are scoped to room, user and
+ * action. Only successful responses are kept, so a failed request can be
+ * retried with the same key. Requests without the header pass through.
+ */
+export async function idempotencyMiddleware(req: Request, res: Response, next: NextFunction) {
+  const rawKey = req.header('Idempotency-Key');
+  if (rawKey === undefined) return next();
+
+  const idempotencyKey = rawKey.trim();
+  if (!idempotencyKey || idempotencyKey.length > MAX_KEY_LENGTH) {
+    return res.status(400).json(formatErrorResponse(`Idempotency-Key must be 1-${MAX_KEY_LENGTH} characters`));
+  }
+
+  const action = req.path.split('/').filter(Boolean).pop() || 'action';
+  const key = `ludo:idem:${req.params.roomId}:${req.userId?.toString()}:${req.method}:${action}:${idempotencyKey}`;
+  const fingerprint = JSON.stringify(req.body ?? {});
+
+  try {
+    const existing = await idempotencyStore.claim(key, fingerprint);
+    if (existing) {
+      if (existing.fingerprint !== fingerprint) {
+        return res.status(422).json(formatErrorResponse('Idempotency-Key was already used for a different request'));
+      }
+      if (existing.state === 'pending') {
+        return res.status(409).json(formatErrorResponse('A request with this Idempotency-Key is still being processed'));
+      }
+      res.setHeader('Idempotent-Replayed', 'true');
+      return res.status(existing.statusCode ?? 200).json(existing.body);
+    }
+  } catch (error) {
+    console.error('Idempotency lookup failed:', error);
+    return next();
+  }
+
+  // The outcome is stored before the response goes out, so a retry sent
+  // as soon as the client hears back replays it instead of getting a 409.
+  let settled = false;
+  const sendJson = res.json.bind(res);
+  res.json = (body: any) => {
+    if (settled) return sendJson(body);
+    settled = true;
+    const statusCode = res.statusCode;
+    const stored =
+      statusCode >= 200 && statusCode < 300
+        ? idempotencyStore.complete(key, fingerprint, statusCode, body)
+        : idempotencyStore.release(key);
+    void stored
+      .catch((error) => {
+        console.error('Idempotency store failed:', error);
+        return idempotencyStore.release(key).catch(() => undefined);
+      })
+      .then(() => sendJson(body));
+    return res;
+  };
+  res.on('close', () => {
+    if (!settled) {
+      settled = true;
+      void idempotencyStore.release(key);
+    }
+  });
+
+  next();
+}
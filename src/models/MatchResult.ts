@@ -0,0 +1,95 @@
+import mongoose, { Document, Schema, Types } from "mongoose";
+
+export interface MatchParticipant {
+  roomPlayerId: Types.ObjectId;
+  userId: Types.ObjectId; // Bots get a generated id that matches no User
+  isBot: boolean;
+  displayName: string;
+  color: string;
+  teamIndex: number | null;
+  rank: number;
+  resigned: boolean;
+  captures: number; // Opponent tokens captured
+  sixes: number; // Sixes rolled
+  tokensFinished: number;
+  xpEarned: number; // Filled in once rewards are granted
+}
+
+export interface MatchTeam {
+  teamIndex: number;
+  name: string;
+  rank: number; // Best rank among its members
+  roomPlayerIds: Types.ObjectId[];
+}
+
+/**
+ * One finished game, written once when the room completes so history
+ * screens never need the room document.
+ */
+export interface MatchResultDocument extends Document {
+  roomId: Types.ObjectId;
+  mode: "individual" | "team";
+  maxPlayers: number;
+  tuningProfile: string;
+  participants: MatchParticipant[];
+  participantUserIds: Types.ObjectId[]; // Humans only, for per-user history
+  teams: MatchTeam[];
+  startedAt: Date;
+  endedAt: Date;
+  durationMs: number;
+  rewardsGrantedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const participantSchema = new Schema<MatchParticipant>(
+  {
+    roomPlayerId: { type: Schema.Types.ObjectId, ref: "RoomPlayer", required: true },
+    userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    isBot: { type: Boolean, default: false },
+    displayName: { type: String, default: "Player" },
+    color: { type: String, required: true },
+    teamIndex: { type: Number, default: null },
+    rank: { type: Number, required: true },
+    resigned: { type: Boolean, default: false },
+    captures: { type: Number, default: 0 },
+    sixes: { type: Number, default: 0 },
+    tokensFinished: { type: Number, default: 0 },
+    xpEarned: { type: Number, default: 0 },
+  },
+  { _id: false }
+);
+
+const teamSchema = new Schema<MatchTeam>(
+  {
+    teamIndex: { type: Number, required: true },
+    name: { type: String, default: "" },
+    rank: { type: Number, required: true },
+    roomPlayerIds: [{ type: Schema.Types.ObjectId, ref: "RoomPlayer" }],
+  },
+  { _id: false }
+);
+
+const matchResultSchema = new Schema<MatchResultDocument>(
+  {
+    roomId: { type: Schema.Types.ObjectId, ref: "Room", required: true, unique: true },
+    mode: { type: String, enum: ["individual", "team"], default: "individual" },
+    maxPlayers: { type: Number, required: true },
+    tuningProfile: { type: String, default: "" },
+    participants: { type: [participantSchema], default: [] },
+    participantUserIds: [{ type: Schema.Types.ObjectId, ref: "User" }],
+    teams: { type: [teamSchema], default: [] },
+    startedAt: { type: Date, required: true },
+    endedAt: { type: Date, required: true },
+    durationMs: { type: Number, default: 0 },
+    rewardsGrantedAt: { type: Date, default: null },
+  },
+  { timestamps: true }
+);
+
+matchResultSchema.index({ participantUserIds: 1, endedAt: -1, _id: -1 });
+matchResultSchema.index({ rewardsGrantedAt: 1, endedAt: 1 });
+
+export const MatchResult =
+  mongoose.models.MatchResult ||
+  mongoose.model<MatchResultDocument>("MatchResult", matchResultSchema);
@@ -1,6 +1,43 @@
 import mongoose, { Schema, Document, Types } from "mongoose";
 import { PlayerColor, Token } from "../config/ludoConfigBackend";
 import { DEFAULT_ENGAGEMENT_PROFILE, EngagementProfileName } from "../game-logic/engagement-engine/tuning";
+import { HouseRules } from "../game-logic/rules-engine/houseRules";
+import { TeamLayoutName } from "../game-logic/rules-engine/teamLayouts";
+
+export type PauseSource = "host" | "vote";
+
+/**
+ * Why and by whom a game was paused, plus what was left of the turn clock
+ * so resuming can give it back.
+ */
+export interface PauseInfo {
+  pausedAt: string;
+  source: PauseSource;
+  by: string | null; // User id of the host, or of the vote that decided it
+  reason: string | null;
+  remainingMs: number | null;
+}
+
+export interface TurnTimerSettings {
+  enabled: boolean; // Off: turns wait for the player, nothing is played for them
+  rollSeconds: number; // Time to roll once the turn starts
+  moveSeconds: number; // Time to pick a token once the dice is rolled
+}
+
+export interface SpectatorSettings {
+  allowed: boolean; // Host switch for the whole feed
+  delaySeconds: number; // How far the spectator feed runs behind the game
+}
+
+export type RematchInviteStatus = "invited" | "accepted" | "declined";
+
+/** A seat held in a rematch room for a player of the finished game. */
+export interface RematchInvite {
+  userId: string;
+  color: PlayerColor;
+  position: number;
+  status: RematchInviteStatus;
+}
 
 /**
  * Player finishing result
@@ -27,6 +64,20 @@ export interface GameBoard {
   winners: PlayerScore[];
 
   lastRollAt: Date | null;
+
+  consecutiveSixes?: Record<string, number>;
+
+  turnStart?: Record<string, unknown> | null;
+
+  captureCounts?: Record<string, number>;
+
+  turnDeadline?: Date | null;
+
+  resigned?: string[]; // RoomPlayer ids
+
+  pause?: PauseInfo | null;
+
+  revision?: number; // Bumped on every state change, compared with Redis on startup
 }
 
 /**
@@ -40,18 +91,28 @@ export interface RoomDocument extends Document {
   settings: {
     maxPlayers: number;
     mode: "individual" | "team";
+    teamLayout?: TeamLayoutName | null;
     visibility: "public" | "private";
     teamNames?: string[];
     tuningProfile?: EngagementProfileName;
     tauntMode?: "suggestion" | "hybrid" | "auto";
+    rules?: HouseRules;
+    turnTimer?: TurnTimerSettings;
+    hintsEnabled?: boolean;
+    spectators?: SpectatorSettings;
   };
 
-  status: "waiting" | "in_progress" | "completed";
+  status: "waiting" | "in_progress" | "paused" | "completed" | "abandoned";
 
   currentPlayerIndex: number;
 
   gameBoard: GameBoard;
 
+  rematchOf?: Types.ObjectId | null;
+  rematchRoomId?: Types.ObjectId | null; // Set once a rematch is opened, late clients follow it
+  rematchInvites?: RematchInvite[];
+  startingColor?: PlayerColor | null; // Overrides the random first turn
+
   createdAt: Date;
   updatedAt: Date;
 }
@@ -87,13 +148,18 @@ const roomSchema = new Schema<RoomDocument>(
         type: Number,
         required: true,
         min: 2,
-        max: 6,
+        max: 8,
       },
       mode: {
         type: String,
         enum: ["individual", "team"],
         default: "individual",
       },
+      teamLayout: {
+        type: String,
+        enum: ["2v2", "2v2v2", "3v3", "2v2v2v2", "4v4"],
+        default: null,
+      },
       visibility: {
         type: String,
         enum: ["public", "private"],
@@ -113,11 +179,38 @@ const roomSchema = new Schema<RoomDocument>(
         enum: ["suggestion", "hybrid", "auto"],
         default: "hybrid",
       },
+      rules: {
+        releaseFaces: { type: [Number], default: [6] },
+        extraTurnOn: {
+          six: { type: Boolean, default: true },
+          capture: { type: Boolean, default: true },
+          home: { type: Boolean, default: true },
+        },
+        blockadesInIndividual: { type: Boolean, default: false },
+        safeSquaresProtect: { type: Boolean, default: true },
+        threeSixesPenalty: { type: String, enum: ["off", "end_turn", "rollback"], default: "rollback" },
+        captureToEnterHome: { type: Boolean, default: false },
+        tokensPerPlayer: { type: Number, min: 1, max: 4, default: 4 },
+        startTokenReleased: { type: Boolean, default: false },
+      },
+      turnTimer: {
+        enabled: { type: Boolean, default: false },
+        rollSeconds: { type: Number, min: 5, max: 120, default: 15 },
+        moveSeconds: { type: Number, min: 5, max: 120, default: 20 },
+      },
+      hintsEnabled: {
+        type: Boolean,
+        default: true,
+      },
+      spectators: {
+        allowed: { type: Boolean, default: true },
+        delaySeconds: { type: Number, min: 0, max: 120, default: 0 },
+      },
     },
 
     status: {
       type: String,
-      enum: ["waiting", "in_progress", "completed"],
+      enum: ["waiting", "in_progress", "paused", "completed", "abandoned"],
       default: "waiting",
       index: true,
     },
@@ -172,6 +265,58 @@ const roomSchema = new Schema<RoomDocument>(
         type: Date,
         default: null,
       },
+      consecutiveSixes: {
+        type: Schema.Types.Mixed,
+        default: {},
+      },
+      turnStart: {
+        type: Schema.Types.Mixed,
+        default: null,
+      },
+      captureCounts: {
+        type: Schema.Types.Mixed,
+        default: {},
+      },
+      turnDeadline: {
+        type: Date,
+        default: null,
+      },
+      resigned: {
+        type: [String],
+        default: [],
+      },
+      pause: {
+        type: Schema.Types.Mixed,
+        default: null,
+      },
+      revision: {
+        type: Number,
+        default: 0,
+      },
+    },
+
+    rematchOf: {
+      type: Schema.Types.ObjectId,
+      ref: "Room",
+      default: null,
+    },
+    rematchRoomId: {
+      type: Schema.Types.ObjectId,
+      ref: "Room",
+      default: null,
+    },
+    rematchInvites: [
+      {
+        _id: false,
+        userId: { type: Schema.Types.ObjectId, ref: "User" },
+        color: String,
+        position: Number,
+        status: { type: String, enum: ["invited", "accepted", "declined"], default: "invited" },
+      },
+    ],
+    startingColor: {
+      type: String,
+      default: null,
     },
   },
   {
@@ -1,8 +1,13 @@
 import mongoose, { Schema, Document, Types } from 'mongoose';
+import { BotDifficulty } from '../game-logic/rules-engine/botPolicies';
 
 export interface RoomPlayerDocument extends Document {
   roomId: Types.ObjectId;
-  userId: Types.ObjectId;
+  userId: Types.ObjectId; // Bots get a generated id that matches no User
+  isBot: boolean;
+  botDifficulty?: BotDifficulty | null;
+  displayName?: string; // Bot seats only, humans use their User profile
+  autopilot: boolean; // Disconnected past the grace period, the server plays this seat
   color: string;
   position?: number;
   teamIndex?: number | null;
@@ -21,6 +26,10 @@ const roomPlayerSchema = new Schema<RoomPlayerDocument>(
     teamIndex: { type: Number, default: null },
     status: { type: String, enum: ['waiting', 'playing', 'finished'], default: 'waiting' },
     ready: { type: Boolean, default: false },
+    isBot: { type: Boolean, default: false },
+    botDifficulty: { type: String, enum: ['random', 'greedy', 'lookahead'], default: null },
+    displayName: { type: String },
+    autopilot: { type: Boolean, default: false },
   },
   { timestamps: true }
 );
@@ -1,4 +1,4 @@
-import mongoose, { Schema, Document } from 'mongoose';
+import mongoose, { Schema, Document, Types } from 'mongoose';
 
 export interface UserDocument extends Document {
   email: string;
@@ -10,6 +10,7 @@ export interface UserDocument extends Document {
   level: number;
   gamesPlayed: number;
   wins: number;
+  rewardedMatchIds: Types.ObjectId[]; // Recent matches already rewarded, guards against double awards
   createdAt: Date;
   updatedAt: Date;
 }
@@ -25,6 +26,7 @@ const userSchema = new Schema<UserDocument>(
     level: { type: Number, default: 1 },
     gamesPlayed: { type: Number, default: 0 },
     wins: { type: Number, default: 0 },
+    rewardedMatchIds: { type: [Schema.Types.ObjectId], default: [], select: false },
   },
   { timestamps: true }
 );
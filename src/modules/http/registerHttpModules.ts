@@ -1,7 +1,10 @@
 import { Express, Router } from "express";
+import adminRoutes from "../../routes/adminRoutes";
 import authRoutes from "../../routes/authRoutes";
+import matchRoutes from "../../routes/matchRoutes";
 import profileRoutes from "../../routes/profileRoutes";
 import roomRoutes from "../../routes/roomRoutes";
+import userRoutes from "../../routes/userRoutes";
 import messageRoutes from "../../messages/messageRoutes";
 
 interface HttpModule {
@@ -15,6 +18,9 @@ const HTTP_MODULES: HttpModule[] = [
   { name: "profile", basePath: "/api/profile", router: profileRoutes },
   { name: "rooms", basePath: "/api/rooms", router: roomRoutes },
   { name: "messages", basePath: "/api/messages", router: messageRoutes },
+  { name: "users", basePath: "/api/users", router: userRoutes },
+  { name: "matches", basePath: "/api/matches", router: matchRoutes },
+  { name: "admin", basePath: "/api/admin", router: adminRoutes },
 ];
 
 export function registerHttpModules(app: Express) {
@@ -1,13 +1,150 @@
+import { Types } from "mongoose";
 import { Server, Socket } from "socket.io";
 import { recordManualQuickMessage } from "../../engagement/taunts";
+import { respondToRematch } from "../../services/rematchService";
+import { castPauseVote } from "../../services/roomPauseService";
+import { getRoomSync } from "../../services/roomSyncService";
+import { attachSeatSocket, detachSeatSocket, dropSocket } from "../../services/seatPresenceService";
+import {
+  getSpectatorSettings,
+  getSpectatorSync,
+  holdsSeat,
+  mayJoinLiveChannel,
+  spectatorChannel,
+} from "../../services/spectatorService";
+
+type Ack = (payload: Record<string, any>) => void;
 
 export function registerRoomRealtime(io: Server, socket: Socket) {
-  socket.on("room:join", (roomId: string) => {
-    if (roomId) socket.join(roomId);
+  // The live channel is for seat holders once a game has started; anyone else watches via room:spectate.
+  socket.on("room:join", async (roomId: string, ack?: Ack) => {
+    if (!Types.ObjectId.isValid(roomId)) return;
+    const userId = typeof socket.data.userId === "string" ? socket.data.userId : null;
+    try {
+      if (!(await mayJoinLiveChannel(roomId, userId))) {
+        ack?.({ success: false, error: "SPECTATE_REQUIRED" });
+        return;
+      }
+    } catch (error) {
+      console.error("[room] join check failed:", error);
+      ack?.({ success: false, error: "Join failed" });
+      return;
+    }
+    socket.leave(spectatorChannel(roomId));
+    socket.join(roomId);
+    // Authenticated sockets count as the user's seat being present.
+    if (userId) {
+      void attachSeatSocket(roomId, userId, socket.id).catch((error) => {
+        console.error("[presence] attach failed:", error);
+      });
+    }
+    ack?.({ success: true, roomId });
   });
 
   socket.on("room:leave", (roomId: string) => {
-    if (roomId) socket.leave(roomId);
+    if (!roomId) return;
+    socket.leave(roomId);
+    socket.leave(spectatorChannel(roomId));
+    detachSeatSocket(roomId, socket.id);
+  });
+
+  // { roomId } to watch without a seat. The feed runs behind the game by the room's delay.
+  socket.on("room:spectate", async (payload: any, ack?: Ack) => {
+    const roomId = typeof payload?.roomId === "string" ? payload.roomId : "";
+    const userId = typeof socket.data.userId === "string" ? socket.data.userId : null;
+    if (!userId) {
+      ack?.({ success: false, error: "Unauthorized" });
+      return;
+    }
+    if (!Types.ObjectId.isValid(roomId)) {
+      ack?.({ success: false, error: "Invalid roomId" });
+      return;
+    }
+    try {
+      const settings = await getSpectatorSettings(roomId);
+      if (!settings.allowed) {
+        ack?.({ success: false, error: "SPECTATORS_NOT_ALLOWED" });
+        return;
+      }
+      if (await holdsSeat(roomId, userId)) {
+        ack?.({ success: false, error: "SEAT_HOLDER" });
+        return;
+      }
+      socket.join(spectatorChannel(roomId));
+      ack?.({ success: true, data: { roomId, delaySeconds: settings.delaySeconds } });
+    } catch (error: any) {
+      ack?.({ success: false, error: error?.message || "Spectate failed" });
+    }
+  });
+
+  socket.on("room:unspectate", (payload: any) => {
+    const roomId = typeof payload?.roomId === "string" ? payload.roomId : "";
+    if (roomId) socket.leave(spectatorChannel(roomId));
+  });
+
+  socket.on("disconnect", () => {
+    dropSocket(socket.id);
+  });
+
+  // { roomId, sinceRevision } after a reconnect or a gap in room:update revisions.
+  // Answers through the ack, or a room:sync event when none is given. Only seat holders, or anyone
+  // while the room is a lobby, get the live view; everyone else gets the spectator one, if allowed.
+  socket.on("room:sync", async (payload: any, ack?: Ack) => {
+    const roomId = typeof payload?.roomId === "string" ? payload.roomId : "";
+    const sinceRevision = Number(payload?.sinceRevision ?? 0);
+    const reply = ack ?? ((response: Record<string, any>) => socket.emit("room:sync", response));
+    if (!Types.ObjectId.isValid(roomId) || !Number.isInteger(sinceRevision) || sinceRevision < 0) {
+      reply({ success: false, error: "Invalid sync request" });
+      return;
+    }
+    try {
+      const userId = typeof socket.data.userId === "string" ? socket.data.userId : null;
+      const live = await mayJoinLiveChannel(roomId, userId);
+      const data = live ? await getRoomSync(roomId, sinceRevision) : await getSpectatorSync(roomId, sinceRevision);
+      reply({ success: true, data });
+    } catch (error: any) {
+      reply({ success: false, error: error?.message || "Sync failed" });
+    }
+  });
+
+  // { roomId, action: "pause" | "resume", reason? } from a seated player; the host's vote decides alone.
+  socket.on("room:pause-vote", async (payload: any, ack?: Ack) => {
+    const roomId = typeof payload?.roomId === "string" ? payload.roomId : "";
+    const action = payload?.action === "pause" || payload?.action === "resume" ? payload.action : null;
+    const reason = typeof payload?.reason === "string" ? payload.reason.trim().slice(0, 120) : null;
+    if (typeof socket.data.userId !== "string") {
+      ack?.({ success: false, error: "Unauthorized" });
+      return;
+    }
+    if (!Types.ObjectId.isValid(roomId) || !action) {
+      ack?.({ success: false, error: "Invalid pause vote" });
+      return;
+    }
+    try {
+      const result = await castPauseVote(roomId, socket.data.userId, action, reason);
+      ack?.({ success: true, data: result });
+    } catch (error: any) {
+      ack?.({ success: false, error: error?.message || "Pause vote failed" });
+    }
+  });
+
+  // Answer to a room:rematch-invite: { roomId (the rematch room), accept }.
+  socket.on("room:rematch-respond", async (payload: any, ack?: Ack) => {
+    const roomId = typeof payload?.roomId === "string" ? payload.roomId : "";
+    if (typeof socket.data.userId !== "string") {
+      ack?.({ success: false, error: "Unauthorized" });
+      return;
+    }
+    if (!Types.ObjectId.isValid(roomId) || typeof payload?.accept !== "boolean") {
+      ack?.({ success: false, error: "Invalid rematch response" });
+      return;
+    }
+    try {
+      const result = await respondToRematch(roomId, socket.data.userId, payload.accept);
+      ack?.({ success: true, data: result });
+    } catch (error: any) {
+      ack?.({ success: false, error: error?.message || "Rematch response failed" });
+    }
   });
 
   socket.on("room:chat", (payload: any) => {
@@ -0,0 +1,11 @@
+import { Router } from "express";
+import { authMiddleware } from "../middleware/auth";
+import { adminMiddleware } from "../middleware/admin";
+import { getRoomReaperStatus, runRoomReaperNow } from "../controllers/adminController";
+
+const router = Router();
+
+router.get("/reaper", authMiddleware, adminMiddleware, getRoomReaperStatus);
+router.post("/reaper/run", authMiddleware, adminMiddleware, runRoomReaperNow);
+
+export default router;
@@ -0,0 +1,9 @@
+import { Router } from "express";
+import { authMiddleware } from "../middleware/auth";
+import { getMatch } from "../controllers/matchController";
+
+const router = Router();
+
+router.get("/:matchId", authMiddleware, getMatch);
+
+export default router;
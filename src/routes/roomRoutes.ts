@@ -1,5 +1,6 @@
 import { Router } from "express";
-import { authMiddleware } from "../middleware/auth";
+import { authMiddleware, optionalAuthMiddleware } from "../middleware/auth";
+import { idempotencyMiddleware } from "../middleware/idempotency";
 
 import {
   createRoom,
@@ -8,6 +9,7 @@ import {
   getRoomCacheStatus,
   getEngagementCacheStatus,
   getRoomEvents,
+  getRoomReplay,
   getRoomTeams,
   updateRoomStatus,   // start game
   advanceTurn,
@@ -15,6 +17,17 @@ import {
   makeMove,
   joinRoom,
   leaveRoom,
+  addBot,
+  removeBot,
+  getMoveHint,
+  updateRoomHints,
+  updateRoomSpectators,
+  spectateRoom,
+  resignGame,
+  cancelResign,
+  pauseGame,
+  resumeGame,
+  requestRematch,
   togglePlayerReady,
   movePlayerSlot,
   updateTeamNames,
@@ -28,11 +41,12 @@ const router = Router();
 ============================================================ */
 router.post("/", authMiddleware, createRoom);
 router.get("/", getRooms);
-router.get("/:roomId", getRoomDetails);
+router.get("/:roomId", optionalAuthMiddleware, getRoomDetails);
 router.get("/:roomId/cache-status", authMiddleware, getRoomCacheStatus);
 router.get("/:roomId/engagement-cache-status", authMiddleware, getEngagementCacheStatus);
 router.get("/:roomId/teams", authMiddleware, getRoomTeams);
 router.get("/:roomId/events", authMiddleware, getRoomEvents);
+router.get("/:roomId/replay", authMiddleware, getRoomReplay);
 
 // Join by room code (preferred)
 router.post("/join", authMiddleware, joinRoom);
@@ -44,6 +58,9 @@ router.delete("/:roomId", authMiddleware, leaveRoom);
 // Back-compat: leave via POST
 router.post("/:roomId/leave", authMiddleware, leaveRoom);
 
+// Watch without a seat
+router.post("/:roomId/spectate", authMiddleware, spectateRoom);
+
 /* ============================================================
    PLAYER READY
 ============================================================ */
@@ -51,13 +68,23 @@ router.patch("/:roomId/ready", authMiddleware, togglePlayerReady);
 router.patch("/:roomId/slot", authMiddleware, movePlayerSlot);
 router.patch("/:roomId/team-names", authMiddleware, updateTeamNames);
 router.patch("/:roomId/tuning-profile", authMiddleware, updateRoomTuningProfile);
+router.post("/:roomId/bots", authMiddleware, addBot);
+router.delete("/:roomId/bots/:roomPlayerId", authMiddleware, removeBot);
+router.patch("/:roomId/hints", authMiddleware, updateRoomHints);
+router.patch("/:roomId/spectators", authMiddleware, updateRoomSpectators);
 
 /* ============================================================
    GAME FLOW
 ============================================================ */
 router.post("/:roomId/start", authMiddleware, updateRoomStatus);
-router.post("/:roomId/next-turn", authMiddleware, advanceTurn);
-router.post("/:roomId/dice", authMiddleware, rollDice);
-router.post("/:roomId/move", authMiddleware, makeMove);
+router.post("/:roomId/next-turn", authMiddleware, idempotencyMiddleware, advanceTurn);
+router.post("/:roomId/dice", authMiddleware, idempotencyMiddleware, rollDice);
+router.post("/:roomId/move", authMiddleware, idempotencyMiddleware, makeMove);
+router.get("/:roomId/hint", authMiddleware, getMoveHint);
+router.post("/:roomId/resign", authMiddleware, idempotencyMiddleware, resignGame);
+router.delete("/:roomId/resign", authMiddleware, cancelResign);
+router.post("/:roomId/pause", authMiddleware, pauseGame);
+router.post("/:roomId/resume", authMiddleware, resumeGame);
+router.post("/:roomId/rematch", authMiddleware, requestRematch);
 
 export default router;
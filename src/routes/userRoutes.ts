@@ -0,0 +1,9 @@
+import { Router } from "express";
+import { authMiddleware } from "../middleware/auth";
+import { getMyMatches } from "../controllers/matchController";
+
+const router = Router();
+
+router.get("/me/matches", authMiddleware, getMyMatches);
+
+export default router;
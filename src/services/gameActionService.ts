@@ -0,0 +1,1151 @@
+import mongoose from "mongoose";
+import { PlayerColor, Token, PLAYER_COLOR_MAPS, GameConfig, getGameConfig } from "../config/ludoConfigBackend";
+import { checkWinCondition, advanceTurn as advanceGameTurn } from "./ludoGameLogicBackend";
+import {
+  RulesEvent,
+  RulesState,
+  applyAction,
+  assertCanRoll,
+  chooseAutoMove,
+  chooseBotMove,
+  getControllableColors,
+  getForcedStack,
+  getHomeLockedColors,
+  getHomeUnlocked,
+  normalizeHouseRules,
+} from "../game-logic/rules-engine";
+import { emitRoomUpdate } from "../socket";
+import { RuntimeRoomState, gameStateCache } from "../state/gameStateCache";
+import { roomRequestStore } from "../state/roomRequestStore";
+import { generateDiceValue, reportCaptureOutcome, reportDiceOutcome } from "../game-logic/engagement-engine";
+import { recordGameEvent } from "./gameEventService";
+import { recordMatchResult } from "./matchResultService";
+import { grantMatchRewards } from "./rewardService";
+import { computeTurnDeadline, normalizeTurnTimer, scheduleTurnTimeout } from "./turnTimer";
+import { processTauntEvents, isRevengeKill, recordTauntCaptureMemory } from "../engagement/taunts";
+import { TauntEventInput, TauntRoomSnapshot } from "../engagement/taunts/types";
+
+const PERF_DEBUG = process.env.GAME_PERF_DEBUG === "true";
+const perfNow = () => Date.now();
+const logPerf = (label: string, start: number, extra?: Record<string, unknown>) => {
+  if (!PERF_DEBUG) return;
+  const tookMs = perfNow() - start;
+  console.log(`[perf] ${label} tookMs=${tookMs}`, extra || {});
+};
+
+const Room = () => mongoose.model("Room");
+const RoomPlayer = () => mongoose.model("RoomPlayer");
+
+const BOT_TURN_DELAY_MS = Number(process.env.BOT_TURN_DELAY_MS || 900);
+
+/**
+ * Who is acting on the current turn: the player themselves, a bot seat or
+ * an autopiloted (disconnected) seat playing its own turn, or the turn
+ * timer acting for a player. Server-side actors carry what they were armed
+ * with, the board revision for seats and the deadline for the timer, and
+ * are refused once the board has moved past it. Players may pin the board
+ * revision they acted on.
+ */
+export type GameActor =
+  | { source: "player"; userId: string; expectedRevision?: number }
+  | { source: "bot"; roomPlayerId: string; revision: number }
+  | { source: "autopilot"; roomPlayerId: string; revision: number }
+  | { source: "timer"; deadline: string };
+
+export interface MoveInput {
+  tokenId: number;
+  color: PlayerColor;
+  diceValue: number;
+  enterHome?: boolean;
+}
+
+export const getColorOrder = (maxPlayers: number) =>
+  PLAYER_COLOR_MAPS[maxPlayers] || PLAYER_COLOR_MAPS[4];
+
+export const sortPlayersByColor = (players: any[], maxPlayers: number) => {
+  const order = getColorOrder(maxPlayers);
+  const orderIndex = new Map(order.map((c, i) => [c, i]));
+  return [...players].sort((a, b) => {
+    const aIdx = orderIndex.get(a.color as PlayerColor) ?? 999;
+    const bIdx = orderIndex.get(b.color as PlayerColor) ?? 999;
+    return aIdx - bIdx;
+  });
+};
+
+export const getCurrentIndex = (room: any, orderedPlayers: any[]) => {
+  const currentId = room?.gameBoard?.currentPlayerId?.toString();
+  if (currentId) {
+    const idx = orderedPlayers.findIndex(p => p._id.toString() === currentId);
+    if (idx !== -1) return idx;
+  }
+  const fallback = room?.currentPlayerIndex ?? 0;
+  return Math.min(Math.max(fallback, 0), Math.max(orderedPlayers.length - 1, 0));
+};
+
+export const toRulesState = (room: any, state: RuntimeRoomState, orderedPlayers: any[]): RulesState => ({
+  status: state.status,
+  mode: room.settings.mode,
+  maxPlayers: room.settings.maxPlayers,
+  teamLayout: room.settings.teamLayout ?? null,
+  rules: normalizeHouseRules(room.settings?.rules),
+  players: orderedPlayers.map((p) => ({ id: p._id.toString(), color: p.color as PlayerColor })),
+  currentPlayerIndex: state.currentPlayerIndex,
+  tokens: state.gameBoard.tokens,
+  diceValue: state.gameBoard.diceValue,
+  validMoves: state.gameBoard.validMoves,
+  winners: state.gameBoard.winners,
+  consecutiveSixes: state.gameBoard.consecutiveSixes || {},
+  turnStart: state.gameBoard.turnStart || null,
+  captureCounts: state.gameBoard.captureCounts || {},
+  resigned: state.gameBoard.resigned || [],
+});
+
+const commitRulesResult = (
+  room: any,
+  state: RuntimeRoomState,
+  next: RulesState,
+  events: RulesEvent[],
+  orderedPlayers: any[]
+) => {
+  state.status = next.status;
+  state.currentPlayerIndex = next.currentPlayerIndex;
+  state.gameBoard.tokens = next.tokens;
+  state.gameBoard.currentPlayerId = next.players[next.currentPlayerIndex]?.id ?? state.gameBoard.currentPlayerId;
+  state.gameBoard.diceValue = next.diceValue;
+  state.gameBoard.validMoves = next.validMoves;
+  state.gameBoard.winners = next.winners;
+  state.gameBoard.consecutiveSixes = next.consecutiveSixes;
+  state.gameBoard.turnStart = next.turnStart;
+  state.gameBoard.captureCounts = next.captureCounts;
+  state.gameBoard.resigned = next.resigned;
+  state.gameBoard.lastRollAt = next.diceValue === null ? null : new Date().toISOString();
+  state.gameBoard.turnDeadline = computeTurnDeadline(
+    next.status,
+    next.diceValue,
+    normalizeTurnTimer(room.settings?.turnTimer)
+  );
+
+  const nameOf = (roomPlayerId: string) =>
+    orderedPlayers.find((p) => p._id.toString() === roomPlayerId)?.displayName || "Player";
+  for (const event of events) {
+    if (event.type === "turn:skipped") state.gameBoard.gameLog.push("No move, turn skipped");
+    if (event.type === "turn:forfeited") {
+      state.gameBoard.gameLog.push(
+        `${nameOf(event.playerId)} rolled three sixes, turn ${event.rolledBack ? "cancelled" : "ended"}`
+      );
+    }
+    if (event.type === "player:finished") {
+      state.gameBoard.gameLog.push(`${nameOf(event.playerId)} finished! Rank ${event.rank}`);
+    }
+    if (event.type === "player:resigned") state.gameBoard.gameLog.push(`${nameOf(event.playerId)} resigned`);
+    if (event.type === "game:completed") state.gameBoard.gameLog.push("Game Over! All players finished.");
+    if (event.type === "turn:extra") state.gameBoard.gameLog.push(`${nameOf(event.playerId)} earned an extra turn!`);
+    if (event.type === "home:unlocked") state.gameBoard.gameLog.push(`${nameOf(event.playerId)} unlocked their home run`);
+  }
+};
+
+const toTauntRoomSnapshot = (
+  roomId: string,
+  room: any,
+  orderedPlayers: any[],
+  tokens: Record<PlayerColor, Token[]>,
+  winners: Array<{ playerId: string; rank: number }>
+): TauntRoomSnapshot => ({
+  roomId,
+  mode: room.settings.mode,
+  maxPlayers: room.settings.maxPlayers,
+  players: orderedPlayers.map((p) => ({
+    roomPlayerId: p._id.toString(),
+    userId: p.userId.toString(),
+    displayName: String(p.displayName || "Player"),
+    color: p.color as PlayerColor,
+    isBot: !!p.isBot,
+  })),
+  board: {
+    tokens,
+    winners: winners.map((w) => ({
+      playerId: String(w.playerId),
+      rank: Number(w.rank),
+    })),
+  },
+});
+
+// Scaled to four tokens so quick rooms rank on the same scale as classic ones.
+const progressScore = (tokens: Token[] = [], config: GameConfig) => {
+  if (!tokens.length) return 0;
+  const total = tokens.reduce((sum, t) => {
+    if (t.status === "base") return sum;
+    if (t.status === "home" || t.status === "finished") return sum + config.FINISH_STEPS + 10;
+    return sum + Math.max(0, Number(t.steps || 0));
+  }, 0);
+  return (total / tokens.length) * 4;
+};
+
+export const computePlayerRankMap = (
+  orderedPlayers: any[],
+  tokens: Record<PlayerColor, Token[]>,
+  winners: Array<{ playerId: string; rank: number }>,
+  config: GameConfig
+) => {
+  const winnerRank = new Map<string, number>();
+  winners.forEach((w) => winnerRank.set(String(w.playerId), Number(w.rank)));
+
+  const rows = orderedPlayers.map((p) => ({
+    roomPlayerId: p._id.toString(),
+    score: progressScore(tokens[p.color as PlayerColor] || [], config),
+    rank: winnerRank.get(p._id.toString()) || 999,
+  }));
+
+  const pending = rows.filter((r) => r.rank === 999).sort((a, b) => b.score - a.score);
+  const taken = new Set(winnerRank.values());
+  let nextRank = 1;
+  pending.forEach((r) => {
+    while (taken.has(nextRank)) nextRank += 1;
+    r.rank = nextRank;
+    nextRank += 1;
+  });
+
+  const map = new Map<string, number>();
+  rows.forEach((r) => map.set(r.roomPlayerId, r.rank));
+  return map;
+};
+
+const isWinnerRoomPlayer = (
+  gameBoard: { winners: Array<{ playerId: string; rank: number }> },
+  roomPlayerId: string
+) => gameBoard.winners.some((w) => String(w.playerId) === roomPlayerId);
+
+const normalizeCurrentTurnForIndividual = (
+  state: { currentPlayerIndex: number; gameBoard: any },
+  orderedPlayers: any[]
+) => {
+  let currentIndex = getCurrentIndex(
+    { currentPlayerIndex: state.currentPlayerIndex, gameBoard: state.gameBoard },
+    orderedPlayers
+  );
+  let current = orderedPlayers[currentIndex];
+  if (!current) return { currentIndex: 0, current: orderedPlayers[0] };
+
+  if (isWinnerRoomPlayer(state.gameBoard, current._id.toString())) {
+    const nextIndex = advanceGameTurn(currentIndex, orderedPlayers, state.gameBoard as any, true);
+    currentIndex = nextIndex;
+    current = orderedPlayers[currentIndex];
+    state.currentPlayerIndex = currentIndex;
+    if (current) {
+      state.gameBoard.currentPlayerId = current._id.toString();
+    }
+    state.gameBoard.diceValue = null;
+    state.gameBoard.validMoves = [];
+    state.gameBoard.lastRollAt = null;
+  } else {
+    state.currentPlayerIndex = currentIndex;
+    if (!state.gameBoard.currentPlayerId) state.gameBoard.currentPlayerId = current._id.toString();
+  }
+
+  return { currentIndex, current };
+};
+
+/**
+ * Room, its players in turn order and the board geometry. Loaded outside
+ * the room lock, like every game action did before.
+ */
+export async function loadRoomContext(roomId: string, label: string) {
+  const tRoom = perfNow();
+  const room = await Room().findById(roomId);
+  if (!room) throw new Error("ROOM_NOT_FOUND");
+  logPerf(`${label}.roomLookup`, tRoom);
+
+  const tPlayers = perfNow();
+  const players = await RoomPlayer().find({ roomId });
+  const orderedPlayers = sortPlayersByColor(players, room.settings.maxPlayers);
+  logPerf(`${label}.playersLookup`, tPlayers, { players: orderedPlayers.length });
+  const config = getGameConfig(room.settings.maxPlayers);
+
+  return { room, orderedPlayers, config };
+}
+
+/** Seats the server plays for: bots, and humans whose seat was taken over. */
+export const isServerControlled = (player: any): boolean => !!(player?.isBot || player?.autopilot);
+
+const findRoomPlayer = (orderedPlayers: any[], roomPlayerId: string | null) =>
+  orderedPlayers.find((p) => p._id.toString() === roomPlayerId);
+
+const resolveCurrentPlayer = (room: any, state: RuntimeRoomState, orderedPlayers: any[]) => {
+  let currentIndex = getCurrentIndex(
+    { currentPlayerIndex: state.currentPlayerIndex, gameBoard: state.gameBoard },
+    orderedPlayers
+  );
+  let current = orderedPlayers[currentIndex];
+  if (room.settings.mode !== "team") {
+    const normalized = normalizeCurrentTurnForIndividual(state, orderedPlayers);
+    currentIndex = normalized.currentIndex;
+    current = normalized.current;
+  } else {
+    state.currentPlayerIndex = currentIndex;
+    if (!state.gameBoard.currentPlayerId) state.gameBoard.currentPlayerId = current._id.toString();
+  }
+  if (!current) throw new Error("STATE_NOT_FOUND");
+  return { currentIndex, current };
+};
+
+/**
+ * Checked before the turn so a stale seated client resyncs instead of
+ * seeing NOT_YOUR_TURN or DICE_MISMATCH. Callers without a seat never get
+ * that far: they learn nothing about the board beyond NOT_YOUR_TURN.
+ */
+export const assertRevision = (state: RuntimeRoomState, orderedPlayers: any[], actor: GameActor) => {
+  if (actor.source !== "player") return;
+  if (!orderedPlayers.some((p) => p.userId.toString() === actor.userId)) throw new Error("NOT_YOUR_TURN");
+  if (actor.expectedRevision === undefined) return;
+  if (state.revision !== actor.expectedRevision) throw new Error("REVISION_MISMATCH");
+};
+
+const assertActor = (
+  roomId: string,
+  state: RuntimeRoomState,
+  current: any,
+  currentIndex: number,
+  actor: GameActor,
+  label: string
+) => {
+  if (actor.source === "timer") {
+    // The turn moved on (or the deadline was re-armed) after this timeout was scheduled.
+    if (state.gameBoard.turnDeadline !== actor.deadline) throw new Error("STALE_TIMEOUT");
+    return;
+  }
+  if (actor.source === "bot" || actor.source === "autopilot") {
+    if (!isServerControlled(current) || current._id.toString() !== actor.roomPlayerId) {
+      throw new Error("NOT_YOUR_TURN");
+    }
+    if (state.revision !== actor.revision) throw new Error("STALE_TIMEOUT");
+    return;
+  }
+  if (current.userId.toString() === actor.userId) return;
+  if (PERF_DEBUG) {
+    console.warn(`[turn-mismatch][${label}]`, {
+      roomId,
+      expectedUserId: current.userId.toString(),
+      actualUserId: actor.userId,
+      currentPlayerRoomPlayerId: current._id.toString(),
+      stateCurrentPlayerId: state.gameBoard.currentPlayerId,
+      currentIndex,
+    });
+  }
+  throw new Error("NOT_YOUR_TURN");
+};
+
+/**
+ * Runs once a room reaches `completed`: its MatchResult, then the rewards
+ * drawn from it. Never throws, so the request that ended the game leaves it
+ * running instead of waiting on it.
+ */
+export async function settleCompletedGame(roomId: string): Promise<void> {
+  await recordMatchResult(roomId);
+  await grantMatchRewards(roomId);
+}
+
+export async function rollForCurrentPlayer(roomId: string, actor: GameActor) {
+  const t0 = perfNow();
+  const { room, orderedPlayers, config } = await loadRoomContext(roomId, "rollDice");
+
+  const tState = perfNow();
+  const payload = await gameStateCache.runExclusive(roomId, async () => {
+    const state = await gameStateCache.getState(roomId, room.toObject());
+    if (!state) throw new Error("STATE_NOT_FOUND");
+    assertRevision(state, orderedPlayers, actor);
+    if (state.status === "paused") throw new Error("GAME_PAUSED");
+
+    const { current, currentIndex } = resolveCurrentPlayer(room, state, orderedPlayers);
+    assertActor(roomId, state, current, currentIndex, actor, "rollDice");
+    const rulesState = toRulesState(room, state, orderedPlayers);
+    assertCanRoll(rulesState, current._id.toString());
+
+    const controllableColors = getControllableColors(
+      room.settings.mode,
+      room.settings.maxPlayers,
+      current.color,
+      room.settings.teamLayout
+    );
+    const dice = await generateDiceValue({
+      roomId,
+      playerId: current._id.toString(),
+      playerColor: current.color,
+      controllableColors,
+      state,
+      gameConfig: config,
+      tuningProfile: room.settings?.tuningProfile,
+      rules: rulesState.rules,
+      homeLockedColors: getHomeLockedColors(rulesState),
+    });
+    const { nextState, events } = applyAction(rulesState, {
+      type: "roll",
+      playerId: current._id.toString(),
+      dice,
+    });
+    commitRulesResult(room, state, nextState, events, orderedPlayers);
+    const rolled = events.find((e): e is Extract<RulesEvent, { type: "dice:rolled" }> => e.type === "dice:rolled");
+    const valid = rolled?.validMoves || [];
+    const forfeited =
+      events.find((e): e is Extract<RulesEvent, { type: "turn:forfeited" }> => e.type === "turn:forfeited") || null;
+    await reportDiceOutcome(
+      roomId,
+      current._id.toString(),
+      dice,
+      valid.length > 0,
+      room.settings?.tuningProfile
+    );
+
+    const rankMap = computePlayerRankMap(
+      orderedPlayers,
+      state.gameBoard.tokens,
+      state.gameBoard.winners as any,
+      config
+    );
+    const actorRoomPlayerId = current._id.toString();
+    const actorRank = rankMap.get(actorRoomPlayerId) || orderedPlayers.length;
+    const tauntEvents: TauntEventInput[] = [];
+    if (dice === 6 && !forfeited) {
+      tauntEvents.push({
+        trigger: "rolled_six",
+        actorRoomPlayerId,
+        actorUserId: current.userId.toString(),
+        metadata: {
+          actorWasLast: actorRank >= orderedPlayers.length,
+        },
+      });
+    }
+    if (dice >= 5 && state.gameBoard.winners.length >= Math.max(1, orderedPlayers.length - 2)) {
+      tauntEvents.push({
+        trigger: "clutch_roll",
+        actorRoomPlayerId,
+        actorUserId: current.userId.toString(),
+        metadata: {
+          actorWasLast: actorRank >= orderedPlayers.length,
+        },
+      });
+    }
+    if (actorRank >= orderedPlayers.length && valid.length > 0) {
+      tauntEvents.push({
+        trigger: "last_place",
+        actorRoomPlayerId,
+        actorUserId: current.userId.toString(),
+      });
+    }
+
+    await gameStateCache.markDirty(roomId, "dice:roll", false);
+    return {
+      dice,
+      valid,
+      source: actor.source,
+      actorRoomPlayerId,
+      actorUserId: current.userId.toString(),
+      tauntEvents,
+      tauntSnapshot: {
+        tokens: state.gameBoard.tokens,
+        winners: state.gameBoard.winners as Array<{ playerId: string; rank: number }>,
+      },
+      forfeited,
+      homeUnlocked: getHomeUnlocked(nextState),
+      patch: {
+        revision: state.revision,
+        currentPlayerIndex: state.currentPlayerIndex,
+        gameBoard: {
+          diceValue: state.gameBoard.diceValue,
+          validMoves: state.gameBoard.validMoves,
+          currentPlayerId: state.gameBoard.currentPlayerId,
+          lastRollAt: state.gameBoard.lastRollAt,
+          turnDeadline: state.gameBoard.turnDeadline,
+          consecutiveSixes: state.gameBoard.consecutiveSixes,
+          ...(forfeited?.rolledBack
+            ? {
+                tokens: state.gameBoard.tokens,
+                winners: state.gameBoard.winners,
+                captureCounts: state.gameBoard.captureCounts,
+                homeUnlocked: getHomeUnlocked(nextState),
+              }
+            : {}),
+        },
+      },
+    };
+  });
+  logPerf("rollDice.stateUpdate", tState);
+  armTurnTimer(
+    roomId,
+    payload.patch.gameBoard.turnDeadline,
+    findRoomPlayer(orderedPlayers, payload.patch.gameBoard.currentPlayerId),
+    payload.patch.revision
+  );
+
+  const tEmit = perfNow();
+  emitRoomUpdate(room._id.toString(), {
+    type: payload.forfeited ? "turn:three-sixes" : "dice:roll",
+    source: actor.source,
+    dice: payload.dice,
+    rolledBack: payload.forfeited ? payload.forfeited.rolledBack : undefined,
+    patch: payload.patch,
+  });
+  await recordGameEvent({
+    roomId: room._id.toString(),
+    type: "dice:roll",
+    actorUserId: payload.actorUserId,
+    actorRoomPlayerId: payload.actorRoomPlayerId,
+    revision: payload.patch.revision,
+    payload: {
+      dice: payload.dice,
+      validMoves: payload.valid,
+      source: actor.source,
+    },
+  });
+  if (payload.forfeited) {
+    await recordGameEvent({
+      roomId: room._id.toString(),
+      type: "turn:three-sixes",
+      actorUserId: payload.actorUserId,
+      actorRoomPlayerId: payload.actorRoomPlayerId,
+      revision: payload.patch.revision,
+      payload: {
+        rolledBack: payload.forfeited.rolledBack,
+        penalty: normalizeHouseRules(room.settings?.rules).threeSixesPenalty,
+        nextPlayerId: payload.patch.gameBoard.currentPlayerId,
+        homeUnlocked: payload.homeUnlocked,
+      },
+    });
+  }
+  if (payload.tauntEvents?.length) {
+    await processTauntEvents({
+      room: toTauntRoomSnapshot(
+        room._id.toString(),
+        room,
+        orderedPlayers,
+        payload.tauntSnapshot.tokens,
+        payload.tauntSnapshot.winners
+      ),
+      roomTauntMode: (room.settings as any)?.tauntMode,
+      events: payload.tauntEvents,
+    });
+  }
+  logPerf("rollDice.emit", tEmit);
+  logPerf("rollDice.total", t0);
+  return payload;
+}
+
+export async function moveForCurrentPlayer(roomId: string, actor: GameActor, input: MoveInput) {
+  const t0 = perfNow();
+  const { tokenId, color: moveColor, diceValue, enterHome } = input;
+  const { room, orderedPlayers, config } = await loadRoomContext(roomId, "makeMove");
+
+  const tState = perfNow();
+  const movePayload = await gameStateCache.runExclusive(roomId, async () => {
+    const state = await gameStateCache.getState(roomId, room.toObject());
+    if (!state) throw new Error("STATE_NOT_FOUND");
+    assertRevision(state, orderedPlayers, actor);
+    if (state.status === "paused") throw new Error("GAME_PAUSED");
+
+    const { current, currentIndex } = resolveCurrentPlayer(room, state, orderedPlayers);
+    assertActor(roomId, state, current, currentIndex, actor, "makeMove");
+    const beforeTokens: Record<PlayerColor, Token[]> = JSON.parse(JSON.stringify(state.gameBoard.tokens || {}));
+    const beforeWinners = [...(state.gameBoard.winners as Array<{ playerId: string; rank: number }>)];
+    const { nextState, events } = applyAction(toRulesState(room, state, orderedPlayers), {
+      type: "move",
+      playerId: current._id.toString(),
+      tokenId,
+      color: moveColor,
+      diceValue,
+      enterHome: enterHome !== false,
+    });
+
+    const movedToken = (beforeTokens[moveColor] || []).find((t: Token) => t.id === tokenId);
+    const forcedStack = movedToken ? getForcedStack(beforeTokens[moveColor] || [], movedToken, config) : null;
+    const effectiveDice = forcedStack ? diceValue / 2 : diceValue;
+    const movingTokenIds = forcedStack || [tokenId];
+    const workingTokens = nextState.tokens;
+    const mergedCaptured = events
+      .filter((e): e is Extract<RulesEvent, { type: "token:captured" }> => e.type === "token:captured")
+      .map((e) => e.token);
+    const capturedToken = mergedCaptured[0];
+    const releasedFromBase = events.some((e) => e.type === "token:released");
+    const enteredSafeCell = events.some(
+      (e) =>
+        e.type === "token:moved" &&
+        (e.fromStatus === "active" || e.fromStatus === "safe") &&
+        e.from >= 0 &&
+        e.from < config.TRACK_LENGTH &&
+        e.toStatus === "safe"
+    );
+
+    if (mergedCaptured.length > 0) {
+      const capturedVictims = Array.from(
+        new Map(
+          mergedCaptured
+            .map((c) => {
+              const victim = orderedPlayers.find((p) => p.color === c.color);
+              if (!victim?._id) return null;
+              return [
+                victim._id.toString(),
+                { playerId: victim._id.toString(), color: c.color },
+              ] as const;
+            })
+            .filter((entry): entry is readonly [string, { playerId: string; color: PlayerColor }] => !!entry)
+        ).values()
+      );
+      await reportCaptureOutcome(roomId, current._id.toString(), current.color, capturedVictims);
+    }
+
+    commitRulesResult(room, state, nextState, events, orderedPlayers);
+
+    const hasWon = checkWinCondition(state.gameBoard.tokens, moveColor);
+    const gameCompleted = events.some((e) => e.type === "game:completed");
+    const shouldGrantExtraTurn = events.some((e) => e.type === "turn:extra");
+
+    await gameStateCache.markDirty(roomId, "move", gameCompleted);
+    const tokenPatch: Partial<Record<PlayerColor, Token[]>> = {
+      [moveColor]: workingTokens[moveColor],
+    };
+    if (mergedCaptured.length > 0) {
+      Array.from(new Set(mergedCaptured.map((c) => c.color))).forEach((color) => {
+        tokenPatch[color] = workingTokens[color];
+      });
+    }
+
+    const actorRoomPlayerId = current._id.toString();
+    const rankBefore = computePlayerRankMap(orderedPlayers, beforeTokens, beforeWinners, config);
+    const rankAfter = computePlayerRankMap(
+      orderedPlayers,
+      workingTokens,
+      state.gameBoard.winners as Array<{ playerId: string; rank: number }>,
+      config
+    );
+    const actorRankBefore = rankBefore.get(actorRoomPlayerId) || orderedPlayers.length;
+    const actorRankAfter = rankAfter.get(actorRoomPlayerId) || orderedPlayers.length;
+    const leaderBefore = Array.from(rankBefore.entries()).sort((a, b) => a[1] - b[1])[0]?.[0];
+
+    const tauntEvents: TauntEventInput[] = [];
+    if (releasedFromBase) {
+      tauntEvents.push({
+        trigger: "released_token",
+        actorRoomPlayerId,
+        actorUserId: current.userId.toString(),
+        metadata: {
+          actorWasLast: actorRankBefore >= orderedPlayers.length,
+        },
+      });
+    }
+    if (enteredSafeCell) {
+      tauntEvents.push({
+        trigger: "entered_safe",
+        actorRoomPlayerId,
+        actorUserId: current.userId.toString(),
+      });
+    }
+    if (actorRankBefore !== 1 && actorRankAfter === 1) {
+      tauntEvents.push({
+        trigger: "lead_change",
+        actorRoomPlayerId,
+        actorUserId: current.userId.toString(),
+      });
+    }
+    if (actorRankBefore >= orderedPlayers.length && actorRankAfter < actorRankBefore) {
+      tauntEvents.push({
+        trigger: "last_place",
+        actorRoomPlayerId,
+        actorUserId: current.userId.toString(),
+      });
+    }
+    if (hasWon || state.gameBoard.winners.length >= Math.max(1, orderedPlayers.length - 1)) {
+      tauntEvents.push({
+        trigger: "near_win",
+        actorRoomPlayerId,
+        actorUserId: current.userId.toString(),
+      });
+    }
+
+    const capturedVictimRoomPlayerIds = Array.from(
+      new Set(
+        mergedCaptured
+          .map((c) => orderedPlayers.find((p) => p.color === c.color)?._id?.toString())
+          .filter((value): value is string => !!value)
+      )
+    );
+    for (const victimRoomPlayerId of capturedVictimRoomPlayerIds) {
+      const victim = orderedPlayers.find((p) => p._id.toString() === victimRoomPlayerId);
+      if (!victim) continue;
+      const revengeActive = await isRevengeKill(roomId, actorRoomPlayerId, victimRoomPlayerId);
+      tauntEvents.push({
+        trigger: revengeActive ? "revenge_kill" : "captured",
+        actorRoomPlayerId,
+        actorUserId: current.userId.toString(),
+        targetRoomPlayerId: victimRoomPlayerId,
+        targetUserId: victim.userId.toString(),
+        metadata: {
+          revengeActive,
+          actorWasLast: actorRankBefore >= orderedPlayers.length,
+          targetWasLeader: leaderBefore === victimRoomPlayerId,
+        },
+      });
+      tauntEvents.push({
+        trigger: "got_captured",
+        actorRoomPlayerId: victimRoomPlayerId,
+        actorUserId: victim.userId.toString(),
+        targetRoomPlayerId: actorRoomPlayerId,
+        targetUserId: current.userId.toString(),
+        metadata: {
+          byUser: current.userId.toString(),
+        },
+      });
+    }
+
+    return {
+      board: state.gameBoard,
+      actorRoomPlayerId,
+      actorUserId: current.userId.toString(),
+      capturedToken: capturedToken || null,
+      capturedTokens: mergedCaptured,
+      path: events.flatMap((e) =>
+        e.type === "token:moved"
+          ? [{ token: e.token, from: e.from, to: e.to, fromStatus: e.fromStatus, toStatus: e.toStatus }]
+          : e.type === "token:released"
+            ? [{
+                token: e.token,
+                from: -1,
+                to: e.to,
+                fromStatus: "base",
+                toStatus: nextState.tokens[e.token.color]?.find((t) => t.id === e.token.id)?.status ?? null,
+              }]
+            : []
+      ),
+      captures: events.flatMap((e) => (e.type === "token:captured" ? [{ token: e.token, by: e.by, at: e.at }] : [])),
+      effectiveDice,
+      movingTokenIds,
+      earnedExtraTurn: shouldGrantExtraTurn,
+      gameCompleted,
+      tauntEvents,
+      tauntSnapshot: {
+        tokens: workingTokens,
+        winners: state.gameBoard.winners as Array<{ playerId: string; rank: number }>,
+      },
+      capturedVictimRoomPlayerIds,
+      homeUnlocked: getHomeUnlocked(nextState),
+      patch: {
+        revision: state.revision,
+        status: state.status,
+        currentPlayerIndex: state.currentPlayerIndex,
+        gameBoard: {
+          tokens: tokenPatch,
+          currentPlayerId: state.gameBoard.currentPlayerId,
+          diceValue: state.gameBoard.diceValue,
+          validMoves: state.gameBoard.validMoves,
+          winners: state.gameBoard.winners,
+          lastRollAt: state.gameBoard.lastRollAt,
+          turnDeadline: state.gameBoard.turnDeadline,
+          captureCounts: state.gameBoard.captureCounts,
+          homeUnlocked: getHomeUnlocked(nextState),
+        },
+      },
+    };
+  });
+  logPerf("makeMove.stateUpdate", tState);
+  armTurnTimer(
+    roomId,
+    movePayload.patch.gameBoard.turnDeadline,
+    findRoomPlayer(orderedPlayers, movePayload.patch.gameBoard.currentPlayerId),
+    movePayload.patch.revision
+  );
+
+  const tEmit = perfNow();
+  emitRoomUpdate(room._id.toString(), {
+    type: "move",
+    source: actor.source,
+    color: moveColor,
+    tokenId,
+    diceValue,
+    patch: movePayload.patch,
+  });
+  await recordGameEvent({
+    roomId: room._id.toString(),
+    type: "move",
+    actorUserId: movePayload.actorUserId,
+    actorRoomPlayerId: movePayload.actorRoomPlayerId,
+    revision: movePayload.patch.revision,
+    payload: {
+      tokenId,
+      color: moveColor,
+      diceValue,
+      enterHome: enterHome !== false,
+      source: actor.source,
+      path: movePayload.path,
+      captures: movePayload.captures,
+      effectiveDice: movePayload.effectiveDice,
+      movingTokenIds: movePayload.movingTokenIds,
+      capturedToken: movePayload.capturedToken,
+      capturedTokens: movePayload.capturedTokens,
+      earnedExtraTurn: movePayload.earnedExtraTurn,
+      gameCompleted: movePayload.gameCompleted,
+      homeUnlocked: movePayload.homeUnlocked,
+    },
+  });
+  if (movePayload.gameCompleted) void settleCompletedGame(room._id.toString());
+  if (movePayload.capturedVictimRoomPlayerIds?.length) {
+    for (const victimRoomPlayerId of movePayload.capturedVictimRoomPlayerIds) {
+      await recordTauntCaptureMemory(room._id.toString(), movePayload.actorRoomPlayerId, victimRoomPlayerId);
+    }
+  }
+  if (movePayload.tauntEvents?.length) {
+    await processTauntEvents({
+      room: toTauntRoomSnapshot(
+        room._id.toString(),
+        room,
+        orderedPlayers,
+        movePayload.tauntSnapshot.tokens,
+        movePayload.tauntSnapshot.winners
+      ),
+      roomTauntMode: (room.settings as any)?.tauntMode,
+      events: movePayload.tauntEvents,
+    });
+  }
+  logPerf("makeMove.emit", tEmit);
+  logPerf("makeMove.total", t0, { tokenId, color: moveColor, diceValue });
+  return movePayload;
+}
+
+export async function passForCurrentPlayer(roomId: string, actor: GameActor) {
+  const t0 = perfNow();
+  const { room, orderedPlayers } = await loadRoomContext(roomId, "advanceTurn");
+
+  const tState = perfNow();
+  const payload = await gameStateCache.runExclusive(roomId, async () => {
+    const state = await gameStateCache.getState(roomId, room.toObject());
+    if (!state) throw new Error("STATE_NOT_FOUND");
+    assertRevision(state, orderedPlayers, actor);
+    if (state.status === "paused") throw new Error("GAME_PAUSED");
+
+    const { current, currentIndex } = resolveCurrentPlayer(room, state, orderedPlayers);
+    assertActor(roomId, state, current, currentIndex, actor, "advanceTurn");
+
+    // Players may only give up a rolled dice once their move time has run out.
+    if (actor.source === "player" && state.gameBoard.diceValue !== null && state.gameBoard.lastRollAt) {
+      const deadline = state.gameBoard.turnDeadline
+        ? new Date(state.gameBoard.turnDeadline).getTime()
+        : new Date(state.gameBoard.lastRollAt).getTime() +
+          normalizeTurnTimer(room.settings?.turnTimer).moveSeconds * 1000;
+      if (Date.now() < deadline) {
+        throw new Error("MOVE_TIME_NOT_EXPIRED");
+      }
+    }
+
+    const { nextState, events } = applyAction(toRulesState(room, state, orderedPlayers), {
+      type: "pass",
+      playerId: current._id.toString(),
+    });
+    commitRulesResult(room, state, nextState, events, orderedPlayers);
+    const next = orderedPlayers[state.currentPlayerIndex];
+
+    await gameStateCache.markDirty(roomId, "turn:advance", false);
+    return {
+      source: actor.source,
+      actorRoomPlayerId: current._id.toString(),
+      actorUserId: current.userId.toString(),
+      previousPlayerId: current._id.toString(),
+      currentPlayerId: state.gameBoard.currentPlayerId,
+      nextPlayerId: next._id.toString(),
+      patch: {
+        revision: state.revision,
+        currentPlayerIndex: state.currentPlayerIndex,
+        gameBoard: {
+          currentPlayerId: state.gameBoard.currentPlayerId,
+          diceValue: state.gameBoard.diceValue,
+          validMoves: state.gameBoard.validMoves,
+          lastRollAt: state.gameBoard.lastRollAt,
+          turnDeadline: state.gameBoard.turnDeadline,
+        },
+      },
+    };
+  });
+  logPerf("advanceTurn.stateUpdate", tState);
+  armTurnTimer(
+    roomId,
+    payload.patch.gameBoard.turnDeadline,
+    findRoomPlayer(orderedPlayers, payload.patch.gameBoard.currentPlayerId),
+    payload.patch.revision
+  );
+
+  const tEmit = perfNow();
+  emitRoomUpdate(room._id.toString(), { type: "turn:advance", source: actor.source, patch: payload.patch });
+  await recordGameEvent({
+    roomId: room._id.toString(),
+    type: "turn:advance",
+    actorUserId: payload.actorUserId,
+    actorRoomPlayerId: payload.actorRoomPlayerId,
+    revision: payload.patch.revision,
+    payload: {
+      previousPlayerId: payload.previousPlayerId,
+      nextPlayerId: payload.nextPlayerId,
+      source: actor.source,
+    },
+  });
+  logPerf("advanceTurn.emit", tEmit);
+  logPerf("advanceTurn.total", t0);
+  return payload;
+}
+
+const RESIGN_CONFIRM_MS = Number(process.env.RESIGN_CONFIRM_MS || 60000);
+
+// Team resign requests waiting on the teammate, one roomRequestStore entry per requesting seat.
+const resignRequest = (roomPlayerId: string) => `resign:${roomPlayerId}`;
+
+/**
+ * Hand the turn on when its holder resigned while the game was paused.
+ * Call on resume, once the state is back in progress; true when it moved.
+ */
+export const passResignedTurn = (room: any, state: RuntimeRoomState, orderedPlayers: any[]): boolean => {
+  const currentId = state.gameBoard.currentPlayerId;
+  if (!currentId || !(state.gameBoard.resigned || []).includes(currentId)) return false;
+  const { nextState, events } = applyAction(toRulesState(room, state, orderedPlayers), {
+    type: "pass",
+    playerId: currentId,
+  });
+  commitRulesResult(room, state, nextState, events, orderedPlayers);
+  return true;
+};
+
+export type ResignOutcome =
+  | { status: "pending"; roomPlayerId: string; teammateIds: string[]; expiresAt: string }
+  | { status: "resigned"; roomPlayerId: string; patch: any };
+
+const findTeammates = (room: any, orderedPlayers: any[], seat: any) => {
+  if (room.settings.mode !== "team") return [];
+  const colors = getControllableColors("team", room.settings.maxPlayers, seat.color, room.settings.teamLayout);
+  return orderedPlayers.filter((p) => colors.includes(p.color) && p._id.toString() !== seat._id.toString());
+};
+
+const commitResign = async (room: any, orderedPlayers: any[], seat: any) => {
+  const roomId = room._id.toString();
+  const payload = await gameStateCache.runExclusive(roomId, async () => {
+    const state = await gameStateCache.getState(roomId, room.toObject());
+    if (!state) throw new Error("STATE_NOT_FOUND");
+
+    const before = {
+      currentPlayerId: state.gameBoard.currentPlayerId,
+      lastRollAt: state.gameBoard.lastRollAt,
+      turnDeadline: state.gameBoard.turnDeadline,
+    };
+    const { nextState, events } = applyAction(toRulesState(room, state, orderedPlayers), {
+      type: "resign",
+      playerId: seat._id.toString(),
+    });
+    commitRulesResult(room, state, nextState, events, orderedPlayers);
+    // Someone else's turn carries on untouched, clock included.
+    if (nextState.status !== "completed" && state.gameBoard.currentPlayerId === before.currentPlayerId) {
+      state.gameBoard.lastRollAt = before.lastRollAt;
+      state.gameBoard.turnDeadline = before.turnDeadline;
+    }
+    if (nextState.status === "completed") state.gameBoard.pause = null;
+
+    const gameCompleted = events.some((e) => e.type === "game:completed");
+    await gameStateCache.markDirty(roomId, "player:resign", gameCompleted);
+    return {
+      resignedPlayerIds: events.flatMap((e) => (e.type === "player:resigned" ? [e.playerId] : [])),
+      gameCompleted,
+      patch: {
+        revision: state.revision,
+        status: state.status,
+        currentPlayerIndex: state.currentPlayerIndex,
+        gameBoard: {
+          tokens: state.gameBoard.tokens,
+          currentPlayerId: state.gameBoard.currentPlayerId,
+          diceValue: state.gameBoard.diceValue,
+          validMoves: state.gameBoard.validMoves,
+          winners: state.gameBoard.winners,
+          resigned: state.gameBoard.resigned,
+          lastRollAt: state.gameBoard.lastRollAt,
+          turnDeadline: state.gameBoard.turnDeadline,
+        },
+      },
+    };
+  });
+  // A paused game stays without timers and bot turns until it resumes.
+  if (payload.patch.status !== "paused") {
+    armTurnTimer(
+      roomId,
+      payload.patch.gameBoard.turnDeadline,
+      findRoomPlayer(orderedPlayers, payload.patch.gameBoard.currentPlayerId),
+      payload.patch.revision
+    );
+  }
+
+  emitRoomUpdate(roomId, {
+    type: "player:resign",
+    roomPlayerId: seat._id.toString(),
+    resignedPlayerIds: payload.resignedPlayerIds,
+    patch: payload.patch,
+  });
+  await recordGameEvent({
+    roomId,
+    type: "player:resign",
+    actorUserId: seat.userId.toString(),
+    actorRoomPlayerId: seat._id.toString(),
+    revision: payload.patch.revision,
+    payload: {
+      resignedPlayerIds: payload.resignedPlayerIds,
+      winners: payload.patch.gameBoard.winners,
+      gameCompleted: payload.gameCompleted,
+    },
+  });
+  if (payload.gameCompleted) void settleCompletedGame(roomId);
+  return payload;
+};
+
+/**
+ * Resign a player's seat. In team mode the whole team goes out, so a
+ * teammate has to confirm by resigning too within RESIGN_CONFIRM_MS. Bot
+ * and autopiloted teammates have no say.
+ */
+export async function resignForPlayer(roomId: string, userId: string): Promise<ResignOutcome> {
+  const { room, orderedPlayers } = await loadRoomContext(roomId, "resign");
+  const seat = orderedPlayers.find((p) => p.userId.toString() === userId);
+  if (!seat) throw new Error("NOT_IN_ROOM");
+  if (room.status !== "in_progress" && room.status !== "paused") throw new Error("GAME_NOT_IN_PROGRESS");
+
+  const seatId = seat._id.toString();
+  const teammates = findTeammates(room, orderedPlayers, seat).filter((p) => !isServerControlled(p));
+  if (teammates.length > 0) {
+    const requests = teammates.map((p) => resignRequest(p._id.toString()));
+    const asked = await Promise.all(requests.map((name) => roomRequestStore.get<number>(roomId, name)));
+    const teammateAsked = asked.some((expiresAt) => (expiresAt || 0) > Date.now());
+    if (!teammateAsked) {
+      const expiresAt = Date.now() + RESIGN_CONFIRM_MS;
+      await roomRequestStore.set(roomId, resignRequest(seatId), expiresAt, RESIGN_CONFIRM_MS);
+      const outcome: ResignOutcome = {
+        status: "pending",
+        roomPlayerId: seatId,
+        teammateIds: teammates.map((p) => p._id.toString()),
+        expiresAt: new Date(expiresAt).toISOString(),
+      };
+      emitRoomUpdate(roomId, { type: "resign:requested", ...outcome });
+      return outcome;
+    }
+    await Promise.all(requests.map((name) => roomRequestStore.delete(roomId, name)));
+  }
+  await roomRequestStore.delete(roomId, resignRequest(seatId));
+
+  const payload = await commitResign(room, orderedPlayers, seat);
+  return { status: "resigned", roomPlayerId: seatId, patch: payload.patch };
+}
+
+/** Withdraw a team resign request, or turn down the teammate's. */
+export async function cancelResignRequest(roomId: string, userId: string): Promise<boolean> {
+  const { room, orderedPlayers } = await loadRoomContext(roomId, "resignCancel");
+  const seat = orderedPlayers.find((p) => p.userId.toString() === userId);
+  if (!seat) throw new Error("NOT_IN_ROOM");
+  const requests = [seat, ...findTeammates(room, orderedPlayers, seat)].map((p) => resignRequest(p._id.toString()));
+  const cancelled = (await Promise.all(requests.map((name) => roomRequestStore.delete(roomId, name)))).some(Boolean);
+  if (cancelled) emitRoomUpdate(roomId, { type: "resign:cancelled", roomPlayerId: seat._id.toString() });
+  return cancelled;
+}
+
+/**
+ * Act for the current player once their deadline passes: roll if they have
+ * not rolled yet, otherwise play the auto-move, otherwise skip the turn.
+ */
+export async function handleTurnTimeout(roomId: string, deadline: string): Promise<void> {
+  const actor: GameActor = { source: "timer", deadline };
+  try {
+    const { room, orderedPlayers } = await loadRoomContext(roomId, "turnTimeout");
+    const state = await gameStateCache.getState(roomId, room.toObject());
+    if (!state || state.status !== "in_progress" || state.gameBoard.turnDeadline !== deadline) return;
+
+    if (state.gameBoard.diceValue === null) {
+      await rollForCurrentPlayer(roomId, actor);
+      return;
+    }
+    const choice = chooseAutoMove(toRulesState(room, state, orderedPlayers));
+    if (choice) {
+      try {
+        await moveForCurrentPlayer(roomId, actor, {
+          tokenId: choice.id,
+          color: choice.color,
+          diceValue: state.gameBoard.diceValue,
+        });
+        return;
+      } catch (e) {
+        if (e instanceof Error && e.message === "STALE_TIMEOUT") return;
+        console.warn("[turn-timer] auto-move failed, skipping turn", { roomId, error: e });
+      }
+    }
+    await passForCurrentPlayer(roomId, actor);
+  } catch (e) {
+    if (e instanceof Error && (e.message === "STALE_TIMEOUT" || e.message === "ROOM_NOT_FOUND")) return;
+    console.error("Turn timeout error:", e);
+  }
+}
+
+/**
+ * Take a bot or autopiloted seat's turn after a short pause: roll, then play
+ * the move its difficulty picks (greedy for autopilot). Armed for one board
+ * revision; if anything goes wrong the room's turn timer, when it has one,
+ * takes over so the game cannot stall.
+ */
+export async function playBotTurn(
+  roomId: string,
+  roomPlayerId: string,
+  revision: number,
+  deadline: string | null
+): Promise<void> {
+  try {
+    const { room, orderedPlayers } = await loadRoomContext(roomId, "botTurn");
+    const state = await gameStateCache.getState(roomId, room.toObject());
+    if (!state || state.status !== "in_progress" || state.revision !== revision) return;
+    const bot = findRoomPlayer(orderedPlayers, roomPlayerId);
+    if (!isServerControlled(bot)) return;
+    const actor: GameActor = { source: bot.isBot ? "bot" : "autopilot", roomPlayerId, revision };
+
+    if (state.gameBoard.diceValue === null) {
+      await rollForCurrentPlayer(roomId, actor);
+      return;
+    }
+    const choice = chooseBotMove(toRulesState(room, state, orderedPlayers), bot.botDifficulty || "greedy");
+    if (choice) {
+      await moveForCurrentPlayer(roomId, actor, {
+        tokenId: choice.id,
+        color: choice.color,
+        diceValue: state.gameBoard.diceValue,
+      });
+      return;
+    }
+    await passForCurrentPlayer(roomId, actor);
+  } catch (e) {
+    if (
+      e instanceof Error &&
+      (e.message === "NOT_YOUR_TURN" || e.message === "STALE_TIMEOUT" || e.message === "ROOM_NOT_FOUND")
+    ) {
+      return;
+    }
+    console.error("Bot turn error:", e);
+    scheduleTurnTimeout(roomId, deadline, (expired) => {
+      void handleTurnTimeout(roomId, expired);
+    });
+  }
+}
+
+/**
+ * Schedule whatever happens next on this room's turn: a bot or autopiloted
+ * seat plays shortly on board `revision`, timer or not; a human seat gets
+ * the turn timer when the room has one.
+ */
+export const armTurnTimer = (
+  roomId: string,
+  deadline: string | null,
+  currentPlayer: any,
+  revision: number
+) => {
+  if (isServerControlled(currentPlayer)) {
+    const botDelayAt = Date.now() + BOT_TURN_DELAY_MS;
+    const botAt = deadline ? Math.min(new Date(deadline).getTime(), botDelayAt) : botDelayAt;
+    scheduleTurnTimeout(roomId, new Date(botAt).toISOString(), () => {
+      void playBotTurn(roomId, currentPlayer._id.toString(), revision, deadline);
+    });
+    return;
+  }
+  scheduleTurnTimeout(roomId, deadline, (expired) => {
+    void handleTurnTimeout(roomId, expired);
+  });
+};
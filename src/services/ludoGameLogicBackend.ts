@@ -1,12 +1,12 @@
-import { Types } from "mongoose";
 import {
   PlayerColor,
   Token,
   GameConfig,
-  TRACK_COORDS,
-  SAFE_INDICES,
 } from "../config/ludoConfigBackend";
-import { GameBoard } from "../models/Room";
+import { DEFAULT_HOUSE_RULES, HouseRules } from "../game-logic/rules-engine/houseRules";
+
+type TurnPlayer = { _id: { toString(): string } | string; color: PlayerColor };
+type TurnBoard = { winners: Array<{ playerId: { toString(): string } | string }> };
 
 /**
  * Find all tokens that can move
@@ -16,15 +16,18 @@ export function findValidMoves(
   currentPlayerColor: PlayerColor,
   diceValue: number,
   gameConfig: GameConfig,
-  controllableColors?: PlayerColor[]
+  controllableColors?: PlayerColor[],
+  rules: HouseRules = DEFAULT_HOUSE_RULES,
+  homeLockedColors: PlayerColor[] = []
 ): { id: number; color: PlayerColor }[] {
   const result: { id: number; color: PlayerColor }[] = [];
   const controlledColors = Array.from(
     new Set((controllableColors && controllableColors.length ? controllableColors : [currentPlayerColor]))
   );
   const controlledSet = new Set(controlledColors);
-  const teamBlockadeRulesEnabled = controlledSet.size > 1;
-  const trackLength = TRACK_COORDS.length;
+  const blockadeRulesEnabled = controlledSet.size > 1 || rules.blockadesInIndividual;
+  const trackLength = gameConfig.TRACK_LENGTH;
+  const safeIndices = gameConfig.SAFE_INDICES;
   const rotationThreshold = Math.max(1, trackLength - 2);
 
   const hasEnemyBlockadeAt = (position: number, alliedSet: Set<PlayerColor>) => {
@@ -32,7 +35,7 @@ export function findValidMoves(
       if (alliedSet.has(enemyColor as PlayerColor)) continue;
       const enemyTokens = tokens[enemyColor as PlayerColor] || [];
       const count = enemyTokens.filter((t) => {
-        const inTrack = typeof t.position === "number" && t.position >= 0 && t.position < 52;
+        const inTrack = typeof t.position === "number" && t.position >= 0 && t.position < trackLength;
         const inPlay = t.status === "active" || t.status === "safe";
         return inTrack && inPlay && t.position === position;
       }).length;
@@ -44,12 +47,9 @@ export function findValidMoves(
   for (const color of controlledColors) {
     const playerTokens = tokens[color] || [];
     const homeCellCount = Math.max(1, gameConfig.HOME_RUNS[color].length - 1);
-    const entryCoord = gameConfig.HOME_ENTRANCES[color];
-    const entryIndex = TRACK_COORDS.findIndex(
-      ([r, c]) => r === entryCoord[0] && c === entryCoord[1]
-    );
-    const entryIndexAdjusted =
-      entryIndex === -1 ? -1 : (entryIndex - 2 + trackLength) % trackLength;
+    const entryIndexAdjusted = gameConfig.HOME_ENTRY_INDICES[color] ?? -1;
+    // Locked tokens skip the home entrance and keep circling the track.
+    const homeLocked = homeLockedColors.includes(color);
 
     for (const token of playerTokens) {
     if (token.status === "home") continue;
@@ -57,56 +57,56 @@ export function findValidMoves(
     const tokenOnTrack =
       typeof token.position === "number" &&
       token.position >= 0 &&
-      token.position < 52 &&
+      token.position < trackLength &&
       (token.status === "active" || token.status === "safe");
     const stackedCount = tokenOnTrack
       ? playerTokens.filter((t) => {
           const onTrack =
             typeof t.position === "number" &&
             t.position >= 0 &&
-            t.position < 52 &&
+            t.position < trackLength &&
             (t.status === "active" || t.status === "safe");
           return onTrack && t.position === token.position;
         }).length
       : 1;
     const forcedStackMove =
-      tokenOnTrack && stackedCount >= 2 && !SAFE_INDICES.includes(token.position);
+      tokenOnTrack && stackedCount >= 2 && !safeIndices.includes(token.position);
     if (forcedStackMove && diceValue % 2 !== 0) continue;
     const effectiveDice = forcedStackMove ? diceValue / 2 : diceValue;
     if (effectiveDice < 1) continue;
 
     // --- TOKEN IN BASE ---
     if (token.status === "base") {
-      if (diceValue === 6) result.push({ id: token.id, color: token.color });
+      if (rules.releaseFaces.includes(diceValue)) result.push({ id: token.id, color: token.color });
       continue;
     }
 
     const newSteps = token.steps + effectiveDice;
 
-    if (token.position >= 52) {
-      const currentHomeIndex = token.position - 52;
+    if (token.position >= trackLength) {
+      const currentHomeIndex = token.position - trackLength;
       if (currentHomeIndex + effectiveDice > homeCellCount) continue;
       result.push({ id: token.id, color: token.color });
       continue;
     }
 
     const movingStackCount = playerTokens.filter((t) => {
-      const inTrack = typeof t.position === "number" && t.position >= 0 && t.position < 52;
+      const inTrack = typeof t.position === "number" && t.position >= 0 && t.position < trackLength;
       const inPlay = t.status === "active" || t.status === "safe";
       return inTrack && inPlay && t.position === token.position;
     }).length;
     const canBreakOrCrossBlockade = movingStackCount >= 2;
 
     const canContinueOnTrack = (() => {
-      if (token.position >= 52) return false;
+      if (token.position >= trackLength) return false;
       for (let step = 1; step <= effectiveDice; step += 1) {
         const stepPos = (token.position + step) % trackLength;
-        if (SAFE_INDICES.includes(stepPos)) continue;
-        if (teamBlockadeRulesEnabled && hasEnemyBlockadeAt(stepPos, controlledSet) && !canBreakOrCrossBlockade) {
+        if (safeIndices.includes(stepPos)) continue;
+        if (blockadeRulesEnabled && hasEnemyBlockadeAt(stepPos, controlledSet) && !canBreakOrCrossBlockade) {
           return false;
         }
       }
-      if (entryIndexAdjusted !== -1) {
+      if (entryIndexAdjusted !== -1 && !homeLocked) {
         const distanceToArrow = (entryIndexAdjusted - token.position + trackLength) % trackLength;
         const completesLapAtArrow = token.steps + distanceToArrow >= rotationThreshold;
         if (completesLapAtArrow && effectiveDice > distanceToArrow) {
@@ -119,16 +119,16 @@ export function findValidMoves(
     })();
 
     const canEnterHome = (() => {
-      if (token.position >= 52) return false;
-      if (entryIndexAdjusted === -1) return false;
+      if (token.position >= trackLength) return false;
+      if (entryIndexAdjusted === -1 || homeLocked) return false;
       const distanceToArrow = (entryIndexAdjusted - token.position + trackLength) % trackLength;
       const completesLapAtArrow = token.steps + distanceToArrow >= rotationThreshold;
       if (!completesLapAtArrow) return false;
       if (effectiveDice <= distanceToArrow) return false;
       for (let step = 1; step <= distanceToArrow; step += 1) {
         const stepPos = (token.position + step) % trackLength;
-        if (SAFE_INDICES.includes(stepPos)) continue;
-        if (teamBlockadeRulesEnabled && hasEnemyBlockadeAt(stepPos, controlledSet) && !canBreakOrCrossBlockade) {
+        if (safeIndices.includes(stepPos)) continue;
+        if (blockadeRulesEnabled && hasEnemyBlockadeAt(stepPos, controlledSet) && !canBreakOrCrossBlockade) {
           return false;
         }
       }
@@ -157,7 +157,9 @@ export function applyMove(
   gameConfig: GameConfig,
   allTokens: Record<PlayerColor, Token[]>,
   enterHome: boolean = true,
-  alliedColors?: PlayerColor[]
+  alliedColors?: PlayerColor[],
+  rules: HouseRules = DEFAULT_HOUSE_RULES,
+  homeLockedColors: PlayerColor[] = []
 ): {
   updatedToken: Token;
   capturedToken?: { id: number; color: PlayerColor };
@@ -169,21 +171,17 @@ export function applyMove(
   const alliedSet = new Set(
     Array.from(new Set((alliedColors && alliedColors.length ? alliedColors : [playerColor])))
   );
-  const teamBlockadeRulesEnabled = alliedSet.size > 1;
+  const blockadeRulesEnabled = alliedSet.size > 1 || rules.blockadesInIndividual;
 
-  const trackLength = TRACK_COORDS.length;
+  const trackLength = gameConfig.TRACK_LENGTH;
+  const safeIndices = gameConfig.SAFE_INDICES;
   const homeCellCount = Math.max(1, gameConfig.HOME_RUNS[playerColor].length - 1);
   const player = gameConfig.players.find((p) => p.id === playerColor)!;
-  const entryCoord = gameConfig.HOME_ENTRANCES[playerColor];
-  const entryIndex = TRACK_COORDS.findIndex(
-    ([r, c]) => r === entryCoord[0] && c === entryCoord[1]
-  );
-  const entryIndexAdjusted =
-    entryIndex === -1 ? -1 : (entryIndex - 2 + trackLength) % trackLength;
+  const entryIndexAdjusted = gameConfig.HOME_ENTRY_INDICES[playerColor] ?? -1;
   const rotationThreshold = Math.max(1, trackLength - 2);
 
   const movingStackCount = (allTokens[playerColor] || []).filter((t) => {
-    const inTrack = typeof t.position === "number" && t.position >= 0 && t.position < 52;
+    const inTrack = typeof t.position === "number" && t.position >= 0 && t.position < trackLength;
     const inPlay = t.status === "active" || t.status === "safe";
     return inTrack && inPlay && t.position === currentToken.position;
   }).length;
@@ -200,8 +198,8 @@ export function applyMove(
   const newSteps = updatedToken.steps + diceValue;
 
   // --- ALREADY IN HOME RUN ---
-  if (updatedToken.position >= 52) {
-    const currentHomeIndex = updatedToken.position - 52;
+  if (updatedToken.position >= trackLength) {
+    const currentHomeIndex = updatedToken.position - trackLength;
     const nextHomeIndex = currentHomeIndex + diceValue;
     if (nextHomeIndex > homeCellCount) {
       return { updatedToken };
@@ -209,17 +207,22 @@ export function applyMove(
     if (nextHomeIndex === homeCellCount) {
       updatedToken.status = "home";
       updatedToken.steps = updatedToken.steps + diceValue;
-      updatedToken.position = 58;
+      updatedToken.position = gameConfig.HOME_POSITION;
       return { updatedToken };
     }
     updatedToken.status = "safe";
     updatedToken.steps = updatedToken.steps + diceValue;
-    updatedToken.position = 52 + nextHomeIndex;
+    updatedToken.position = trackLength + nextHomeIndex;
     return { updatedToken };
   }
 
   // --- OPTIONAL HOME ENTRY (crossing entry cell) ---
-  if (enterHome && entryIndexAdjusted !== -1 && updatedToken.position < 52) {
+  if (
+    enterHome &&
+    !homeLockedColors.includes(playerColor) &&
+    entryIndexAdjusted !== -1 &&
+    updatedToken.position < trackLength
+  ) {
     const distanceToArrow = (entryIndexAdjusted - updatedToken.position + trackLength) % trackLength;
     const completesLapAtArrow = updatedToken.steps + distanceToArrow >= rotationThreshold;
     if (completesLapAtArrow && diceValue > distanceToArrow) {
@@ -228,12 +231,12 @@ export function applyMove(
         if (overshoot === homeCellCount + 1) {
           updatedToken.status = "home";
           updatedToken.steps = updatedToken.steps + diceValue;
-          updatedToken.position = 58;
+          updatedToken.position = gameConfig.HOME_POSITION;
           return { updatedToken };
         }
         updatedToken.status = "safe";
         updatedToken.steps = updatedToken.steps + diceValue;
-        updatedToken.position = 52 + (overshoot - 1);
+        updatedToken.position = trackLength + (overshoot - 1);
         return { updatedToken };
       }
     }
@@ -244,10 +247,10 @@ export function applyMove(
 
   updatedToken.steps = newSteps;
   updatedToken.position = newPos;
-  updatedToken.status = SAFE_INDICES.includes(newPos) ? "safe" : "active";
+  updatedToken.status = safeIndices.includes(newPos) ? "safe" : "active";
 
   // --- CAPTURE ---
-  if (!SAFE_INDICES.includes(newPos)) {
+  if (!rules.safeSquaresProtect || !safeIndices.includes(newPos)) {
     for (const enemyColor in allTokens) {
       if (alliedSet.has(enemyColor as PlayerColor)) continue;
 
@@ -258,15 +261,15 @@ export function applyMove(
       );
 
       if (atPos.length >= 2) {
-        if (teamBlockadeRulesEnabled && !canBreakOrCrossBlockade) {
+        if (blockadeRulesEnabled && !canBreakOrCrossBlockade) {
           return { updatedToken: currentToken };
         }
-        if (teamBlockadeRulesEnabled && canBreakOrCrossBlockade) {
+        if (blockadeRulesEnabled && canBreakOrCrossBlockade) {
           capturedTokens = atPos.map((t) => ({ id: t.id, color: t.color }));
           capturedToken = capturedTokens[0];
           break;
         }
-        // In non-team mode, keep previous behavior: stacked enemies on a cell are uncapturable.
+        // Without blockade rules, stacked enemies on a cell are uncapturable.
         continue;
       }
 
@@ -288,7 +291,8 @@ export function checkWinCondition(
   tokens: Record<PlayerColor, Token[]>,
   color: PlayerColor
 ) {
-  return tokens[color].every((t) => t.status === "home");
+  const colorTokens = tokens[color] || [];
+  return colorTokens.length > 0 && colorTokens.every((t) => t.status === "home");
 }
 
 /**
@@ -296,8 +300,8 @@ export function checkWinCondition(
  */
 export function advanceTurn(
   currentPlayerIndex: number,
-  roomPlayers: { _id: Types.ObjectId | string; color: PlayerColor }[],
-  gameBoard: GameBoard,
+  roomPlayers: TurnPlayer[],
+  gameBoard: TurnBoard,
   skipWinners: boolean = true
 ): number {
   const total = roomPlayers.length;
@@ -0,0 +1,179 @@
+import mongoose, { Types } from "mongoose";
+import { getGameConfig, PlayerColor } from "../config/ludoConfigBackend";
+import { gameStateCache } from "../state/gameStateCache";
+import { computePlayerRankMap, sortPlayersByColor } from "./gameActionService";
+
+const Room = () => mongoose.model("Room");
+const RoomPlayer = () => mongoose.model("RoomPlayer");
+const RoomTeam = () => mongoose.model("RoomTeam");
+const GameEvent = () => mongoose.model("GameEvent");
+const MatchResult = () => mongoose.model("MatchResult");
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+
+const countSixes = async (roomId: string): Promise<Map<string, number>> => {
+  const rows = await GameEvent().aggregate([
+    { $match: { roomId: new Types.ObjectId(roomId), type: "dice:roll", "payload.dice": 6 } },
+    { $group: { _id: "$actorRoomPlayerId", count: { $sum: 1 } } },
+  ]);
+  return new Map(rows.filter((r: any) => r._id).map((r: any) => [r._id.toString(), Number(r.count)]));
+};
+
+/**
+ * Write the MatchResult of a completed room. Safe to call more than once;
+ * only the first call stores anything. Failures are logged, never thrown,
+ * so a finished game never fails on its history.
+ */
+export async function recordMatchResult(roomId: string): Promise<void> {
+  try {
+    const room = await Room().findById(roomId);
+    if (!room) return;
+    const state = await gameStateCache.getState(roomId, room.toObject());
+    if (!state || state.status !== "completed") return;
+
+    const players = await RoomPlayer().find({ roomId }).populate("userId", "displayName");
+    const orderedPlayers = sortPlayersByColor(players, room.settings.maxPlayers);
+    const board = state.gameBoard;
+    const ranks = computePlayerRankMap(orderedPlayers, board.tokens, board.winners, getGameConfig(room.settings.maxPlayers));
+    const sixes = await countSixes(roomId);
+    const start = await GameEvent().findOne({ roomId, type: "game:start" }).sort({ createdAt: -1 }).select("createdAt").lean<any>();
+    const startedAt: Date = start?.createdAt ?? room.createdAt;
+    // The move or resign that finished the game, so a late write (say, after a restart) keeps the real end.
+    const end = await GameEvent()
+      .findOne({ roomId, type: { $in: ["move", "player:resign"] }, "payload.gameCompleted": true })
+      .sort({ createdAt: -1 })
+      .select("createdAt")
+      .lean<any>();
+    const endedAt: Date = new Date(end?.createdAt ?? room.updatedAt);
+
+    const participants = orderedPlayers.map((p) => {
+      const roomPlayerId = p._id.toString();
+      // Bot ids match no User, so populate leaves them null.
+      const user = p.isBot ? null : (p.userId as any);
+      return {
+        roomPlayerId: p._id,
+        userId: user?._id ?? p.userId,
+        isBot: !!p.isBot,
+        displayName: user?.displayName || p.displayName || "Player",
+        color: p.color,
+        teamIndex: room.settings.mode === "team" ? p.teamIndex ?? null : null,
+        rank: ranks.get(roomPlayerId) ?? orderedPlayers.length,
+        resigned: (board.resigned || []).includes(roomPlayerId),
+        captures: Number(board.captureCounts?.[roomPlayerId] || 0),
+        sixes: sixes.get(roomPlayerId) || 0,
+        tokensFinished: (board.tokens[p.color as PlayerColor] || []).filter(
+          (t) => t.status === "home" || t.status === "finished"
+        ).length,
+      };
+    });
+
+    const teamNames = new Map<number, string>(
+      room.settings.mode === "team"
+        ? (await RoomTeam().find({ roomId }).select("teamIndex name").lean<any[]>()).map((t) => [t.teamIndex, t.name])
+        : []
+    );
+    const teamIndexes = Array.from(
+      new Set(participants.map((p) => p.teamIndex).filter((idx): idx is number => typeof idx === "number"))
+    ).sort((a, b) => a - b);
+    const teams = teamIndexes.map((teamIndex) => {
+      const members = participants.filter((p) => p.teamIndex === teamIndex);
+      return {
+        teamIndex,
+        name: teamNames.get(teamIndex) || `Team ${String.fromCharCode(65 + teamIndex)}`,
+        rank: Math.min(...members.map((m) => m.rank)),
+        roomPlayerIds: members.map((m) => m.roomPlayerId),
+      };
+    });
+
+    await MatchResult().updateOne(
+      { roomId: room._id },
+      {
+        $setOnInsert: {
+          roomId: room._id,
+          mode: room.settings.mode,
+          maxPlayers: room.settings.maxPlayers,
+          tuningProfile: room.settings.tuningProfile || "",
+          participants,
+          participantUserIds: participants.filter((p) => !p.isBot).map((p) => p.userId),
+          teams,
+          startedAt,
+          endedAt,
+          durationMs: Math.max(0, endedAt.getTime() - new Date(startedAt).getTime()),
+        },
+      },
+      { upsert: true }
+    );
+  } catch (error) {
+    console.error(`[match-result] failed to record room=${roomId}:`, error);
+  }
+}
+
+export interface MatchCursor {
+  endedAt: Date;
+  id: Types.ObjectId;
+}
+
+/** `<endedAt ms>_<match id>`, so matches that ended in the same millisecond still page apart. */
+export const formatMatchCursor = (row: any) => `${new Date(row.endedAt).getTime()}_${String(row._id)}`;
+
+export const parseMatchCursor = (raw: string): MatchCursor | null => {
+  const [ts, id] = raw.split("_");
+  const endedAt = Number(ts);
+  if (!Number.isFinite(endedAt) || !id || !Types.ObjectId.isValid(id)) return null;
+  return { endedAt: new Date(endedAt), id: new Types.ObjectId(id) };
+};
+
+/** Matches of `userId` strictly after `before` in (endedAt, _id) descending order. */
+export const matchPageFilter = (userId: string, before?: MatchCursor) => {
+  const filter: any = { participantUserIds: new Types.ObjectId(userId) };
+  if (before) {
+    filter.$or = [
+      { endedAt: { $lt: before.endedAt } },
+      { endedAt: before.endedAt, _id: { $lt: before.id } },
+    ];
+  }
+  return filter;
+};
+
+/** A user's finished games, newest first. Pass `nextCursor` back as `before` for the next page. */
+export async function listUserMatches(userId: string, before?: MatchCursor, limit?: number) {
+  const take = Math.min(MAX_LIMIT, Math.max(1, Number(limit) || DEFAULT_LIMIT));
+
+  const rows = await MatchResult()
+    .find(matchPageFilter(userId, before))
+    .sort({ endedAt: -1, _id: -1 })
+    .limit(take)
+    .select("-participantUserIds -__v")
+    .lean<any[]>();
+  const nextCursor = rows.length === take ? formatMatchCursor(rows[rows.length - 1]) : null;
+
+  return {
+    matches: rows.map((row) => ({
+      ...row,
+      id: String(row._id),
+      me: row.participants.find((p: any) => !p.isBot && String(p.userId) === userId) ?? null,
+    })),
+    nextCursor,
+  };
+}
+
+/** One match, visible only to the humans who played in it. */
+export const matchReadFilter = (matchId: string, userId: string) => ({
+  _id: new Types.ObjectId(matchId),
+  participantUserIds: new Types.ObjectId(userId),
+});
+
+/** A finished game the user played in. Anyone else gets MATCH_NOT_FOUND, so ids do not leak who played. */
+export async function getMatchResult(matchId: string, userId: string) {
+  const match = await MatchResult()
+    .findOne(matchReadFilter(matchId, userId))
+    .select("-participantUserIds -__v")
+    .lean<any>();
+  if (!match) throw new Error("MATCH_NOT_FOUND");
+  return {
+    ...match,
+    id: String(match._id),
+    me: match.participants.find((p: any) => !p.isBot && String(p.userId) === userId) ?? null,
+  };
+}
@@ -0,0 +1,256 @@
+import mongoose, { Types } from "mongoose";
+import { PlayerColor } from "../config/ludoConfigBackend";
+import { getTeamIndexForPosition, resolveTeamLayout } from "../game-logic/rules-engine";
+import { RematchInvite } from "../models/Room";
+import { emitRoomUpdate, emitUserMessageEvent } from "../socket";
+import { gameStateCache } from "../state/gameStateCache";
+import { invalidateRoomPlayers } from "../state/roomPlayersCache";
+import { generateRoomCode } from "../utils/helpers";
+import { recordGameEvent } from "./gameEventService";
+import { getColorOrder, sortPlayersByColor } from "./gameActionService";
+import { syncRoomTeams } from "./roomTeamService";
+
+const Room = () => mongoose.model("Room");
+const RoomPlayer = () => mongoose.model("RoomPlayer");
+const RoomTeam = () => mongoose.model("RoomTeam");
+
+export type SeatPlan = { player: any; color: PlayerColor; position: number; teamIndex: number | null };
+
+const rankLookup = (gameBoard: any) => {
+  const ranks = new Map<string, number>(
+    (gameBoard?.winners || []).map((w: any) => [String(w.playerId), Number(w.rank)])
+  );
+  return (p: any) => ranks.get(p._id.toString()) ?? 999;
+};
+
+/**
+ * Seats for the rematch. By default everyone keeps their color. With
+ * rankings the winner takes the first color, second place the next, and
+ * so on; team games keep their seats so partners stay together.
+ */
+export const planSeats = (room: any, players: any[], rankOf: ((p: any) => number) | null): SeatPlan[] => {
+  const colors = getColorOrder(room.settings.maxPlayers);
+  if (!rankOf || room.settings.mode === "team") {
+    return players.map((p) => ({
+      player: p,
+      color: p.color as PlayerColor,
+      position: typeof p.position === "number" ? p.position : colors.indexOf(p.color),
+      teamIndex: p.teamIndex ?? null,
+    }));
+  }
+  return [...players]
+    .sort((a, b) => rankOf(a) - rankOf(b))
+    .map((p, idx) => ({ player: p, color: colors[idx], position: idx, teamIndex: null }));
+};
+
+/** Invites for every human seat but the requester's, each holding its planned seat. */
+export const planInvites = (seats: SeatPlan[], requester: any): RematchInvite[] =>
+  seats
+    .filter((s) => !s.player.isBot && s.player !== requester)
+    .map((s) => ({ userId: s.player.userId.toString(), color: s.color, position: s.position, status: "invited" }));
+
+/**
+ * The finished room, matched only while no rematch is linked, so the first
+ * of two concurrent requests takes it. With `rematchId`, matched only while
+ * that rematch holds the link, to give it back.
+ */
+export const rematchClaimFilter = (roomId: string, rematchId: Types.ObjectId | null = null) => ({
+  _id: roomId,
+  rematchRoomId: rematchId,
+});
+
+/** Positions held for invitees who have not answered yet, apart from `exceptUserId`'s own. */
+export const heldRematchPositions = (invites: RematchInvite[] | undefined, exceptUserId?: string): number[] =>
+  (invites || [])
+    .filter((i) => i.status === "invited" && String(i.userId) !== exceptUserId)
+    .map((i) => i.position);
+
+/** Why an invitee cannot take their held seat, or null when they can. */
+export const inviteSeatProblem = (
+  invite: RematchInvite,
+  seatedPositions: number[],
+  maxPlayers: number
+): "ROOM_FULL" | "SEAT_TAKEN" | null => {
+  if (seatedPositions.length >= maxPlayers) return "ROOM_FULL";
+  if (seatedPositions.includes(invite.position)) return "SEAT_TAKEN";
+  return null;
+};
+
+/**
+ * Open a rematch room with the finished room's settings. The requester
+ * becomes host and is seated, bots are seated again, every other player
+ * gets a held seat and an invite they answer with respondToRematch. The
+ * finished room links to the new one so late clients can follow it.
+ */
+export async function createRematch(roomId: string, userId: string, options: { useRankings?: boolean } = {}) {
+  const room = await Room().findById(roomId);
+  if (!room) throw new Error("ROOM_NOT_FOUND");
+  const state = await gameStateCache.getState(roomId, room.toObject());
+  if ((state?.status ?? room.status) !== "completed") throw new Error("GAME_NOT_COMPLETED");
+
+  const players = sortPlayersByColor(await RoomPlayer().find({ roomId }), room.settings.maxPlayers);
+  const requester = players.find((p) => !p.isBot && p.userId.toString() === userId);
+  if (!requester) throw new Error("NOT_IN_ROOM");
+
+  // Claim the link first so two players asking at once open a single room.
+  const rematchId = new Types.ObjectId();
+  const claimed = await Room().updateOne(rematchClaimFilter(roomId), { $set: { rematchRoomId: rematchId } });
+  if (claimed.modifiedCount === 0) {
+    const linked = await Room().findById(roomId).select("rematchRoomId");
+    const existing = linked?.rematchRoomId ? await Room().findById(linked.rematchRoomId).select("code") : null;
+    if (!existing) throw new Error("REMATCH_IN_PROGRESS");
+    return { roomId: existing._id.toString(), code: existing.code, created: false };
+  }
+
+  const useRankings = !!options.useRankings;
+  const rankOf = useRankings ? rankLookup(state?.gameBoard ?? room.gameBoard) : null;
+  const seats = planSeats(room, players, rankOf);
+  // Last place opens the rematch when rankings decide.
+  const opener = rankOf ? [...players].sort((a, b) => rankOf(b) - rankOf(a))[0] : null;
+  const startingColor = opener ? seats.find((s) => s.player === opener)?.color ?? null : null;
+
+  const invites = planInvites(seats, requester);
+
+  let rematch: any;
+  try {
+    rematch = await Room().create({
+      _id: rematchId,
+      code: generateRoomCode(),
+      hostId: userId,
+      settings: {
+        maxPlayers: room.settings.maxPlayers,
+        mode: room.settings.mode,
+        teamLayout: room.settings.teamLayout,
+        visibility: room.settings.visibility,
+        teamNames: room.settings.teamNames,
+        tuningProfile: room.settings.tuningProfile,
+        tauntMode: room.settings.tauntMode,
+        rules: room.settings.rules,
+        turnTimer: room.settings.turnTimer,
+        hintsEnabled: room.settings.hintsEnabled,
+        spectators: room.settings.spectators,
+      },
+      gameBoard: {
+        tokens: {},
+        currentPlayerId: null,
+        diceValue: null,
+        validMoves: [],
+        gameLog: [],
+        winners: [],
+        lastRollAt: null,
+        turnDeadline: null,
+      },
+      rematchOf: room._id,
+      rematchInvites: invites,
+      startingColor,
+    });
+
+    for (const seat of seats.filter((s) => s.player.isBot || s.player === requester)) {
+      const rp = await RoomPlayer().create({
+        roomId: rematch._id,
+        userId: seat.player.userId,
+        isBot: !!seat.player.isBot,
+        botDifficulty: seat.player.isBot ? seat.player.botDifficulty : null,
+        displayName: seat.player.isBot ? seat.player.displayName : undefined,
+        color: seat.color,
+        position: seat.position,
+        teamIndex: seat.teamIndex,
+        ready: !!seat.player.isBot,
+        status: "waiting",
+      });
+      rematch.players.push(rp._id);
+    }
+    await rematch.save();
+    await syncRoomTeams(rematch._id.toString());
+  } catch (error) {
+    // Give the claim back so the finished game can still get a rematch.
+    await Room().updateOne(rematchClaimFilter(roomId, rematchId), { $set: { rematchRoomId: null } });
+    await Room().deleteOne({ _id: rematchId });
+    await RoomPlayer().deleteMany({ roomId: rematchId });
+    await RoomTeam().deleteMany({ roomId: rematchId });
+    throw error;
+  }
+
+  await recordGameEvent({
+    roomId: rematchId.toString(),
+    type: "room:created",
+    actorUserId: userId,
+    payload: { rematchOf: roomId, useRankings, startingColor },
+  });
+  await recordGameEvent({
+    roomId,
+    type: "rematch:created",
+    actorUserId: userId,
+    actorRoomPlayerId: requester._id.toString(),
+    payload: { rematchRoomId: rematchId.toString(), invited: invites.map((i) => i.userId) },
+  });
+  emitRoomUpdate(roomId, { type: "rematch:created", rematchRoomId: rematchId.toString(), code: rematch.code });
+  for (const invite of invites) {
+    emitUserMessageEvent(invite.userId, "room:rematch-invite", {
+      roomId: rematchId.toString(),
+      code: rematch.code,
+      fromRoomId: roomId,
+      invitedBy: userId,
+      color: invite.color,
+    });
+  }
+
+  return { roomId: rematchId.toString(), code: rematch.code, created: true };
+}
+
+/**
+ * Answer a rematch invite. Accepting takes the held seat while it is still
+ * free and the room is not full; declining frees it for anyone joining by
+ * code.
+ */
+export async function respondToRematch(rematchRoomId: string, userId: string, accept: boolean) {
+  const room = await Room().findById(rematchRoomId);
+  if (!room) throw new Error("ROOM_NOT_FOUND");
+  const invite = (room.rematchInvites || []).find((i: any) => i.userId.toString() === userId);
+  if (!invite || invite.status !== "invited") throw new Error("INVITE_NOT_FOUND");
+  if (accept && room.status !== "waiting") throw new Error("ROOM_NOT_JOINABLE");
+
+  let roomPlayerId: string | null = null;
+  if (accept) {
+    const seated = await RoomPlayer().find({ roomId: room._id }).select("position color");
+    const colors = getColorOrder(room.settings.maxPlayers);
+    const problem = inviteSeatProblem(
+      invite,
+      seated.map((p: any) => (typeof p.position === "number" ? p.position : colors.indexOf(p.color))),
+      room.settings.maxPlayers
+    );
+    if (problem) throw new Error(problem);
+    const rp = await RoomPlayer().create({
+      roomId: room._id,
+      userId,
+      color: invite.color,
+      position: invite.position,
+      teamIndex:
+        room.settings.mode === "team"
+          ? getTeamIndexForPosition(resolveTeamLayout(room.settings.maxPlayers, room.settings.teamLayout), invite.position)
+          : null,
+      ready: false,
+      status: "waiting",
+    });
+    room.players.push(rp._id);
+    roomPlayerId = rp._id.toString();
+  }
+  invite.status = accept ? "accepted" : "declined";
+  room.markModified("rematchInvites");
+  await room.save();
+
+  if (accept) {
+    invalidateRoomPlayers(rematchRoomId);
+    await syncRoomTeams(rematchRoomId);
+    await recordGameEvent({
+      roomId: rematchRoomId,
+      type: "room:player-joined",
+      actorUserId: userId,
+      actorRoomPlayerId: roomPlayerId,
+      payload: { color: invite.color, position: invite.position, rematch: true },
+    });
+  }
+  const type = accept ? "rematch:accepted" : "rematch:declined";
+  emitRoomUpdate(rematchRoomId, { type, userId, roomPlayerId });
+  return { roomId: rematchRoomId, accepted: accept, roomPlayerId };
+}
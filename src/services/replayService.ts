@@ -0,0 +1,87 @@
+import mongoose from "mongoose";
+import { REPLAY_STEP_TYPES, ReplayEvent, RulesState, rebuildBoard } from "../game-logic/rules-engine";
+
+const Room = () => mongoose.model("Room");
+const GameEvent = () => mongoose.model("GameEvent");
+
+type ReplayEntry = ReplayEvent & { actorUserId: string | null; createdAt: Date };
+
+const toEntry = (doc: any): ReplayEntry => ({
+  revision: Number(doc.revision || 0),
+  type: doc.type,
+  actorRoomPlayerId: doc.actorRoomPlayerId ? doc.actorRoomPlayerId.toString() : null,
+  actorUserId: doc.actorUserId ? doc.actorUserId.toString() : null,
+  payload: doc.payload || {},
+  createdAt: doc.createdAt,
+});
+
+/**
+ * A finished or running game as its starting board plus every recorded
+ * board change in revision order. Revisions the log is missing (or holds
+ * twice) make the replay incomplete; the board can only be rebuilt up to
+ * the first of them. Pass `revision` to get the board at that point, and
+ * `before` to leave out everything recorded after that time.
+ */
+export async function buildRoomReplay(roomId: string, options: { revision?: number; before?: Date } = {}) {
+  const room = await Room().findById(roomId).select("_id status");
+  if (!room) throw new Error("ROOM_NOT_FOUND");
+
+  const start = await GameEvent().findOne({ roomId, type: "game:start" }).sort({ createdAt: 1 }).lean<any>();
+  const initialBoard = start?.payload?.initialBoard as RulesState | null | undefined;
+  // Games started before the starting board was recorded cannot be replayed.
+  if (!start || !initialBoard) throw new Error("REPLAY_NOT_AVAILABLE");
+  const initialRevision = Number(start.revision || 0);
+
+  const docs = await GameEvent()
+    .find({ roomId, type: { $in: REPLAY_STEP_TYPES }, revision: { $gt: initialRevision } })
+    .sort({ revision: 1, createdAt: 1 })
+    .lean();
+  const events = docs.map(toEntry);
+  const before = options.before?.getTime();
+  if (before !== undefined) {
+    const cut = events.findIndex((e) => new Date(e.createdAt).getTime() > before);
+    if (cut !== -1) events.length = cut;
+  }
+
+  const missingRevisions: number[] = [];
+  let duplicates = 0;
+  let replayableThrough: number | null = null;
+  let expected = initialRevision + 1;
+  for (const event of events) {
+    if (event.revision < expected) {
+      duplicates += 1;
+      replayableThrough ??= event.revision - 1;
+      continue;
+    }
+    if (event.revision > expected) replayableThrough ??= expected - 1;
+    for (; expected < event.revision; expected += 1) missingRevisions.push(expected);
+    expected = event.revision + 1;
+  }
+  const lastRevision = expected - 1;
+  replayableThrough ??= lastRevision;
+  const complete = missingRevisions.length === 0 && duplicates === 0;
+
+  let board: RulesState | null = null;
+  if (options.revision !== undefined) {
+    if (options.revision > replayableThrough) throw new Error("REVISION_NOT_REPLAYABLE");
+    try {
+      board = rebuildBoard(initialBoard, events, options.revision);
+    } catch {
+      throw new Error("REPLAY_DIVERGED");
+    }
+  }
+
+  return {
+    roomId,
+    status: room.status,
+    startedAt: start.createdAt,
+    initialRevision,
+    revision: lastRevision,
+    complete,
+    missingRevisions,
+    replayableThrough,
+    initialBoard,
+    events,
+    ...(options.revision !== undefined ? { boardRevision: options.revision, board } : {}),
+  };
+}
@@ -0,0 +1,151 @@
+import mongoose, { Types } from "mongoose";
+import { emitUserMessageEvent } from "../socket";
+
+const User = () => mongoose.model("User");
+const MatchResult = () => mongoose.model("MatchResult");
+
+const XP_PARTICIPATION = Number(process.env.REWARD_XP_PARTICIPATION || 50);
+const XP_FIRST_PLACE = Number(process.env.REWARD_XP_FIRST_PLACE || 100);
+const XP_PER_CAPTURE = Number(process.env.REWARD_XP_PER_CAPTURE || 10);
+const XP_CAPTURE_CAP = Number(process.env.REWARD_XP_CAPTURE_CAP || 100);
+const XP_TEAM_WIN = Number(process.env.REWARD_XP_TEAM_WIN || 50);
+const LEVEL_XP_BASE = Number(process.env.LEVEL_XP_BASE || 100);
+const LEVEL_XP_GROWTH = Number(process.env.LEVEL_XP_GROWTH || 1.5);
+const MAX_LEVEL = 999;
+const PENDING_BATCH_SIZE = 100;
+// Match ids kept on each user to refuse a second award for the same match.
+const REWARDED_MATCH_HISTORY = 200;
+
+export interface RewardBreakdown {
+  participation: number;
+  rank: number;
+  captures: number;
+  teamWin: number;
+  total: number;
+}
+
+/** XP needed to go from `level` to the next one. */
+export const xpToNextLevel = (level: number): number =>
+  Math.max(1, Math.round(LEVEL_XP_BASE * Math.pow(LEVEL_XP_GROWTH, Math.max(0, level - 1))));
+
+/** Level reached with `xp` in total, and how far into that level it is. */
+export const levelForXp = (xp: number) => {
+  let level = 1;
+  let remaining = Math.max(0, Math.floor(xp));
+  while (level < MAX_LEVEL && remaining >= xpToNextLevel(level)) {
+    remaining -= xpToNextLevel(level);
+    level += 1;
+  }
+  return { level, xpIntoLevel: remaining, xpForNextLevel: xpToNextLevel(level) };
+};
+
+/**
+ * XP for one seat of a finished match: a flat amount for playing, a share
+ * of the first-place award that shrinks with each rank (none after
+ * resigning), some per capture, and a bonus for the winning team.
+ */
+export const computeReward = (match: any, participant: any): { breakdown: RewardBreakdown; won: boolean } => {
+  const seats = match.participants.length;
+  const rank = participant.resigned
+    ? 0
+    : seats <= 1
+      ? XP_FIRST_PLACE
+      : Math.round((XP_FIRST_PLACE * Math.max(0, seats - participant.rank)) / (seats - 1));
+  const captures = Math.min(XP_CAPTURE_CAP, Number(participant.captures || 0) * XP_PER_CAPTURE);
+  const team = match.mode === "team" ? match.teams.find((t: any) => t.teamIndex === participant.teamIndex) : null;
+  const won = team ? team.rank === 1 : participant.rank === 1 && !participant.resigned;
+  const teamWin = team && won ? XP_TEAM_WIN : 0;
+  const breakdown = { participation: XP_PARTICIPATION, rank, captures, teamWin, total: 0 };
+  breakdown.total = breakdown.participation + rank + captures + teamWin;
+  return { breakdown, won };
+};
+
+/**
+ * Add one match's reward to a user. The match id is pushed in the same
+ * update that adds the XP, so a second call for the same match finds
+ * nothing to update and awards nothing. Null when already awarded.
+ */
+const applyReward = async (matchId: Types.ObjectId, userId: Types.ObjectId, xp: number, won: boolean) => {
+  const user = await User()
+    .findOneAndUpdate(
+      { _id: userId, rewardedMatchIds: { $ne: matchId } },
+      {
+        $inc: { xp, gamesPlayed: 1, wins: won ? 1 : 0 },
+        $push: { rewardedMatchIds: { $each: [matchId], $slice: -REWARDED_MATCH_HISTORY } },
+      },
+      { new: true }
+    )
+    .select("xp level gamesPlayed wins");
+  if (!user) return null;
+
+  const levelBefore = Number(user.level || 1);
+  const progress = levelForXp(user.xp);
+  // $max so a later change to the curve never takes a level away.
+  if (progress.level > levelBefore) await User().updateOne({ _id: userId }, { $max: { level: progress.level } });
+  return {
+    xp: user.xp,
+    levelBefore,
+    level: Math.max(levelBefore, progress.level),
+    xpIntoLevel: progress.xpIntoLevel,
+    xpForNextLevel: progress.xpForNextLevel,
+    gamesPlayed: user.gamesPlayed,
+    wins: user.wins,
+  };
+};
+
+/**
+ * Post-game rewards for a room's MatchResult: XP, level, gamesPlayed and
+ * wins for every human seat, each told through `rewards:granted`. Runs
+ * after recordMatchResult; calling it again for the same room is a no-op.
+ */
+export async function grantMatchRewards(roomId: string): Promise<void> {
+  try {
+    const match = await MatchResult().findOne({ roomId }).lean<any>();
+    if (!match || match.rewardsGrantedAt) return;
+
+    const earned = new Map<string, number>();
+    for (const participant of match.participants) {
+      if (participant.isBot) continue;
+      const { breakdown, won } = computeReward(match, participant);
+      earned.set(participant.roomPlayerId.toString(), breakdown.total);
+      const progress = await applyReward(match._id, participant.userId, breakdown.total, won);
+      if (!progress) continue;
+      emitUserMessageEvent(participant.userId.toString(), "rewards:granted", {
+        matchId: match._id.toString(),
+        roomId: String(match.roomId),
+        rank: participant.rank,
+        won,
+        breakdown,
+        ...progress,
+        leveledUp: progress.level > progress.levelBefore,
+      });
+    }
+
+    await MatchResult().updateOne(
+      { _id: match._id },
+      {
+        $set: {
+          rewardsGrantedAt: new Date(),
+          participants: match.participants.map((p: any) => ({
+            ...p,
+            xpEarned: earned.get(p.roomPlayerId.toString()) ?? 0,
+          })),
+        },
+      }
+    );
+  } catch (error) {
+    console.error(`[rewards] failed to grant room=${roomId}:`, error);
+  }
+}
+
+/** Finish rewards a stopped process left undone. Called once on startup. */
+export async function grantPendingRewards(): Promise<number> {
+  const pending = await MatchResult()
+    .find({ rewardsGrantedAt: null })
+    .sort({ endedAt: 1 })
+    .limit(PENDING_BATCH_SIZE)
+    .select("roomId")
+    .lean<any[]>();
+  for (const match of pending) await grantMatchRewards(String(match.roomId));
+  return pending.length;
+}
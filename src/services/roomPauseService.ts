@@ -0,0 +1,193 @@
+import mongoose from "mongoose";
+import { PauseSource } from "../models/Room";
+import { emitRoomUpdate } from "../socket";
+import { gameStateCache } from "../state/gameStateCache";
+import { roomRequestStore } from "../state/roomRequestStore";
+import { recordGameEvent } from "./gameEventService";
+import { armTurnTimer, passResignedTurn, sortPlayersByColor } from "./gameActionService";
+import { clearTurnTimeout, computeTurnDeadline, normalizeTurnTimer } from "./turnTimer";
+
+const Room = () => mongoose.model("Room");
+const RoomPlayer = () => mongoose.model("RoomPlayer");
+
+const PAUSE_VOTE_WINDOW_MS = Number(process.env.PAUSE_VOTE_WINDOW_MS || 60000);
+// Never hand a turn back with less than this left on the clock.
+const RESUME_MIN_TURN_MS = 5000;
+
+export type PauseAction = "pause" | "resume";
+export type PauseVote = { action: PauseAction; reason: string | null; voters: string[]; expiresAt: number };
+
+// Stored per room in roomRequestStore, so votes cast on different instances add up.
+const PAUSE_VOTE = "pause-vote";
+
+/** Time left on the turn clock when the game pauses; null when the room has no timer. */
+export const remainingOnPause = (turnDeadline: string | null, now = Date.now()): number | null =>
+  turnDeadline === null ? null : Math.max(new Date(turnDeadline).getTime() - now, 0);
+
+/** Deadline given back on resume: what was left, but never less than RESUME_MIN_TURN_MS. */
+export const deadlineOnResume = (remainingMs: number, now = Date.now()): string =>
+  new Date(now + Math.max(remainingMs, RESUME_MIN_TURN_MS)).toISOString();
+
+/** Add a vote; one for the other action, or on an expired vote, starts a new count. */
+export const addPauseVote = (
+  current: PauseVote | null,
+  action: PauseAction,
+  userId: string,
+  reason: string | null,
+  now = Date.now()
+): PauseVote => {
+  const vote =
+    current && current.action === action && current.expiresAt > now
+      ? { ...current, voters: [...current.voters] }
+      : { action, reason, voters: [], expiresAt: now + PAUSE_VOTE_WINDOW_MS };
+  if (!vote.voters.includes(userId)) vote.voters.push(userId);
+  return vote;
+};
+
+/** A strict majority of the seats still played by people. */
+export const pauseVotesNeeded = (eligible: number) => Math.floor(Math.max(eligible, 1) / 2) + 1;
+
+/**
+ * Pause or resume a game. Pausing stops the turn timer and bot turns;
+ * both are flushed to Mongo straight away so a restart keeps the pause.
+ */
+export async function setRoomPaused(
+  roomId: string,
+  action: PauseAction,
+  options: { source: PauseSource; userId: string; reason?: string | null; voters?: string[] }
+) {
+  const room = await Room().findById(roomId);
+  if (!room) throw new Error("ROOM_NOT_FOUND");
+  const reason = options.reason || null;
+  const orderedPlayers =
+    action === "resume" ? sortPlayersByColor(await RoomPlayer().find({ roomId }), room.settings.maxPlayers) : [];
+
+  const payload = await gameStateCache.runExclusive(roomId, async () => {
+    const state = await gameStateCache.getState(roomId, room.toObject());
+    if (!state) throw new Error("STATE_NOT_FOUND");
+
+    if (action === "pause") {
+      if (state.status === "paused") throw new Error("ALREADY_PAUSED");
+      if (state.status !== "in_progress") throw new Error("GAME_NOT_IN_PROGRESS");
+      const remainingMs = remainingOnPause(state.gameBoard.turnDeadline);
+      state.status = "paused";
+      state.gameBoard.pause = {
+        pausedAt: new Date().toISOString(),
+        source: options.source,
+        by: options.userId,
+        reason,
+        remainingMs,
+      };
+      state.gameBoard.turnDeadline = null;
+      state.gameBoard.gameLog.push(reason ? `Game paused: ${reason}` : "Game paused");
+    } else {
+      if (state.status !== "paused") throw new Error("GAME_NOT_PAUSED");
+      const remainingMs = state.gameBoard.pause?.remainingMs ?? null;
+      state.status = "in_progress";
+      // A seat that resigned during the pause gives up its turn now, with a fresh clock for the next one.
+      if (!passResignedTurn(room, state, orderedPlayers)) {
+        state.gameBoard.turnDeadline =
+          remainingMs === null
+            ? computeTurnDeadline("in_progress", state.gameBoard.diceValue, normalizeTurnTimer(room.settings?.turnTimer))
+            : deadlineOnResume(remainingMs);
+      }
+      state.gameBoard.pause = null;
+      state.gameBoard.gameLog.push(reason ? `Game resumed: ${reason}` : "Game resumed");
+    }
+
+    await gameStateCache.markDirty(roomId, action === "pause" ? "game:pause" : "game:resume", true);
+    return {
+      revision: state.revision,
+      status: state.status,
+      currentPlayerIndex: state.currentPlayerIndex,
+      gameBoard: {
+        currentPlayerId: state.gameBoard.currentPlayerId,
+        diceValue: state.gameBoard.diceValue,
+        validMoves: state.gameBoard.validMoves,
+        lastRollAt: state.gameBoard.lastRollAt,
+        turnDeadline: state.gameBoard.turnDeadline,
+        pause: state.gameBoard.pause,
+      },
+    };
+  });
+
+  await roomRequestStore.delete(roomId, PAUSE_VOTE);
+  if (action === "pause") {
+    clearTurnTimeout(roomId);
+  } else {
+    const current = payload.gameBoard.currentPlayerId
+      ? await RoomPlayer().findById(payload.gameBoard.currentPlayerId)
+      : null;
+    armTurnTimer(roomId, payload.gameBoard.turnDeadline, current, payload.revision);
+  }
+
+  const type = action === "pause" ? "game:paused" : "game:resumed";
+  emitRoomUpdate(roomId, { type, source: options.source, by: options.userId, reason, patch: payload });
+  await recordGameEvent({
+    roomId,
+    type,
+    actorUserId: options.userId,
+    revision: payload.revision,
+    payload: {
+      source: options.source,
+      reason,
+      voters: options.voters || [],
+      remainingMs: payload.gameBoard.pause?.remainingMs ?? null,
+    },
+  });
+  return payload;
+}
+
+/**
+ * Count a seated player's vote to pause or resume. A vote for the other
+ * action, or one older than PAUSE_VOTE_WINDOW_MS, starts over. Bots and
+ * autopiloted seats have no say; the host decides alone.
+ */
+export async function castPauseVote(roomId: string, userId: string, action: PauseAction, reason?: string | null) {
+  const room = await Room().findById(roomId).select("hostId status");
+  if (!room) throw new Error("ROOM_NOT_FOUND");
+  const seat = await RoomPlayer().findOne({ roomId, userId, isBot: { $ne: true } }).select("_id");
+  if (!seat) throw new Error("NOT_IN_ROOM");
+
+  if (room.hostId.toString() === userId) {
+    await setRoomPaused(roomId, action, { source: "host", userId, reason });
+    return { action, votes: 1, needed: 1, decided: true };
+  }
+
+  const state = await gameStateCache.getState(roomId);
+  if (action === "pause" && state?.status !== "in_progress") throw new Error("GAME_NOT_IN_PROGRESS");
+  if (action === "resume" && state?.status !== "paused") throw new Error("GAME_NOT_PAUSED");
+
+  // Counted under the room lock so two votes cast at once both count.
+  const vote = await gameStateCache.runExclusive(roomId, async () => {
+    const current = await roomRequestStore.get<PauseVote>(roomId, PAUSE_VOTE);
+    const next = addPauseVote(current, action, userId, reason || null);
+    await roomRequestStore.set(roomId, PAUSE_VOTE, next, next.expiresAt - Date.now());
+    return next;
+  });
+
+  const eligible = await RoomPlayer().countDocuments({ roomId, isBot: { $ne: true }, autopilot: { $ne: true } });
+  const needed = pauseVotesNeeded(eligible);
+  const votes = vote.voters.length;
+  emitRoomUpdate(roomId, {
+    type: "pause:vote",
+    action,
+    votes,
+    needed,
+    reason: vote.reason,
+    expiresAt: new Date(vote.expiresAt).toISOString(),
+  });
+
+  if (votes < needed) return { action, votes, needed, decided: false };
+  await setRoomPaused(roomId, action, {
+    source: "vote",
+    userId,
+    reason: vote.reason,
+    voters: vote.voters,
+  });
+  return { action, votes, needed, decided: true };
+}
+
+export async function clearPauseVotes(roomId: string): Promise<void> {
+  await roomRequestStore.delete(roomId, PAUSE_VOTE);
+}
@@ -0,0 +1,242 @@
+import mongoose from "mongoose";
+import { tauntStateCache } from "../engagement/taunts";
+import { engagementStateCache } from "../game-logic/engagement-engine/engagementStateCache";
+import { emitRoomUpdate } from "../socket";
+import { gameStateCache } from "../state/gameStateCache";
+import { invalidateRoomPlayers } from "../state/roomPlayersCache";
+import { recordGameEvent } from "./gameEventService";
+import { computePlayerRankMap, loadRoomContext } from "./gameActionService";
+import { clearPauseVotes } from "./roomPauseService";
+import { clearTurnTimeout } from "./turnTimer";
+
+const Room = () => mongoose.model("Room");
+const RoomPlayer = () => mongoose.model("RoomPlayer");
+const RoomTeam = () => mongoose.model("RoomTeam");
+
+const REAPER_INTERVAL_MS = Number(process.env.ROOM_REAPER_INTERVAL_MS || 300000);
+const WAITING_IDLE_MS = Number(process.env.ROOM_REAPER_WAITING_IDLE_MS || 7200000);
+const GAME_IDLE_MS = Number(process.env.ROOM_REAPER_GAME_IDLE_MS || 1800000);
+const BATCH_SIZE = Number(process.env.ROOM_REAPER_BATCH_SIZE || 100);
+
+export type AbandonReason = "idle" | "deserted";
+
+/** What one reaper pass did. */
+export interface ReaperRunStats {
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  waitingClosed: number;
+  gamesAbandoned: number;
+  errors: number;
+}
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+let lastRun: ReaperRunStats | null = null;
+const totals = { runs: 0, waitingClosed: 0, gamesAbandoned: 0, errors: 0 };
+
+const evictRoomCaches = async (roomId: string, roomPlayerIds: string[]) => {
+  clearTurnTimeout(roomId);
+  await clearPauseVotes(roomId);
+  invalidateRoomPlayers(roomId);
+  await gameStateCache.evict(roomId);
+  await engagementStateCache.evictRoom(roomId, roomPlayerIds);
+  await tauntStateCache.evictRoom(roomId);
+};
+
+/**
+ * Delete a lobby nobody started. The status check in the delete keeps a
+ * room that was started meanwhile.
+ */
+async function closeWaitingRoom(room: any, idleMs: number): Promise<boolean> {
+  const roomId = room._id.toString();
+  const removed = await Room().deleteOne({ _id: roomId, status: "waiting" });
+  if (removed.deletedCount === 0) return false;
+
+  const players = await RoomPlayer().find({ roomId }).select("_id");
+  await RoomPlayer().deleteMany({ roomId });
+  await RoomTeam().deleteMany({ roomId });
+  await evictRoomCaches(roomId, players.map((p: any) => p._id.toString()));
+
+  emitRoomUpdate(roomId, { type: "room:closed", reason: "idle" });
+  await recordGameEvent({ roomId, type: "room:closed", payload: { reason: "idle", idleMs } });
+  return true;
+}
+
+/**
+ * End a game nobody is playing. Everyone is ranked where they stand, as
+ * computePlayerRankMap sees it, and the room is left `abandoned` so it
+ * never counts as a finished game.
+ */
+export async function abandonGame(roomId: string, reason: AbandonReason, idleMs: number): Promise<boolean> {
+  const { room, orderedPlayers, config } = await loadRoomContext(roomId, "reaper");
+  const patch = await gameStateCache.runExclusive(roomId, async () => {
+    const state = await gameStateCache.getState(roomId, room.toObject());
+    if (!state || (state.status !== "in_progress" && state.status !== "paused")) return null;
+
+    const ranks = computePlayerRankMap(orderedPlayers, state.gameBoard.tokens, state.gameBoard.winners, config);
+    state.status = "abandoned";
+    state.gameBoard.winners = orderedPlayers
+      .map((p) => ({ playerId: p._id.toString(), rank: ranks.get(p._id.toString()) ?? orderedPlayers.length }))
+      .sort((a, b) => a.rank - b.rank);
+    state.gameBoard.diceValue = null;
+    state.gameBoard.validMoves = [];
+    state.gameBoard.lastRollAt = null;
+    state.gameBoard.turnDeadline = null;
+    state.gameBoard.pause = null;
+    state.gameBoard.gameLog.push("Game abandoned");
+
+    await gameStateCache.markDirty(roomId, "game:abandon", true);
+    return {
+      revision: state.revision,
+      status: state.status,
+      gameBoard: {
+        winners: state.gameBoard.winners,
+        diceValue: null,
+        validMoves: [],
+        lastRollAt: null,
+        turnDeadline: null,
+        pause: null,
+      },
+    };
+  });
+  if (!patch) return false;
+
+  emitRoomUpdate(roomId, { type: "game:abandoned", reason, patch });
+  await recordGameEvent({
+    roomId,
+    type: "game:abandoned",
+    revision: patch.revision,
+    payload: { reason, idleMs, winners: patch.gameBoard.winners },
+  });
+  await evictRoomCaches(roomId, orderedPlayers.map((p) => p._id.toString()));
+  return true;
+}
+
+/**
+ * When the last human seat of a game went to autopilot, provided every one
+ * of them has been autopiloted since before `cutoff`. Null otherwise.
+ */
+export const desertedSince = (humans: Array<{ autopilot?: boolean; updatedAt: Date }>, cutoff: Date): Date | null => {
+  if (humans.length === 0 || humans.some((h) => !h.autopilot || h.updatedAt >= cutoff)) return null;
+  return humans.reduce((latest, h) => (h.updatedAt > latest ? h.updatedAt : latest), humans[0].updatedAt);
+};
+
+/**
+ * Games to abandon: nothing has been saved for GAME_IDLE_MS (stalled or
+ * left paused), or every human seat has been autopiloted for that long,
+ * so only the server is still playing.
+ */
+async function findStaleGames(cutoff: Date): Promise<Array<{ roomId: string; reason: AbandonReason; since: Date }>> {
+  const idle = await Room()
+    .find({ status: { $in: ["in_progress", "paused"] }, updatedAt: { $lt: cutoff } })
+    .select("_id updatedAt")
+    .limit(BATCH_SIZE)
+    .lean<any[]>();
+  const found = idle.map((r) => ({ roomId: r._id.toString(), reason: "idle" as AbandonReason, since: r.updatedAt }));
+
+  const autopiloted: any[] = await RoomPlayer().distinct("roomId", {
+    isBot: { $ne: true },
+    autopilot: true,
+    updatedAt: { $lt: cutoff },
+  });
+  for (const roomId of autopiloted.map(String)) {
+    if (found.length >= BATCH_SIZE) break;
+    if (found.some((f) => f.roomId === roomId)) continue;
+    const room = await Room().findById(roomId).select("status").lean<any>();
+    if (room?.status !== "in_progress") continue;
+    const humans = await RoomPlayer().find({ roomId, isBot: { $ne: true } }).select("autopilot updatedAt").lean<any[]>();
+    const since = desertedSince(humans, cutoff);
+    if (since) found.push({ roomId, reason: "deserted", since });
+  }
+  return found;
+}
+
+/** One pass over the rooms collection. Null when a pass is already running. */
+export async function runRoomReaper(): Promise<ReaperRunStats | null> {
+  if (running) return null;
+  running = true;
+  const started = Date.now();
+  const stats: ReaperRunStats = {
+    startedAt: new Date(started).toISOString(),
+    finishedAt: "",
+    durationMs: 0,
+    waitingClosed: 0,
+    gamesAbandoned: 0,
+    errors: 0,
+  };
+
+  try {
+    const waitingCutoff = new Date(started - WAITING_IDLE_MS);
+    const lobbies = await Room()
+      .find({ status: "waiting", updatedAt: { $lt: waitingCutoff } })
+      .select("_id updatedAt")
+      .limit(BATCH_SIZE)
+      .lean<any[]>();
+    for (const room of lobbies) {
+      try {
+        if (await closeWaitingRoom(room, started - new Date(room.updatedAt).getTime())) stats.waitingClosed += 1;
+      } catch (error) {
+        stats.errors += 1;
+        console.error(`[reaper] closing room=${room._id} failed:`, error);
+      }
+    }
+
+    for (const game of await findStaleGames(new Date(started - GAME_IDLE_MS))) {
+      try {
+        if (await abandonGame(game.roomId, game.reason, started - new Date(game.since).getTime())) {
+          stats.gamesAbandoned += 1;
+        }
+      } catch (error) {
+        stats.errors += 1;
+        console.error(`[reaper] abandoning room=${game.roomId} failed:`, error);
+      }
+    }
+  } catch (error) {
+    stats.errors += 1;
+    console.error("[reaper] run failed:", error);
+  } finally {
+    running = false;
+  }
+
+  stats.finishedAt = new Date().toISOString();
+  stats.durationMs = Date.now() - started;
+  lastRun = stats;
+  totals.runs += 1;
+  totals.waitingClosed += stats.waitingClosed;
+  totals.gamesAbandoned += stats.gamesAbandoned;
+  totals.errors += stats.errors;
+  if (stats.waitingClosed || stats.gamesAbandoned || stats.errors) {
+    console.log(
+      `[reaper] closed ${stats.waitingClosed} lobbies, abandoned ${stats.gamesAbandoned} games, ${stats.errors} errors`
+    );
+  }
+  return stats;
+}
+
+export function getReaperStats() {
+  return {
+    enabled: timer !== null,
+    running,
+    intervalMs: REAPER_INTERVAL_MS,
+    waitingIdleMs: WAITING_IDLE_MS,
+    gameIdleMs: GAME_IDLE_MS,
+    batchSize: BATCH_SIZE,
+    lastRun,
+    totals: { ...totals },
+  };
+}
+
+/** ROOM_REAPER_INTERVAL_MS=0 turns the job off. */
+export function startRoomReaper(): void {
+  if (timer || REAPER_INTERVAL_MS <= 0) return;
+  timer = setInterval(() => {
+    void runRoomReaper();
+  }, REAPER_INTERVAL_MS);
+  if (typeof timer.unref === "function") timer.unref();
+}
+
+export function stopRoomReaper(): void {
+  if (timer) clearInterval(timer);
+  timer = null;
+}
@@ -0,0 +1,67 @@
+import mongoose from "mongoose";
+import { isSocketAdapterRedisConnected } from "../socket";
+import { gameStateCache } from "../state/gameStateCache";
+import { armTurnTimer, settleCompletedGame, sortPlayersByColor } from "./gameActionService";
+import { grantPendingRewards } from "./rewardService";
+import { scheduleSeatTakeovers } from "./seatPresenceService";
+
+const Room = () => mongoose.model("Room");
+const RoomPlayer = () => mongoose.model("RoomPlayer");
+
+// Whether this instance can tell a seat connected to another instance from
+// an absent one: through the Redis socket adapter, or by being the only
+// instance when there is no Redis at all.
+const presenceIsShared = () => isSocketAdapterRedisConnected() || !gameStateCache.isRedisConnected();
+
+/**
+ * Startup pass over every unfinished game: settle Redis against Mongo,
+ * then restart what lived only in the dead process. The current turn gets
+ * its timer or bot back, and human seats get the takeover grace so absent
+ * players are autopiloted like after any disconnect. Every instance runs
+ * this at boot, so takeovers are only armed when seat presence is shared;
+ * otherwise players still connected to a live instance would lose their seat.
+ */
+export async function recoverInProgressRooms(): Promise<void> {
+  const rooms = await Room().find({ status: { $in: ["in_progress", "paused"] } }).lean<any[]>();
+  let adoptedFromRedis = 0;
+  const armTakeovers = presenceIsShared();
+  if (!armTakeovers) console.warn("[recovery] socket adapter is not shared, leaving seat takeovers to disconnects");
+
+  for (const room of rooms) {
+    const roomId = String(room._id);
+    try {
+      const result = await gameStateCache.runExclusive(roomId, () => gameStateCache.recoverRoom(room));
+      if (result.adopted === "redis") {
+        adoptedFromRedis += 1;
+        console.warn(
+          `[recovery] room=${roomId} redis revision ${result.redisRevision} was ahead of mongo ${result.mongoRevision}, flushed redis state`
+        );
+      } else if (result.redisRevision !== null && result.redisRevision !== result.mongoRevision) {
+        console.warn(
+          `[recovery] room=${roomId} redis revision ${result.redisRevision} was behind mongo ${result.mongoRevision}, kept mongo state`
+        );
+      }
+
+      const state = await gameStateCache.getState(roomId);
+      // Finished in Redis before the process stopped; the post-game steps never ran.
+      if (state?.status === "completed") await settleCompletedGame(roomId);
+      if (!state || state.status !== "in_progress") continue;
+      const players = sortPlayersByColor(await RoomPlayer().find({ roomId }), room.settings.maxPlayers);
+      const current = players.find((p) => p._id.toString() === state.gameBoard.currentPlayerId);
+      armTurnTimer(roomId, state.gameBoard.turnDeadline, current, state.revision);
+      if (armTakeovers) {
+        scheduleSeatTakeovers(
+          roomId,
+          players.filter((p) => !p.isBot && !p.autopilot).map((p) => p._id.toString())
+        );
+      }
+    } catch (error) {
+      console.error(`[recovery] room=${roomId} failed:`, error);
+    }
+  }
+
+  console.log(`[recovery] checked ${rooms.length} unfinished rooms, ${adoptedFromRedis} recovered from redis`);
+
+  const rewarded = await grantPendingRewards();
+  if (rewarded > 0) console.log(`[recovery] granted rewards for ${rewarded} finished matches`);
+}
@@ -0,0 +1,60 @@
+import { gameStateCache, RuntimeGameBoard, RuntimeRoomState } from "../state/gameStateCache";
+
+/** Everything a client needs to redraw the board from scratch. */
+export type StateSnapshot = Pick<RuntimeRoomState, "revision" | "status" | "currentPlayerIndex"> & {
+  gameBoard: Partial<RuntimeGameBoard>;
+};
+
+export const toStateSnapshot = (state: RuntimeRoomState): StateSnapshot => ({
+  revision: state.revision,
+  status: state.status,
+  currentPlayerIndex: state.currentPlayerIndex,
+  gameBoard: state.gameBoard,
+});
+
+/**
+ * What a stale seat holder gets back with a 409: the current revision and
+ * the board to redraw from, so it needs no room:sync round trip.
+ */
+export const toRevisionConflict = (state: RuntimeRoomState | null) =>
+  state ? { revision: state.revision, snapshot: toStateSnapshot(state) } : null;
+
+export type RoomSyncResult =
+  | { roomId: string; mode: "patches"; sinceRevision: number; revision: number; updates: Record<string, any>[] }
+  | { roomId: string; mode: "snapshot"; sinceRevision: number; revision: number; snapshot: StateSnapshot };
+
+/**
+ * Catch a reconnecting client up from the last revision it applied: the
+ * room:update messages it missed, in order, when the move log still has
+ * every one of them, otherwise a full snapshot.
+ */
+export async function getRoomSync(roomId: string, sinceRevision: number): Promise<RoomSyncResult> {
+  const state = await gameStateCache.getState(roomId);
+  if (!state) throw new Error("ROOM_NOT_FOUND");
+  const revision = Number(state.revision || 0);
+  const snapshot = (): RoomSyncResult => ({
+    roomId,
+    mode: "snapshot",
+    sinceRevision,
+    revision,
+    snapshot: toStateSnapshot(state),
+  });
+
+  // A client ahead of the server saw a state that was since lost; start it over.
+  if (sinceRevision > revision) return snapshot();
+  if (sinceRevision === revision) return { roomId, mode: "patches", sinceRevision, revision, updates: [] };
+
+  const entries = await gameStateCache.getUpdatesSince(roomId, sinceRevision);
+  if (!entries) return snapshot();
+
+  const updates: Record<string, any>[] = [];
+  let expected = sinceRevision + 1;
+  for (const entry of entries) {
+    if (entry.revision < expected) continue; // Same revision logged twice
+    if (entry.revision !== expected || entry.revision > revision) break;
+    updates.push(entry.update);
+    expected += 1;
+  }
+  if (expected !== revision + 1) return snapshot();
+  return { roomId, mode: "patches", sinceRevision, revision, updates };
+}
@@ -1,5 +1,6 @@
 import mongoose from "mongoose";
 import { PLAYER_COLOR_MAPS, PlayerColor } from "../config/ludoConfigBackend";
+import { getTeamIndexForPosition, resolveTeamLayout } from "../game-logic/rules-engine";
 
 const Room = () => mongoose.model("Room");
 const RoomPlayer = () => mongoose.model("RoomPlayer");
@@ -8,13 +9,6 @@ const RoomTeam = () => mongoose.model("RoomTeam");
 const getColorOrder = (maxPlayers: number): PlayerColor[] =>
   PLAYER_COLOR_MAPS[maxPlayers] || PLAYER_COLOR_MAPS[4];
 
-const getTeamIndexForPosition = (position: number, maxPlayers: number): number | null => {
-  if (!Number.isInteger(position) || maxPlayers < 4 || maxPlayers % 2 !== 0) return null;
-  const half = maxPlayers / 2;
-  if (position < 0 || position >= maxPlayers) return null;
-  return position % half;
-};
-
 const normalizeTeamName = (name: unknown, index: number): string => {
   if (typeof name !== "string") return `Team ${String.fromCharCode(65 + index)}`;
   const trimmed = name.trim().slice(0, 24);
@@ -25,19 +19,20 @@ export async function syncRoomTeams(roomId: string): Promise<void> {
   const room = (await Room().findById(roomId).lean()) as any;
   if (!room) return;
 
-  if (room.settings?.mode !== "team" || room.settings.maxPlayers < 4 || room.settings.maxPlayers % 2 !== 0) {
+  const layout = room.settings?.mode === "team" ? resolveTeamLayout(room.settings.maxPlayers, room.settings.teamLayout) : null;
+  if (!layout) {
     await RoomTeam().deleteMany({ roomId });
     return;
   }
 
   const maxPlayers = room.settings.maxPlayers;
-  const teamCount = maxPlayers / 2;
+  const teamCount = layout.teams.length;
   const teamNames = Array.from({ length: teamCount }, (_, idx) =>
     normalizeTeamName(room.settings?.teamNames?.[idx], idx)
   );
 
   const teamMetaOps = Array.from({ length: teamCount }, (_, idx) => {
-    const slotIndexes = [idx, idx + teamCount];
+    const slotIndexes = layout.teams[idx];
     return {
       updateOne: {
         filter: { roomId: room._id, teamIndex: idx },
@@ -60,7 +55,7 @@ export async function syncRoomTeams(roomId: string): Promise<void> {
   for (const p of players) {
     const fallbackPosition = colors.indexOf((p.color || "") as PlayerColor);
     const position = Number.isInteger(p.position) ? p.position : fallbackPosition;
-    const teamIndex = getTeamIndexForPosition(position, maxPlayers);
+    const teamIndex = getTeamIndexForPosition(layout, position);
     if (teamIndex === null) continue;
 
     const userObj = p.userId as { _id?: unknown; displayName?: string } | null;
@@ -68,7 +63,7 @@ export async function syncRoomTeams(roomId: string): Promise<void> {
     grouped.get(teamIndex)?.push({
       roomPlayerId: p._id,
       userId,
-      displayName: userObj?.displayName || "Unknown",
+      displayName: userObj?.displayName || p.displayName || "Unknown",
       color: p.color || "",
       position: Number.isInteger(position) ? position : null,
     });
@@ -0,0 +1,174 @@
+import mongoose, { Types } from "mongoose";
+import { emitRoomUpdate, getIO } from "../socket";
+import { gameStateCache } from "../state/gameStateCache";
+import { invalidateRoomPlayers } from "../state/roomPlayersCache";
+import { recordGameEvent } from "./gameEventService";
+import { armTurnTimer } from "./gameActionService";
+
+const Room = () => mongoose.model("Room");
+const RoomPlayer = () => mongoose.model("RoomPlayer");
+
+const TAKEOVER_GRACE_MS = Number(process.env.SEAT_TAKEOVER_GRACE_MS || 30000);
+
+// Seat key is `${roomId}:${roomPlayerId}`. Both maps only track this
+// instance's sockets and timers; whether a seat is connected is asked of
+// every instance through the socket adapter.
+const socketSeats = new Map<string, Set<string>>();
+const graceTimers = new Map<string, NodeJS.Timeout>();
+
+const seatKey = (roomId: string, roomPlayerId: string) => `${roomId}:${roomPlayerId}`;
+const splitSeatKey = (key: string) => {
+  const [roomId, roomPlayerId] = key.split(":");
+  return { roomId, roomPlayerId };
+};
+
+const cancelGrace = (key: string) => {
+  const pending = graceTimers.get(key);
+  if (pending) clearTimeout(pending);
+  graceTimers.delete(key);
+};
+
+/** Users with a socket on the room channel on any instance. Null when an instance did not answer. */
+const fetchRoomUserIds = async (roomId: string): Promise<Set<string> | null> => {
+  const io = getIO();
+  if (!io) return new Set();
+  try {
+    const sockets = await io.in(roomId).fetchSockets();
+    return new Set(sockets.flatMap((s) => (typeof s.data?.userId === "string" ? [s.data.userId] : [])));
+  } catch {
+    return null;
+  }
+};
+
+/** Users connected to a room, for showing who is present. */
+export async function getConnectedUserIds(roomId: string): Promise<Set<string>> {
+  const users = await fetchRoomUserIds(roomId);
+  if (users) return users;
+  // Another instance did not answer in time; report what this one sees.
+  const io = getIO();
+  const socketIds = Array.from(io?.sockets.adapter.rooms.get(roomId) ?? []);
+  return new Set(
+    socketIds.flatMap((id) => {
+      const userId = io?.sockets.sockets.get(id)?.data?.userId;
+      return typeof userId === "string" ? [userId] : [];
+    })
+  );
+}
+
+/**
+ * Hand the turn back to whoever now controls the seat, if it is that
+ * seat's turn: the bot scheduler after a takeover, the turn timer after a
+ * return.
+ */
+const rearmIfCurrent = async (room: any, roomPlayerId: string) => {
+  const roomId = room._id.toString();
+  const state = await gameStateCache.getState(roomId, room.toObject());
+  if (!state || state.status !== "in_progress" || state.gameBoard.currentPlayerId !== roomPlayerId) return;
+  const player = await RoomPlayer().findById(roomPlayerId);
+  armTurnTimer(roomId, state.gameBoard.turnDeadline, player, state.revision);
+};
+
+const setAutopilot = async (roomId: string, roomPlayerId: string, autopilot: boolean) => {
+  const room = await Room().findById(roomId);
+  if (!room || (room.status !== "in_progress" && room.status !== "paused")) return;
+  const player = await RoomPlayer().findOneAndUpdate(
+    { _id: roomPlayerId, roomId, isBot: { $ne: true }, autopilot: !autopilot },
+    { $set: { autopilot } },
+    { new: true }
+  );
+  if (!player) return;
+  invalidateRoomPlayers(roomId);
+
+  const type = autopilot ? "seat:takeover" : "seat:returned";
+  await recordGameEvent({
+    roomId,
+    type,
+    actorUserId: player.userId.toString(),
+    actorRoomPlayerId: roomPlayerId,
+    payload: autopilot ? { graceMs: TAKEOVER_GRACE_MS } : {},
+  });
+  emitRoomUpdate(roomId, { type, roomPlayerId, autopilot });
+  await rearmIfCurrent(room, roomPlayerId);
+};
+
+/**
+ * Take the seat over unless its user is back on the room channel, on this
+ * instance or any other. When not every instance answers, wait another
+ * grace period rather than take over a seat that may still be played.
+ */
+const takeOverIfGone = async (key: string) => {
+  const { roomId, roomPlayerId } = splitSeatKey(key);
+  const room = await Room().findById(roomId).select("status").lean<any>();
+  if (!room || (room.status !== "in_progress" && room.status !== "paused")) return;
+  const player = await RoomPlayer().findOne({ _id: roomPlayerId, roomId }).select("userId").lean<any>();
+  if (!player) return;
+  const users = await fetchRoomUserIds(roomId);
+  if (!users) {
+    scheduleTakeover(key);
+    return;
+  }
+  if (users.has(player.userId.toString())) return;
+  await setAutopilot(roomId, roomPlayerId, true);
+};
+
+const scheduleTakeover = (key: string) => {
+  cancelGrace(key);
+  const timeout = setTimeout(() => {
+    graceTimers.delete(key);
+    void takeOverIfGone(key).catch((error) => {
+      console.error("[presence] seat takeover failed:", error);
+    });
+  }, TAKEOVER_GRACE_MS);
+  if (typeof timeout.unref === "function") timeout.unref();
+  graceTimers.set(key, timeout);
+};
+
+// Other sockets of the same user, here or elsewhere, are checked when the grace ends.
+const detachSocket = (key: string, socketId: string) => {
+  if (!socketSeats.get(socketId)?.delete(key)) return;
+  scheduleTakeover(key);
+};
+
+/**
+ * A socket joined a room channel. If the user holds a seat there it counts
+ * as present again, and an autopiloted seat goes back to them.
+ */
+export async function attachSeatSocket(roomId: string, userId: string, socketId: string): Promise<void> {
+  if (!Types.ObjectId.isValid(roomId) || !Types.ObjectId.isValid(userId)) return;
+  const player = await RoomPlayer().findOne({ roomId, userId }).select("_id autopilot");
+  if (!player) return;
+
+  const key = seatKey(roomId, player._id.toString());
+  cancelGrace(key);
+  if (!socketSeats.has(socketId)) socketSeats.set(socketId, new Set());
+  socketSeats.get(socketId)?.add(key);
+
+  if (player.autopilot) await setAutopilot(roomId, player._id.toString(), false);
+}
+
+export function detachSeatSocket(roomId: string, socketId: string): void {
+  for (const key of Array.from(socketSeats.get(socketId) || [])) {
+    if (splitSeatKey(key).roomId === roomId) detachSocket(key, socketId);
+  }
+}
+
+export function dropSocket(socketId: string): void {
+  for (const key of Array.from(socketSeats.get(socketId) || [])) detachSocket(key, socketId);
+  socketSeats.delete(socketId);
+}
+
+/**
+ * Start the takeover grace for seats as if they had just dropped. Used
+ * after a restart; seats still connected anywhere are left alone when the
+ * grace ends.
+ */
+export function scheduleSeatTakeovers(roomId: string, roomPlayerIds: string[]): void {
+  for (const roomPlayerId of roomPlayerIds) {
+    const key = seatKey(roomId, roomPlayerId);
+    if (!graceTimers.has(key)) scheduleTakeover(key);
+  }
+}
+
+export function clearAllSeatTimers(): void {
+  for (const key of Array.from(graceTimers.keys())) cancelGrace(key);
+}
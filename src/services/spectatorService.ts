@@ -0,0 +1,265 @@
+import mongoose from "mongoose";
+import { rebuildBoard, RulesState } from "../game-logic/rules-engine";
+import { SpectatorSettings } from "../models/Room";
+import { getIO } from "../socket";
+import { gameStateCache } from "../state/gameStateCache";
+import { buildRoomReplay } from "./replayService";
+import { getRoomSync, RoomSyncResult, StateSnapshot, toStateSnapshot } from "./roomSyncService";
+
+const Room = () => mongoose.model("Room");
+const RoomPlayer = () => mongoose.model("RoomPlayer");
+
+export const DEFAULT_SPECTATOR_SETTINGS: SpectatorSettings = {
+  allowed: true,
+  delaySeconds: 0,
+};
+
+const MAX_DELAY_SECONDS = 120;
+// Other instances pick up a host's change within this long.
+const SETTINGS_TTL_MS = Number(process.env.SPECTATOR_SETTINGS_TTL_MS || 15000);
+
+const isDelaySeconds = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0 && value <= MAX_DELAY_SECONDS;
+
+/** Rooms created before spectators existed allow them with no delay. */
+export const normalizeSpectatorSettings = (raw: any): SpectatorSettings => ({
+  allowed: typeof raw?.allowed === "boolean" ? raw.allowed : DEFAULT_SPECTATOR_SETTINGS.allowed,
+  delaySeconds: isDelaySeconds(raw?.delaySeconds) ? raw.delaySeconds : DEFAULT_SPECTATOR_SETTINGS.delaySeconds,
+});
+
+/** Missing fields keep `current`, so a host can change one at a time. */
+export const validateSpectatorSettings = (
+  raw: unknown,
+  current: SpectatorSettings = DEFAULT_SPECTATOR_SETTINGS
+): { settings: SpectatorSettings } | { error: string } => {
+  if (raw === undefined || raw === null) return { settings: { ...current } };
+  if (typeof raw !== "object" || Array.isArray(raw)) return { error: "spectators must be an object" };
+  const input = raw as Record<string, unknown>;
+  if (input.allowed !== undefined && typeof input.allowed !== "boolean") {
+    return { error: "spectators.allowed must be a boolean" };
+  }
+  if (input.delaySeconds !== undefined && !isDelaySeconds(input.delaySeconds)) {
+    return { error: `spectators.delaySeconds must be an integer between 0 and ${MAX_DELAY_SECONDS}` };
+  }
+  return { settings: normalizeSpectatorSettings({ ...current, ...input }) };
+};
+
+export const spectatorChannel = (roomId: string) => `spectate:${roomId}`;
+
+// The promise is cached, not its value, so feed messages waiting on one lookup stay in order.
+const settingsCache = new Map<string, { expiresAt: number; settings: Promise<SpectatorSettings> }>();
+// When the last delayed message of a room goes out; later ones never overtake it.
+const feedTails = new Map<string, number>();
+
+export function getSpectatorSettings(roomId: string): Promise<SpectatorSettings> {
+  const now = Date.now();
+  const hit = settingsCache.get(roomId);
+  if (hit && hit.expiresAt > now) return hit.settings;
+
+  const settings = Room()
+    .findById(roomId)
+    .select("settings.spectators")
+    .lean<any>()
+    .then((room) => normalizeSpectatorSettings(room?.settings?.spectators));
+  settings.catch(() => settingsCache.delete(roomId));
+  settingsCache.set(roomId, { expiresAt: now + SETTINGS_TTL_MS, settings });
+  return settings;
+}
+
+export function setSpectatorSettings(roomId: string, settings: SpectatorSettings): void {
+  settingsCache.set(roomId, { expiresAt: Date.now() + SETTINGS_TTL_MS, settings: Promise.resolve(settings) });
+}
+
+export async function holdsSeat(roomId: string, userId: string): Promise<boolean> {
+  return !!(await RoomPlayer().exists({ roomId, userId, isBot: { $ne: true } }));
+}
+
+/** Anyone may follow a lobby live; a running or finished game only its seat holders. */
+export async function mayJoinLiveChannel(roomId: string, userId: string | null): Promise<boolean> {
+  const room = await Room().findById(roomId).select("status").lean<any>();
+  if (!room) return false;
+  if (room.status === "waiting") return true;
+  return !!userId && (await holdsSeat(roomId, userId));
+}
+
+/**
+ * When a feed message goes out: `delaySeconds` after it happened, and never
+ * before the message relayed ahead of it (`tail`), so a shorter delay set
+ * mid-game cannot reorder the feed.
+ */
+export const feedSendAt = (now: number, delaySeconds: number, tail: number | undefined): number =>
+  Math.max(now + delaySeconds * 1000, tail ?? 0);
+
+/** Distinct users watching, across every instance. */
+export async function countSpectators(roomId: string): Promise<number> {
+  const io = getIO();
+  if (!io) return 0;
+  try {
+    const sockets = await io.in(spectatorChannel(roomId)).fetchSockets();
+    return new Set(sockets.map((s) => s.data?.userId ?? s.id)).size;
+  } catch {
+    // Another instance did not answer in time; count what this one sees.
+    return io.sockets.adapter.rooms.get(spectatorChannel(roomId))?.size ?? 0;
+  }
+}
+
+/**
+ * Pass a room:update on to the spectator feed, held back by the room's
+ * delay. Runs behind emitRoomUpdate, so only what the room channel gets
+ * ever reaches spectators; per-user payloads never do.
+ */
+export async function relaySpectatorUpdate(roomId: string, message: Record<string, any>): Promise<void> {
+  const settings = await getSpectatorSettings(roomId);
+  const io = getIO();
+  if (!io || !settings.allowed) return;
+
+  const now = Date.now();
+  const sendAt = feedSendAt(now, settings.delaySeconds, feedTails.get(roomId));
+  if (sendAt <= now) {
+    io.to(spectatorChannel(roomId)).emit("room:update", message);
+    return;
+  }
+  feedTails.set(roomId, sendAt);
+  setTimeout(() => {
+    getIO()?.to(spectatorChannel(roomId)).emit("room:update", message);
+    if (feedTails.get(roomId) === sendAt) feedTails.delete(roomId);
+  }, sendAt - now);
+}
+
+/** Send every spectator away, on whichever instance they are connected. */
+export function closeSpectatorFeed(roomId: string): void {
+  const io = getIO();
+  if (!io) return;
+  io.to(spectatorChannel(roomId)).emit("room:spectate-closed", { roomId });
+  io.in(spectatorChannel(roomId)).socketsLeave(spectatorChannel(roomId));
+}
+
+/**
+ * Once a game starts only seat holders stay on the live channel. Anyone
+ * who watched the lobby from it moves to the spectator feed, or is
+ * dropped when the host does not allow spectators.
+ */
+export async function moveLobbyWatchersToFeed(roomId: string, seatedUserIds: string[]): Promise<void> {
+  const io = getIO();
+  if (!io) return;
+  const seated = new Set(seatedUserIds);
+  const settings = await getSpectatorSettings(roomId);
+  for (const socket of await io.in(roomId).fetchSockets()) {
+    if (typeof socket.data?.userId === "string" && seated.has(socket.data.userId)) continue;
+    socket.leave(roomId);
+    if (settings.allowed && typeof socket.data?.userId === "string") socket.join(spectatorChannel(roomId));
+    else socket.emit("room:spectate-closed", { roomId });
+  }
+}
+
+const fromRulesState = (revision: number, board: RulesState): StateSnapshot => ({
+  revision,
+  status: board.status,
+  currentPlayerIndex: board.currentPlayerIndex,
+  gameBoard: {
+    tokens: board.tokens,
+    currentPlayerId: board.players[board.currentPlayerIndex]?.id ?? null,
+    diceValue: board.diceValue,
+    validMoves: board.validMoves,
+    winners: board.winners,
+    captureCounts: board.captureCounts,
+    resigned: board.resigned,
+  },
+});
+
+const isRunning = (status: string) => status === "in_progress" || status === "paused";
+
+export type RoomViewer =
+  | { role: "player" }
+  | { role: "spectator"; settings: SpectatorSettings; cutoff: Date };
+
+/**
+ * All of a lobby, a finished game or their own game; of anyone else's
+ * running game only what the spectator feed shows, up to `cutoff`.
+ * Throws SPECTATORS_NOT_ALLOWED when the host has turned spectators off.
+ */
+export const viewerFor = (status: string, seated: boolean, rawSettings: any, now = Date.now()): RoomViewer => {
+  if (!isRunning(status) || seated) return { role: "player" };
+  const settings = normalizeSpectatorSettings(rawSettings);
+  if (!settings.allowed) throw new Error("SPECTATORS_NOT_ALLOWED");
+  return { role: "spectator", settings, cutoff: new Date(now - settings.delaySeconds * 1000) };
+};
+
+/** What a user may see of a room over HTTP; see viewerFor. */
+export async function resolveRoomViewer(roomId: string, userId: string | null): Promise<RoomViewer> {
+  const room = await Room().findById(roomId).select("status settings.spectators").lean<any>();
+  if (!room) throw new Error("ROOM_NOT_FOUND");
+  const seated = isRunning(room.status) && !!userId && (await holdsSeat(roomId, userId));
+  return viewerFor(room.status, seated, room.settings?.spectators);
+}
+
+/** The last revision recorded at or before `cutoff` that the replay can rebuild. */
+export const delayedRevision = (
+  replay: { initialRevision: number; replayableThrough: number; events: { revision: number; createdAt: Date | string }[] },
+  cutoff: number
+): number => {
+  let revision = replay.initialRevision;
+  for (const event of replay.events) {
+    if (event.revision > replay.replayableThrough) break;
+    if (new Date(event.createdAt).getTime() > cutoff) break;
+    revision = event.revision;
+  }
+  return revision;
+};
+
+/**
+ * The board as the spectator feed shows it: live when there is no delay
+ * or no game running, otherwise rebuilt from the game events recorded at
+ * least `delaySeconds` ago.
+ */
+export async function getSpectatorSnapshot(roomId: string, settings: SpectatorSettings): Promise<StateSnapshot> {
+  const state = await gameStateCache.getState(roomId);
+  if (!state) throw new Error("ROOM_NOT_FOUND");
+  if (settings.delaySeconds === 0 || !isRunning(state.status)) return toStateSnapshot(state);
+
+  const replay = await buildRoomReplay(roomId).catch((error) => {
+    // A game without a recorded starting board cannot be shown late.
+    if (error?.message === "REPLAY_NOT_AVAILABLE") throw new Error("DELAYED_VIEW_NOT_AVAILABLE");
+    throw error;
+  });
+  const revision = delayedRevision(replay, Date.now() - settings.delaySeconds * 1000);
+  return fromRulesState(revision, rebuildBoard(replay.initialBoard, replay.events, revision));
+}
+
+/**
+ * room:sync for a spectator. With a delay, only updates logged at least
+ * `delaySeconds` ago are replayed, and a gap is filled with the delayed
+ * snapshot rather than the live one.
+ */
+export async function getSpectatorSync(roomId: string, sinceRevision: number): Promise<RoomSyncResult> {
+  const settings = await getSpectatorSettings(roomId);
+  if (!settings.allowed) throw new Error("SPECTATORS_NOT_ALLOWED");
+  const state = await gameStateCache.getState(roomId);
+  if (!state) throw new Error("ROOM_NOT_FOUND");
+  if (settings.delaySeconds === 0 || !isRunning(state.status)) return getRoomSync(roomId, sinceRevision);
+
+  const cutoff = Date.now() - settings.delaySeconds * 1000;
+  const entries = sinceRevision <= state.revision ? await gameStateCache.getUpdatesSince(roomId, sinceRevision) : null;
+  if (entries) {
+    const updates: Record<string, any>[] = [];
+    let expected = sinceRevision + 1;
+    // Caught up once the next update is still held back, or the log reaches the live revision.
+    let caughtUp = false;
+    for (const entry of entries) {
+      if (entry.revision < expected) continue; // Same revision logged twice
+      if (entry.ts > cutoff) {
+        caughtUp = entry.revision === expected;
+        break;
+      }
+      if (entry.revision !== expected) break;
+      updates.push(entry.update);
+      expected += 1;
+    }
+    if (caughtUp || expected === state.revision + 1) {
+      return { roomId, mode: "patches", sinceRevision, revision: expected - 1, updates };
+    }
+  }
+
+  const snapshot = await getSpectatorSnapshot(roomId, settings);
+  return { roomId, mode: "snapshot", sinceRevision, revision: snapshot.revision, snapshot };
+}
@@ -0,0 +1,89 @@
+import { TurnTimerSettings } from "../models/Room";
+
+export const DEFAULT_TURN_TIMER: TurnTimerSettings = {
+  enabled: false,
+  rollSeconds: 15,
+  moveSeconds: 20,
+};
+
+const MIN_TURN_SECONDS = 5;
+const MAX_TURN_SECONDS = 120;
+const TIMER_KEYS: Array<keyof TurnTimerSettings> = ["rollSeconds", "moveSeconds"];
+
+const isTurnSeconds = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= MIN_TURN_SECONDS && value <= MAX_TURN_SECONDS;
+
+/**
+ * Fill missing fields from the defaults. Rooms created before the timer
+ * could be switched on keep playing without one.
+ */
+export const normalizeTurnTimer = (raw: any): TurnTimerSettings => ({
+  enabled: typeof raw?.enabled === "boolean" ? raw.enabled : DEFAULT_TURN_TIMER.enabled,
+  rollSeconds: isTurnSeconds(raw?.rollSeconds) ? raw.rollSeconds : DEFAULT_TURN_TIMER.rollSeconds,
+  moveSeconds: isTurnSeconds(raw?.moveSeconds) ? raw.moveSeconds : DEFAULT_TURN_TIMER.moveSeconds,
+});
+
+/**
+ * Host input. No timer unless asked for; passing durations switches it on
+ * unless `enabled` says otherwise.
+ */
+export const validateTurnTimer = (raw: unknown): { settings: TurnTimerSettings } | { error: string } => {
+  if (raw === undefined || raw === null) return { settings: normalizeTurnTimer({}) };
+  if (typeof raw !== "object" || Array.isArray(raw)) return { error: "turnTimer must be an object" };
+  const input = raw as Record<string, unknown>;
+  if (input.enabled !== undefined && typeof input.enabled !== "boolean") {
+    return { error: "turnTimer.enabled must be a boolean" };
+  }
+  for (const key of TIMER_KEYS) {
+    if (input[key] !== undefined && !isTurnSeconds(input[key])) {
+      return { error: `turnTimer.${key} must be an integer between ${MIN_TURN_SECONDS} and ${MAX_TURN_SECONDS}` };
+    }
+  }
+  return { settings: normalizeTurnTimer({ ...input, enabled: input.enabled ?? true }) };
+};
+
+/**
+ * Deadline for the phase the board is in: rolling when no dice is showing,
+ * moving otherwise. Finished games and rooms without a timer have none.
+ */
+export const computeTurnDeadline = (
+  status: string,
+  diceValue: number | null,
+  settings: TurnTimerSettings,
+  now = Date.now()
+): string | null => {
+  if (status !== "in_progress" || !settings.enabled) return null;
+  const seconds = diceValue === null ? settings.rollSeconds : settings.moveSeconds;
+  return new Date(now + seconds * 1000).toISOString();
+};
+
+const timeouts = new Map<string, NodeJS.Timeout>();
+
+export const clearTurnTimeout = (roomId: string): void => {
+  const existing = timeouts.get(roomId);
+  if (existing) clearTimeout(existing);
+  timeouts.delete(roomId);
+};
+
+/**
+ * One pending timeout per room; scheduling again replaces the previous one.
+ */
+export const scheduleTurnTimeout = (
+  roomId: string,
+  deadline: string | null,
+  onExpire: (deadline: string) => void
+): void => {
+  clearTurnTimeout(roomId);
+  if (!deadline) return;
+  const delay = Math.max(0, new Date(deadline).getTime() - Date.now());
+  const timeout = setTimeout(() => {
+    if (timeouts.get(roomId) === timeout) timeouts.delete(roomId);
+    onExpire(deadline);
+  }, delay);
+  if (typeof timeout.unref === "function") timeout.unref();
+  timeouts.set(roomId, timeout);
+};
+
+export const clearAllTurnTimeouts = (): void => {
+  for (const roomId of Array.from(timeouts.keys())) clearTurnTimeout(roomId);
+};
@@ -1,8 +1,13 @@
+import { createAdapter } from "@socket.io/redis-adapter";
 import { Server } from "socket.io";
 import { registerMessageRealtime } from "./modules/messages/registerMessageRealtime";
 import { registerRoomRealtime } from "./modules/rooms/registerRoomRealtime";
+import { relaySpectatorUpdate } from "./services/spectatorService";
+import { gameStateCache } from "./state/gameStateCache";
+import { RedisCache } from "./state/redisCache";
 
 let io: Server | null = null;
+const adapterRedis = new RedisCache();
 const SOCKET_DEBUG = process.env.SOCKET_DEBUG === "true";
 
 export const initSocket = (server: any, corsOrigin: string) => {
@@ -21,6 +26,25 @@ export const initSocket = (server: any, corsOrigin: string) => {
   return io;
 };
 
+/**
+ * Broadcast through Redis pub/sub so room and user events reach sockets
+ * connected to other instances. Without Redis, emits stay local.
+ */
+export const attachRedisAdapter = async (): Promise<boolean> => {
+  if (!io) return false;
+  await adapterRedis.init();
+  const pubClient = await adapterRedis.duplicateClient();
+  const subClient = await adapterRedis.duplicateClient();
+  if (!pubClient || !subClient) return false;
+  io.adapter(createAdapter(pubClient, subClient));
+  console.log("[socket] redis adapter attached");
+  return true;
+};
+
+export const shutdownRedisAdapter = () => adapterRedis.shutdown();
+
+export const isSocketAdapterRedisConnected = () => adapterRedis.isReady();
+
 export const getIO = () => io;
 
 export const emitConversationMessageEvent = (
@@ -51,4 +75,11 @@ export const emitRoomUpdate = (roomId: string, payload?: Record<string, any>) =>
     } catch {}
   }
   io.to(roomId).emit("room:update", message);
+  // Patches carry a revision; log them so room:sync can replay what a client missed.
+  if (typeof payload?.patch?.revision === "number") {
+    void gameStateCache.logUpdate(roomId, payload.patch.revision, message);
+  }
+  void relaySpectatorUpdate(roomId, message).catch((error) => {
+    console.error(`[socket] spectator relay failed room=${roomId}:`, error);
+  });
 };
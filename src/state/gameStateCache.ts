@@ -1,6 +1,9 @@
+import { randomUUID } from "crypto";
 import mongoose from "mongoose";
 import { PlayerColor, Token } from "../config/ludoConfigBackend";
-import { RedisCache } from "./redisCache";
+import { TurnStartSnapshot } from "../game-logic/rules-engine/types";
+import { PauseInfo } from "../models/Room";
+import { LockAttempt, RedisCache } from "./redisCache";
 
 type WinnerEntry = { playerId: string; rank: number };
 
@@ -12,11 +15,17 @@ export interface RuntimeGameBoard {
   gameLog: string[];
   winners: WinnerEntry[];
   lastRollAt: string | null;
+  consecutiveSixes: Record<string, number>;
+  turnStart: TurnStartSnapshot | null;
+  captureCounts: Record<string, number>;
+  turnDeadline: string | null;
+  resigned: string[];
+  pause: PauseInfo | null;
 }
 
 export interface RuntimeRoomState {
   roomId: string;
-  status: "waiting" | "in_progress" | "completed";
+  status: "waiting" | "in_progress" | "paused" | "completed" | "abandoned";
   currentPlayerIndex: number;
   gameBoard: RuntimeGameBoard;
   revision: number;
@@ -31,6 +40,48 @@ const MOVE_LOG_TTL_SECONDS = Number(process.env.GAME_MOVE_LOG_TTL_SECONDS || 864
 const MOVE_LOG_MAX_ITEMS = Number(process.env.GAME_MOVE_LOG_MAX_ITEMS || 300);
 const FLUSH_INTERVAL_MS = Number(process.env.GAME_STATE_FLUSH_INTERVAL_MS || 2000);
 const CACHE_DEBUG = process.env.GAME_CACHE_DEBUG === "true";
+const ROOM_LOCK_TTL_MS = Number(process.env.ROOM_LOCK_TTL_MS || 15000);
+const ROOM_LOCK_WAIT_MS = Number(process.env.ROOM_LOCK_WAIT_MS || 10000);
+const ROOM_LOCK_RETRY_MS = 25;
+const ROOM_LOCK_RENEW_MS = Math.max(ROOM_LOCK_RETRY_MS, Math.floor(ROOM_LOCK_TTL_MS / 3));
+const STATE_CHANNEL = "ludo:room-state";
+
+// Tells this process's own state announcements apart from other instances'.
+const INSTANCE_ID = randomUUID();
+
+type StateChange = { roomId: string; revision: number | null; origin: string };
+
+/** What the startup recovery pass found for one room. */
+export type RecoveryResult = {
+  roomId: string;
+  adopted: "redis" | "mongo";
+  redisRevision: number | null;
+  mongoRevision: number;
+};
+
+/** One broadcast room:update, kept so reconnecting clients can replay it. */
+export type MoveLogEntry = { ts: number; revision: number; update: Record<string, any> };
+
+/**
+ * What withRoomLock does after one lock attempt. Without Redis the
+ * in-process queue is the only writer; a configured Redis that fails is
+ * never written around.
+ */
+export const nextLockStep = (
+  attempt: LockAttempt,
+  timedOut: boolean
+): "run" | "run-unlocked" | "retry" | "refuse" => {
+  if (attempt === "disabled") return "run-unlocked";
+  if (attempt === "acquired") return "run";
+  if (attempt === "failed" || timedOut) return "refuse";
+  return "retry";
+};
+
+/** A local copy is stale once another instance has stored a newer revision. */
+export const isStaleCopy = (localRevision: number, sharedRevision: number | null) =>
+  sharedRevision !== null && sharedRevision > localRevision;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
 const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value)) as T;
 
@@ -44,6 +95,7 @@ const normalizeGameBoard = (raw: any): RuntimeGameBoard => {
     : [];
 
   const lastRoll = board.lastRollAt ? new Date(board.lastRollAt).toISOString() : null;
+  const turnDeadline = board.turnDeadline ? new Date(board.turnDeadline).toISOString() : null;
 
   return {
     tokens: (board.tokens || {}) as Record<PlayerColor, Token[]>,
@@ -53,13 +105,20 @@ const normalizeGameBoard = (raw: any): RuntimeGameBoard => {
     gameLog: Array.isArray(board.gameLog) ? board.gameLog : [],
     winners,
     lastRollAt: lastRoll,
+    consecutiveSixes:
+      board.consecutiveSixes && typeof board.consecutiveSixes === "object" ? board.consecutiveSixes : {},
+    turnStart: board.turnStart || null,
+    captureCounts: board.captureCounts && typeof board.captureCounts === "object" ? board.captureCounts : {},
+    turnDeadline,
+    resigned: Array.isArray(board.resigned) ? board.resigned.map(String) : [],
+    pause: board.pause && typeof board.pause === "object" ? board.pause : null,
   };
 };
 
 const normalizeRoomToState = (roomId: string, roomLike: any): RuntimeRoomState => {
   return {
     roomId,
-    status: (roomLike.status || "waiting") as "waiting" | "in_progress" | "completed",
+    status: (roomLike.status || "waiting") as "waiting" | "in_progress" | "paused" | "completed" | "abandoned",
     currentPlayerIndex: Number(roomLike.currentPlayerIndex ?? 0),
     gameBoard: normalizeGameBoard(roomLike.gameBoard),
     revision: Number(roomLike?.gameBoard?.revision ?? 0),
@@ -72,6 +131,8 @@ const normalizeRoomToState = (roomId: string, roomLike: any): RuntimeRoomState =
 export class GameStateCache {
   private readonly roomStates = new Map<string, RuntimeRoomState>();
   private readonly queues = new Map<string, Promise<unknown>>();
+  // Rooms whose running task let its lock expire; their writes are refused.
+  private readonly lostLocks = new Set<string>();
   private readonly redis = new RedisCache();
   private flushTimer: NodeJS.Timeout | null = null;
 
@@ -83,8 +144,13 @@ export class GameStateCache {
     return `ludo:room:${roomId}:moves`;
   }
 
+  private lockKey(roomId: string): string {
+    return `ludo:room:${roomId}:lock`;
+  }
+
   async init(): Promise<void> {
     await this.redis.init();
+    await this.redis.subscribe<StateChange>(STATE_CHANNEL, (change) => this.onRemoteChange(change));
     this.flushTimer = setInterval(() => {
       void this.flushDirtyRooms();
     }, FLUSH_INTERVAL_MS);
@@ -102,9 +168,15 @@ export class GameStateCache {
     await this.redis.shutdown();
   }
 
+  /**
+   * Run `task` as the only writer of a room. Tasks queue in-process first;
+   * with Redis each one also holds a per-room lock, renewed until the task
+   * ends, so other instances wait their turn, and starts from the latest
+   * state any instance wrote.
+   */
   async runExclusive<T>(roomId: string, task: () => Promise<T>): Promise<T> {
     const previous = this.queues.get(roomId) ?? Promise.resolve();
-    const next = previous.catch(() => undefined).then(task);
+    const next = previous.catch(() => undefined).then(() => this.withRoomLock(roomId, task));
     this.queues.set(roomId, next);
 
     try {
@@ -116,6 +188,74 @@ export class GameStateCache {
     }
   }
 
+  private async withRoomLock<T>(roomId: string, task: () => Promise<T>): Promise<T> {
+    const key = this.lockKey(roomId);
+    const token = `${INSTANCE_ID}:${randomUUID()}`;
+    const giveUpAt = Date.now() + ROOM_LOCK_WAIT_MS;
+    for (;;) {
+      const attempt = await this.redis.tryLock(key, token, ROOM_LOCK_TTL_MS);
+      const step = nextLockStep(attempt, Date.now() >= giveUpAt);
+      if (step === "run-unlocked") return task();
+      if (step === "run") break;
+      if (step === "refuse") throw new Error("ROOM_LOCKED");
+      await sleep(ROOM_LOCK_RETRY_MS);
+    }
+
+    // Keep the lock alive for as long as the task runs, however slow Mongo is.
+    const renewal = setInterval(() => {
+      void this.redis.extendLock(key, token, ROOM_LOCK_TTL_MS).then((held) => {
+        if (held !== false || this.lostLocks.has(roomId)) return;
+        console.warn(`[room-lock] room=${roomId} lost its lock while a write was running`);
+        this.lostLocks.add(roomId);
+      });
+    }, ROOM_LOCK_RENEW_MS);
+    if (typeof renewal.unref === "function") renewal.unref();
+
+    try {
+      await this.dropIfStale(roomId);
+      return await task();
+    } finally {
+      clearInterval(renewal);
+      // Whatever the task changed without its lock is not ours to keep.
+      if (this.lostLocks.delete(roomId)) this.roomStates.delete(roomId);
+      await this.redis.unlock(key, token);
+    }
+  }
+
+  /**
+   * Refuse a write from a task whose lock expired under it. The local copy
+   * it changed is dropped, so the next reader starts from the shared state.
+   */
+  private assertLockHeld(roomId: string): void {
+    if (!this.lostLocks.has(roomId)) return;
+    this.roomStates.delete(roomId);
+    throw new Error("ROOM_LOCKED");
+  }
+
+  /** Forget the local copy when another instance has written a newer one. */
+  private async dropIfStale(roomId: string): Promise<void> {
+    const local = this.roomStates.get(roomId);
+    if (!local) return;
+    const shared = await this.redis.getJson<RuntimeRoomState>(this.stateKey(roomId));
+    if (isStaleCopy(Number(local.revision ?? 0), shared ? Number(shared.revision ?? 0) : null)) {
+      this.roomStates.delete(roomId);
+    }
+  }
+
+  private onRemoteChange(change: StateChange): void {
+    if (!change?.roomId || change.origin === INSTANCE_ID) return;
+    if (CACHE_DEBUG) {
+      console.log(`[cache] remote change room=${change.roomId} revision=${change.revision ?? "evicted"}`);
+    }
+    // The writer already saved to Redis and flushes its own dirty state.
+    this.roomStates.delete(change.roomId);
+  }
+
+  private async announce(roomId: string, revision: number | null): Promise<void> {
+    const change: StateChange = { roomId, revision, origin: INSTANCE_ID };
+    await this.redis.publish(STATE_CHANNEL, change);
+  }
+
   async getState(roomId: string, roomDocFallback?: any): Promise<RuntimeRoomState | null> {
     const inMemory = this.roomStates.get(roomId);
     if (inMemory) return inMemory;
@@ -149,9 +289,43 @@ export class GameStateCache {
     const state = normalizeRoomToState(roomId, roomDoc.toObject ? roomDoc.toObject() : roomDoc);
     this.roomStates.set(roomId, state);
     await this.redis.setJson(this.stateKey(roomId), state, ROOM_STATE_TTL_SECONDS);
+    await this.announce(roomId, state.revision);
+  }
+
+  /**
+   * Reconcile a room after a restart. Redis is written on every change and
+   * Mongo only every FLUSH_INTERVAL_MS, so a crash can leave Redis ahead:
+   * the newer of the two wins, is written to the other and held in memory.
+   */
+  async recoverRoom(roomDoc: any): Promise<RecoveryResult> {
+    const roomId = String(roomDoc._id);
+    const persisted = normalizeRoomToState(roomId, roomDoc);
+    const cached = await this.redis.getJson<RuntimeRoomState>(this.stateKey(roomId));
+    const redisRevision = cached ? Number(cached.revision ?? 0) : null;
+
+    if (cached && redisRevision !== null && redisRevision > persisted.revision) {
+      this.roomStates.set(roomId, {
+        ...cached,
+        roomId,
+        gameBoard: normalizeGameBoard(cached.gameBoard),
+        revision: redisRevision,
+        dirty: true,
+        updatedAt: Date.now(),
+        lastPersistedAt: 0,
+      });
+      await this.flushRoom(roomId);
+      return { roomId, adopted: "redis", redisRevision, mongoRevision: persisted.revision };
+    }
+
+    this.roomStates.set(roomId, persisted);
+    if (redisRevision !== persisted.revision) {
+      await this.redis.setJson(this.stateKey(roomId), persisted, ROOM_STATE_TTL_SECONDS);
+    }
+    return { roomId, adopted: "mongo", redisRevision, mongoRevision: persisted.revision };
   }
 
   async markDirty(roomId: string, event?: string, flushNow = false): Promise<void> {
+    this.assertLockHeld(roomId);
     const state = this.roomStates.get(roomId);
     if (!state) return;
 
@@ -160,14 +334,7 @@ export class GameStateCache {
     state.revision = Number(state.revision || 0) + 1;
 
     await this.redis.setJson(this.stateKey(roomId), state, ROOM_STATE_TTL_SECONDS);
-    if (event) {
-      await this.redis.pushLog(
-        this.logKey(roomId),
-        { ts: Date.now(), event, revision: state.revision },
-        MOVE_LOG_MAX_ITEMS,
-        MOVE_LOG_TTL_SECONDS
-      );
-    }
+    await this.announce(roomId, state.revision);
 
     if (CACHE_DEBUG) {
       console.log(
@@ -180,8 +347,31 @@ export class GameStateCache {
     }
   }
 
+  /**
+   * Append the room:update that carried a revision's patch to the move
+   * log. Entries are written after the lock is released, so they may land
+   * slightly out of order; readers sort by revision.
+   */
+  async logUpdate(roomId: string, revision: number, update: Record<string, any>): Promise<void> {
+    const entry: MoveLogEntry = { ts: Date.now(), revision, update };
+    await this.redis.pushLog(this.logKey(roomId), entry, MOVE_LOG_MAX_ITEMS, MOVE_LOG_TTL_SECONDS);
+  }
+
+  /**
+   * Logged updates after `sinceRevision`, oldest first. Null when Redis is
+   * not available.
+   */
+  async getUpdatesSince(roomId: string, sinceRevision: number): Promise<MoveLogEntry[] | null> {
+    const entries = await this.redis.getList<MoveLogEntry>(this.logKey(roomId), MOVE_LOG_MAX_ITEMS);
+    if (!entries) return null;
+    return entries
+      .filter((entry) => Number(entry?.revision) > sinceRevision)
+      .sort((a, b) => a.revision - b.revision);
+  }
+
   async evict(roomId: string): Promise<void> {
     this.roomStates.delete(roomId);
+    await this.announce(roomId, null);
   }
 
   private async flushDirtyRooms(force = false): Promise<void> {
@@ -190,11 +380,13 @@ export class GameStateCache {
       const state = this.roomStates.get(roomId);
       if (!state) continue;
       if (!force && !state.dirty) continue;
+      if (this.lostLocks.has(roomId)) continue;
       await this.flushRoom(roomId);
     }
   }
 
   async flushRoom(roomId: string): Promise<void> {
+    this.assertLockHeld(roomId);
     const state = this.roomStates.get(roomId);
     if (!state || !state.dirty) return;
 
@@ -207,10 +399,18 @@ export class GameStateCache {
         rank: w.rank,
       })),
       lastRollAt: state.gameBoard.lastRollAt ? new Date(state.gameBoard.lastRollAt) : null,
+      turnDeadline: state.gameBoard.turnDeadline ? new Date(state.gameBoard.turnDeadline) : null,
     };
 
-    await Room().updateOne(
-      { _id: roomId },
+    // Never overwrite a newer board another instance has already written.
+    const result = await Room().updateOne(
+      {
+        _id: roomId,
+        $or: [
+          { "gameBoard.revision": { $lte: state.revision } },
+          { "gameBoard.revision": { $exists: false } },
+        ],
+      },
       {
         $set: {
           status: state.status,
@@ -222,6 +422,10 @@ export class GameStateCache {
 
     state.dirty = false;
     state.lastPersistedAt = Date.now();
+    if (result.matchedCount === 0) {
+      console.warn(`[cache] flush skipped room=${roomId} revision=${state.revision}: stored board is newer`);
+      return;
+    }
     if (CACHE_DEBUG) {
       console.log(
         `[cache] flush room=${roomId} revision=${state.revision} persistedAt=${state.lastPersistedAt}`
@@ -0,0 +1,77 @@
+import { RedisCache } from "./redisCache";
+
+/**
+ * What a request holding an Idempotency-Key left behind: `pending` while it
+ * runs, `done` with the response once it succeeded.
+ */
+export interface IdempotencyRecord {
+  state: "pending" | "done";
+  fingerprint: string;
+  statusCode: number | null;
+  body: unknown;
+  createdAt: number;
+}
+
+const IDEMPOTENCY_TTL_SECONDS = Number(process.env.IDEMPOTENCY_TTL_SECONDS || 300);
+
+export class IdempotencyStore {
+  private readonly redis = new RedisCache();
+  private readonly memory = new Map<string, { expiresAt: number; record: IdempotencyRecord }>();
+
+  async init(): Promise<void> {
+    await this.redis.init();
+  }
+
+  async shutdown(): Promise<void> {
+    await this.redis.shutdown();
+  }
+
+  isRedisConnected(): boolean {
+    return this.redis.isReady();
+  }
+
+  /**
+   * Reserve `key` for a new request. Returns null when the caller now owns
+   * it, otherwise the record of the request that got there first.
+   */
+  async claim(key: string, fingerprint: string): Promise<IdempotencyRecord | null> {
+    const pending: IdempotencyRecord = { state: "pending", fingerprint, statusCode: null, body: null, createdAt: Date.now() };
+
+    const claimed = await this.redis.setJsonIfAbsent(key, pending, IDEMPOTENCY_TTL_SECONDS);
+    if (claimed === true) return null;
+    if (claimed === false) {
+      // Expired between the two calls: treat it as still running, the client retries.
+      return (await this.redis.getJson<IdempotencyRecord>(key)) ?? pending;
+    }
+
+    this.pruneMemory();
+    const hit = this.memory.get(key);
+    if (hit) return hit.record;
+    this.memory.set(key, { expiresAt: Date.now() + IDEMPOTENCY_TTL_SECONDS * 1000, record: pending });
+    return null;
+  }
+
+  async complete(key: string, fingerprint: string, statusCode: number, body: unknown): Promise<void> {
+    const record: IdempotencyRecord = { state: "done", fingerprint, statusCode, body, createdAt: Date.now() };
+    if (this.redis.isReady()) {
+      await this.redis.setJson(key, record, IDEMPOTENCY_TTL_SECONDS);
+      return;
+    }
+    this.memory.set(key, { expiresAt: Date.now() + IDEMPOTENCY_TTL_SECONDS * 1000, record });
+  }
+
+  /** Forget a claim whose request failed so a retry runs it again. */
+  async release(key: string): Promise<void> {
+    this.memory.delete(key);
+    await this.redis.delete(key);
+  }
+
+  private pruneMemory(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.memory) {
+      if (entry.expiresAt <= now) this.memory.delete(key);
+    }
+  }
+}
+
+export const idempotencyStore = new IdempotencyStore();
@@ -4,22 +4,44 @@ type RedisClientLike = {
   on: (event: string, cb: (...args: any[]) => void) => void;
   get: (key: string) => Promise<string | null>;
   set: (key: string, value: string, options?: Record<string, unknown>) => Promise<unknown>;
+  del: (key: string) => Promise<unknown>;
   lPush: (key: string, value: string) => Promise<unknown>;
   lTrim: (key: string, start: number, stop: number) => Promise<unknown>;
+  lRange: (key: string, start: number, stop: number) => Promise<string[]>;
   expire: (key: string, seconds: number) => Promise<unknown>;
+  publish: (channel: string, message: string) => Promise<unknown>;
+  subscribe: (channel: string, listener: (message: string) => void) => Promise<unknown>;
+  eval: (script: string, options: { keys: string[]; arguments: string[] }) => Promise<unknown>;
+  duplicate: () => RedisClientLike;
 };
 
+// Delete the lock only if it still holds our token, so an expired lock
+// that someone else took over is left alone.
+const UNLOCK_SCRIPT = `if redis.call("get", KEYS[1]) == ARGV[1] then return redis.call("del", KEYS[1]) else return 0 end`;
+// Push the lock's expiry out only while it still holds our token.
+const EXTEND_LOCK_SCRIPT = `if redis.call("get", KEYS[1]) == ARGV[1] then return redis.call("pexpire", KEYS[1], ARGV[2]) else return 0 end`;
+
+/**
+ * One try at a lock: taken, held by someone else, Redis configured but not
+ * answering, or no Redis configured at all (single instance).
+ */
+export type LockAttempt = "acquired" | "held" | "failed" | "disabled";
+
 type RedisModuleLike = {
   createClient: (opts: { url: string }) => RedisClientLike;
 };
 
 export class RedisCache {
   private client: RedisClientLike | null = null;
+  private subscriber: RedisClientLike | null = null;
+  private readonly duplicates: RedisClientLike[] = [];
   private ready = false;
+  private configured = false;
 
   async init(): Promise<void> {
     const redisUrl = process.env.REDIS_URL?.trim();
     if (!redisUrl) return;
+    this.configured = true;
 
     try {
       // Optional dependency at runtime. If not installed, we gracefully degrade to memory-only cache.
@@ -42,11 +64,16 @@ export class RedisCache {
   async shutdown(): Promise<void> {
     if (!this.client || !this.ready) return;
     try {
+      for (const extra of [this.subscriber, ...this.duplicates]) {
+        if (extra) await extra.quit();
+      }
       await this.client.quit();
     } catch (error) {
       console.error("[redis] shutdown error:", error);
     } finally {
       this.client = null;
+      this.subscriber = null;
+      this.duplicates.length = 0;
       this.ready = false;
     }
   }
@@ -81,6 +108,125 @@ export class RedisCache {
     }
   }
 
+  /**
+   * Set only when the key does not exist yet. Null when Redis is not
+   * available, so callers can fall back to their own bookkeeping.
+   */
+  async setJsonIfAbsent(key: string, value: unknown, ttlSeconds: number): Promise<boolean | null> {
+    if (!this.client || !this.ready) return null;
+    try {
+      const result = await this.client.set(key, JSON.stringify(value), { NX: true, EX: ttlSeconds });
+      return result === "OK";
+    } catch (error) {
+      console.error("[redis] setJsonIfAbsent error:", error);
+      return null;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    if (!this.client || !this.ready) return;
+    try {
+      await this.client.del(key);
+    } catch (error) {
+      console.error("[redis] delete error:", error);
+    }
+  }
+
+  /**
+   * Take `key` as a lock for `ttlMs` unless someone else holds it. Only
+   * `disabled` when no REDIS_URL is set; a configured Redis that is down or
+   * reconnecting is `failed`.
+   */
+  async tryLock(key: string, token: string, ttlMs: number): Promise<LockAttempt> {
+    if (!this.configured) return "disabled";
+    if (!this.client || !this.ready) return "failed";
+    try {
+      const result = await this.client.set(key, token, { NX: true, PX: ttlMs });
+      return result === "OK" ? "acquired" : "held";
+    } catch (error) {
+      console.error("[redis] tryLock error:", error);
+      return "failed";
+    }
+  }
+
+  /** Renew a lock taken with tryLock. False once it expired or changed hands. */
+  async extendLock(key: string, token: string, ttlMs: number): Promise<boolean | null> {
+    if (!this.client || !this.ready) return null;
+    try {
+      const result = await this.client.eval(EXTEND_LOCK_SCRIPT, { keys: [key], arguments: [token, String(ttlMs)] });
+      return Number(result) === 1;
+    } catch (error) {
+      console.error("[redis] extendLock error:", error);
+      return null;
+    }
+  }
+
+  async unlock(key: string, token: string): Promise<void> {
+    if (!this.client || !this.ready) return;
+    try {
+      await this.client.eval(UNLOCK_SCRIPT, { keys: [key], arguments: [token] });
+    } catch (error) {
+      console.error("[redis] unlock error:", error);
+    }
+  }
+
+  async publish(channel: string, message: unknown): Promise<void> {
+    if (!this.client || !this.ready) return;
+    try {
+      await this.client.publish(channel, JSON.stringify(message));
+    } catch (error) {
+      console.error("[redis] publish error:", error);
+    }
+  }
+
+  /**
+   * Listen on a pub/sub channel. Subscribing needs a connection of its
+   * own, opened on first use.
+   */
+  async subscribe<T>(channel: string, handler: (message: T) => void): Promise<boolean> {
+    if (!this.client || !this.ready) return false;
+    try {
+      if (!this.subscriber) {
+        this.subscriber = this.client.duplicate();
+        this.subscriber.on("error", (err: unknown) => {
+          console.error("[redis] subscriber error:", err);
+        });
+        await this.subscriber.connect();
+      }
+      await this.subscriber.subscribe(channel, (raw) => {
+        try {
+          handler(JSON.parse(raw) as T);
+        } catch (error) {
+          console.error("[redis] subscribe handler error:", error);
+        }
+      });
+      return true;
+    } catch (error) {
+      console.error("[redis] subscribe error:", error);
+      return false;
+    }
+  }
+
+  /**
+   * A separate connected client for libraries that manage their own
+   * commands, such as the socket.io adapter. Closed on shutdown.
+   */
+  async duplicateClient(): Promise<unknown | null> {
+    if (!this.client || !this.ready) return null;
+    try {
+      const extra = this.client.duplicate();
+      extra.on("error", (err: unknown) => {
+        console.error("[redis] duplicate client error:", err);
+      });
+      await extra.connect();
+      this.duplicates.push(extra);
+      return extra;
+    } catch (error) {
+      console.error("[redis] duplicateClient error:", error);
+      return null;
+    }
+  }
+
   async pushLog(key: string, entry: unknown, maxItems: number, ttlSeconds?: number): Promise<void> {
     if (!this.client || !this.ready) return;
     try {
@@ -93,5 +239,16 @@ export class RedisCache {
       console.error("[redis] pushLog error:", error);
     }
   }
-}
 
+  /** Newest first, as pushLog stores them. Null when Redis is not available. */
+  async getList<T>(key: string, maxItems: number): Promise<T[] | null> {
+    if (!this.client || !this.ready) return null;
+    try {
+      const raw = await this.client.lRange(key, 0, Math.max(0, maxItems - 1));
+      return raw.map((entry) => JSON.parse(entry) as T);
+    } catch (error) {
+      console.error("[redis] getList error:", error);
+      return null;
+    }
+  }
+}
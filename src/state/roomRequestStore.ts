@@ -0,0 +1,68 @@
+import { RedisCache } from "./redisCache";
+
+/**
+ * Short-lived requests players leave on a room between two calls, such as
+ * pause votes and team resign requests. Kept in Redis so whichever
+ * instance the next call lands on sees them; without Redis they stay in
+ * this process, which is all a single instance needs.
+ */
+export class RoomRequestStore {
+  private readonly redis = new RedisCache();
+  private readonly memory = new Map<string, { expiresAt: number; value: unknown }>();
+
+  async init(): Promise<void> {
+    await this.redis.init();
+  }
+
+  async shutdown(): Promise<void> {
+    await this.redis.shutdown();
+  }
+
+  isRedisConnected(): boolean {
+    return this.redis.isReady();
+  }
+
+  async get<T>(roomId: string, name: string): Promise<T | null> {
+    const key = this.key(roomId, name);
+    if (this.redis.isReady()) return this.redis.getJson<T>(key);
+    const hit = this.memory.get(key);
+    if (!hit) return null;
+    if (hit.expiresAt <= Date.now()) {
+      this.memory.delete(key);
+      return null;
+    }
+    return hit.value as T;
+  }
+
+  async set(roomId: string, name: string, value: unknown, ttlMs: number): Promise<void> {
+    const key = this.key(roomId, name);
+    if (this.redis.isReady()) {
+      await this.redis.setJson(key, value, Math.max(1, Math.ceil(ttlMs / 1000)));
+      return;
+    }
+    this.pruneMemory();
+    this.memory.set(key, { expiresAt: Date.now() + ttlMs, value });
+  }
+
+  /** Drop a request. True when there was one to drop. */
+  async delete(roomId: string, name: string): Promise<boolean> {
+    const existed = (await this.get(roomId, name)) !== null;
+    const key = this.key(roomId, name);
+    this.memory.delete(key);
+    await this.redis.delete(key);
+    return existed;
+  }
+
+  private key(roomId: string, name: string): string {
+    return `ludo:room:${roomId}:request:${name}`;
+  }
+
+  private pruneMemory(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.memory) {
+      if (entry.expiresAt <= now) this.memory.delete(key);
+    }
+  }
+}
+
+export const roomRequestStore = new RoomRequestStore();
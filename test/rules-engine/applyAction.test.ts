@@ -0,0 +1,75 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { PLAYER_COLOR_MAPS, getGameConfig } from "../../src/config/ludoConfigBackend";
+import { applyAction } from "../../src/game-logic/rules-engine";
+import { currentId, makeState } from "./helpers";
+
+const [RED, BLUE] = PLAYER_COLOR_MAPS[4];
+const config = getGameConfig(4);
+
+describe("applyAction", () => {
+  it("skips the turn when nothing can move", () => {
+    const { nextState, events } = applyAction(makeState(), { type: "roll", playerId: "p0", dice: 3 });
+    assert.ok(events.some((e) => e.type === "turn:skipped"));
+    assert.equal(currentId(nextState), "p1");
+    assert.equal(nextState.diceValue, null);
+  });
+
+  it("releases a token on a six and grants another roll", () => {
+    const rolled = applyAction(makeState(), { type: "roll", playerId: "p0", dice: 6 }).nextState;
+    assert.equal(rolled.validMoves.length, 4);
+
+    const { nextState, events } = applyAction(rolled, {
+      type: "move",
+      playerId: "p0",
+      tokenId: 0,
+      color: RED,
+      diceValue: 6,
+    });
+    assert.equal(nextState.tokens[RED][0].position, config.START_POSITIONS[RED]);
+    assert.ok(events.some((e) => e.type === "token:released"));
+    assert.ok(events.some((e) => e.type === "turn:extra"));
+    assert.equal(currentId(nextState), "p0");
+  });
+
+  it("sends a captured token back to base and counts the capture", () => {
+    const from = config.START_POSITIONS[RED] + 1;
+    const to = from + 3;
+    assert.ok(!config.SAFE_INDICES.includes(to));
+    const state = makeState();
+    state.tokens[RED][0] = { ...state.tokens[RED][0], position: from, status: "active", steps: 1 };
+    state.tokens[BLUE][0] = { ...state.tokens[BLUE][0], position: to, status: "active", steps: 20 };
+
+    const rolled = applyAction(state, { type: "roll", playerId: "p0", dice: 3 }).nextState;
+    const { nextState, events } = applyAction(rolled, {
+      type: "move",
+      playerId: "p0",
+      tokenId: 0,
+      color: RED,
+      diceValue: 3,
+    });
+    assert.equal(nextState.tokens[RED][0].position, to);
+    assert.equal(nextState.tokens[BLUE][0].status, "base");
+    assert.equal(nextState.captureCounts.p0, 1);
+    assert.ok(events.some((e) => e.type === "token:captured"));
+    assert.equal(currentId(nextState), "p0");
+  });
+
+  it("rejects actions out of turn or with the wrong dice", () => {
+    const state = makeState();
+    assert.throws(() => applyAction(state, { type: "roll", playerId: "p1", dice: 6 }), /NOT_YOUR_TURN/);
+    const rolled = applyAction(state, { type: "roll", playerId: "p0", dice: 6 }).nextState;
+    assert.throws(() => applyAction(rolled, { type: "roll", playerId: "p0", dice: 6 }), /ALREADY_ROLLED/);
+    assert.throws(
+      () => applyAction(rolled, { type: "move", playerId: "p0", tokenId: 0, color: RED, diceValue: 5 }),
+      /DICE_MISMATCH/
+    );
+  });
+
+  it("never mutates the state it is given", () => {
+    const state = makeState();
+    const before = JSON.stringify(state);
+    applyAction(state, { type: "roll", playerId: "p0", dice: 6 });
+    assert.equal(JSON.stringify(state), before);
+  });
+});
@@ -0,0 +1,44 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ARM_LENGTH, PLAYER_COLOR_MAPS, SUPPORTED_PLAYER_COUNTS, getGameConfig } from "../../src/config/ludoConfigBackend";
+import { applyAction } from "../../src/game-logic/rules-engine";
+import { Recorder, currentId, makeState } from "./helpers";
+
+describe("board sizes", () => {
+  for (const maxPlayers of SUPPORTED_PLAYER_COUNTS) {
+    describe(`${maxPlayers} players`, () => {
+      const config = getGameConfig(maxPlayers);
+      const colors = PLAYER_COLOR_MAPS[maxPlayers];
+
+      it("gives every seat its own start cell on the track", () => {
+        const starts = colors.map((c) => config.START_POSITIONS[c]);
+        assert.equal(new Set(starts).size, colors.length);
+        starts.forEach((start) => assert.ok(start >= 0 && start < config.TRACK_LENGTH));
+        assert.equal(config.TRACK_LENGTH % ARM_LENGTH, 0);
+      });
+
+      it("releases each color onto its start cell", () => {
+        const game = new Recorder(makeState({ maxPlayers }));
+        for (const color of colors) {
+          game.turn(6);
+          const released = game.state.tokens[color].filter((t) => t.status !== "base");
+          assert.equal(released.length, 1, color);
+          assert.equal(released[0].position, config.START_POSITIONS[color], color);
+          // Hand the extra turn on so the next seat rolls.
+          game.apply({ type: "pass", playerId: currentId(game.state) });
+        }
+      });
+
+      it("passes the turn around every seat in order", () => {
+        let state = makeState({ maxPlayers });
+        const order: string[] = [];
+        for (let i = 0; i < colors.length; i += 1) {
+          order.push(currentId(state));
+          state = applyAction(state, { type: "pass", playerId: currentId(state) }).nextState;
+        }
+        assert.deepEqual(order, colors.map((_, idx) => `p${idx}`));
+        assert.equal(currentId(state), "p0");
+      });
+    });
+  }
+});
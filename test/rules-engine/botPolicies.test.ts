@@ -0,0 +1,26 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { BOT_DIFFICULTIES, chooseBotMove } from "../../src/game-logic/rules-engine";
+import { captureChoice, makeState } from "./helpers";
+
+describe("bot policies", () => {
+  it("always picks a legal move", () => {
+    const state = captureChoice();
+    for (const difficulty of BOT_DIFFICULTIES) {
+      const move = chooseBotMove(state, difficulty);
+      assert.ok(move && state.validMoves.some((m) => m.id === move.id && m.color === move.color), difficulty);
+    }
+  });
+
+  it("takes the capture on greedy and lookahead", () => {
+    const state = captureChoice();
+    assert.deepEqual(chooseBotMove(state, "greedy"), { id: 0, color: "red" });
+    assert.deepEqual(chooseBotMove(state, "lookahead"), { id: 0, color: "red" });
+  });
+
+  it("has nothing to play before rolling", () => {
+    for (const difficulty of BOT_DIFFICULTIES) {
+      assert.equal(chooseBotMove(makeState(), difficulty), null);
+    }
+  });
+});
@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { PLAYER_COLOR_MAPS, getGameConfig } from "../../src/config/ludoConfigBackend";
+import { RulesState, applyAction, getHomeLockedColors, getHomeUnlocked } from "../../src/game-logic/rules-engine";
+import { makeState } from "./helpers";
+
+const [RED, BLUE] = PLAYER_COLOR_MAPS[4];
+const config = getGameConfig(4);
+
+/** Red's token sitting on its home entrance with a full lap behind it. */
+const atHomeEntrance = (captureToEnterHome: boolean): RulesState => {
+  const state = makeState({ rules: { captureToEnterHome } });
+  state.tokens[RED][0] = {
+    ...state.tokens[RED][0],
+    position: config.HOME_ENTRY_INDICES[RED],
+    status: "active",
+    steps: config.TRACK_LENGTH - 2,
+  };
+  return state;
+};
+
+const moveFirstToken = (state: RulesState, dice: number) => {
+  const rolled = applyAction(state, { type: "roll", playerId: "p0", dice }).nextState;
+  return applyAction(rolled, { type: "move", playerId: "p0", tokenId: 0, color: RED, diceValue: dice });
+};
+
+describe("capture before entering home", () => {
+  it("enters the home run normally when the rule is off", () => {
+    const { nextState } = moveFirstToken(atHomeEntrance(false), 2);
+    assert.ok(nextState.tokens[RED][0].position >= config.TRACK_LENGTH);
+  });
+
+  it("keeps a token circling until its owner has captured", () => {
+    const state = atHomeEntrance(true);
+    assert.deepEqual(getHomeLockedColors(state), PLAYER_COLOR_MAPS[4]);
+    const { nextState } = moveFirstToken(state, 2);
+    assert.ok(nextState.tokens[RED][0].position < config.TRACK_LENGTH);
+  });
+
+  it("unlocks the home run with the first capture", () => {
+    const state = makeState({ rules: { captureToEnterHome: true } });
+    const from = config.START_POSITIONS[RED] + 1;
+    state.tokens[RED][0] = { ...state.tokens[RED][0], position: from, status: "active", steps: 1 };
+    state.tokens[BLUE][0] = { ...state.tokens[BLUE][0], position: from + 3, status: "active", steps: 20 };
+
+    const { nextState, events } = moveFirstToken(state, 3);
+    assert.ok(events.some((e) => e.type === "home:unlocked" && e.playerId === "p0"));
+    assert.equal(getHomeUnlocked(nextState).p0, true);
+    assert.equal(getHomeUnlocked(nextState).p1, false);
+  });
+});
@@ -0,0 +1,105 @@
+import { PLAYER_COLOR_MAPS, PlayerColor, Token } from "../../src/config/ludoConfigBackend";
+import {
+  DEFAULT_HOUSE_RULES,
+  HouseRules,
+  ReplayEvent,
+  RulesAction,
+  RulesState,
+  applyAction,
+} from "../../src/game-logic/rules-engine";
+
+type StateOptions = {
+  maxPlayers?: number;
+  mode?: RulesState["mode"];
+  rules?: Partial<HouseRules>;
+};
+
+/** A freshly started game: every token in base, first seat to roll. Seat i is player `p${i}`. */
+export const makeState = (options: StateOptions = {}): RulesState => {
+  const maxPlayers = options.maxPlayers ?? 4;
+  const colors = PLAYER_COLOR_MAPS[maxPlayers];
+  const rules = { ...DEFAULT_HOUSE_RULES, ...options.rules };
+  return {
+    status: "in_progress",
+    mode: options.mode ?? "individual",
+    maxPlayers,
+    teamLayout: null,
+    rules,
+    players: colors.map((color, idx) => ({ id: `p${idx}`, color })),
+    currentPlayerIndex: 0,
+    tokens: Object.fromEntries(
+      colors.map((color) => [
+        color,
+        Array.from({ length: rules.tokensPerPlayer }, (_, id): Token => ({
+          id,
+          color,
+          position: -1,
+          status: "base",
+          steps: 0,
+        })),
+      ])
+    ) as Record<PlayerColor, Token[]>,
+    diceValue: null,
+    validMoves: [],
+    winners: [],
+    consecutiveSixes: {},
+    turnStart: null,
+    captureCounts: {},
+    resigned: [],
+  };
+};
+
+export const currentId = (state: RulesState) => state.players[state.currentPlayerIndex].id;
+
+/**
+ * Drives a game the way gameActionService does and records what it would
+ * persist, so the log can be fed to rebuildBoard.
+ */
+export class Recorder {
+  events: ReplayEvent[] = [];
+  revision = 0;
+
+  constructor(public state: RulesState) {}
+
+  apply(action: RulesAction) {
+    const result = applyAction(this.state, action);
+    this.state = result.nextState;
+    this.revision += 1;
+    this.events.push({
+      revision: this.revision,
+      type: action.type === "roll" ? "dice:roll" : action.type === "pass" ? "turn:advance" : action.type === "resign" ? "player:resign" : "move",
+      actorRoomPlayerId: action.playerId,
+      payload:
+        action.type === "roll"
+          ? { dice: action.dice }
+          : action.type === "move"
+            ? { tokenId: action.tokenId, color: action.color, diceValue: action.diceValue, enterHome: action.enterHome }
+            : action.type === "pass"
+              ? { previousPlayerId: action.playerId }
+              : {},
+    });
+    return result;
+  }
+
+  /** Roll `dice` for whoever is up and play the first legal move, if any. */
+  turn(dice: number) {
+    const playerId = currentId(this.state);
+    this.apply({ type: "roll", playerId, dice });
+    const move = this.state.validMoves[0];
+    if (this.state.diceValue === null || !move) return;
+    this.apply({ type: "move", playerId, tokenId: move.id, color: move.color, diceValue: dice });
+  }
+}
+
+/**
+ * p0 (red) has rolled a 3 with two tokens out: token 0 can capture blue's
+ * token three cells ahead, token 1 can only walk on.
+ */
+export const captureChoice = (): RulesState => {
+  const state = makeState();
+  const [red, blue] = PLAYER_COLOR_MAPS[4];
+  state.tokens[red][0] = { ...state.tokens[red][0], position: 1, status: "active", steps: 1 };
+  state.tokens[red][1] = { ...state.tokens[red][1], position: 30, status: "active", steps: 30 };
+  state.tokens[blue][0] = { ...state.tokens[blue][0], position: 4, status: "active", steps: 20 };
+  return applyAction(state, { type: "roll", playerId: "p0", dice: 3 }).nextState;
+};
@@ -0,0 +1,42 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { DEFAULT_HOUSE_RULES, applyAction, normalizeHouseRules, validateHouseRules } from "../../src/game-logic/rules-engine";
+import { currentId, makeState } from "./helpers";
+
+describe("house rules", () => {
+  it("fills missing fields from the defaults", () => {
+    assert.deepEqual(normalizeHouseRules(undefined), DEFAULT_HOUSE_RULES);
+    const rules = normalizeHouseRules({ releaseFaces: [6, 1, 6, 9], extraTurnOn: { capture: false } });
+    assert.deepEqual(rules.releaseFaces, [1, 6]);
+    assert.deepEqual(rules.extraTurnOn, { six: true, capture: false, home: true });
+  });
+
+  it("rejects bad host input instead of dropping it", () => {
+    assert.ok("error" in validateHouseRules({ releaseFaces: [] }));
+    assert.ok("error" in validateHouseRules({ releaseFaces: [7] }));
+    assert.ok("error" in validateHouseRules({ extraTurnOn: { double: true } }));
+    assert.ok("error" in validateHouseRules({ safeSquaresProtect: "yes" }));
+    assert.ok("error" in validateHouseRules({ threeSixesPenalty: "explode" }));
+    assert.ok("rules" in validateHouseRules({ releaseFaces: [1, 6], blockadesInIndividual: true }));
+  });
+
+  it("releases tokens on every configured face", () => {
+    const state = makeState({ rules: { releaseFaces: [1, 6] } });
+    const { nextState } = applyAction(state, { type: "roll", playerId: "p0", dice: 1 });
+    assert.equal(nextState.validMoves.length, 4);
+  });
+
+  it("passes the turn after a six when that extra turn is off", () => {
+    const state = makeState({ rules: { extraTurnOn: { six: false, capture: true, home: true } } });
+    const rolled = applyAction(state, { type: "roll", playerId: "p0", dice: 6 }).nextState;
+    const { nextState, events } = applyAction(rolled, {
+      type: "move",
+      playerId: "p0",
+      tokenId: 0,
+      color: "red",
+      diceValue: 6,
+    });
+    assert.ok(!events.some((e) => e.type === "turn:extra"));
+    assert.equal(currentId(nextState), "p1");
+  });
+});
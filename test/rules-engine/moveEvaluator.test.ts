@@ -0,0 +1,33 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { getGameConfig } from "../../src/config/ludoConfigBackend";
+import { evaluateMoves } from "../../src/game-logic/rules-engine";
+import { dangerAt } from "../../src/game-logic/rules-engine/moveEvaluator";
+import { captureChoice, makeState } from "./helpers";
+
+const config = getGameConfig(4);
+
+describe("move evaluator", () => {
+  it("scores every valid move, capture first", () => {
+    const state = captureChoice();
+    const evaluations = evaluateMoves(state);
+    assert.equal(evaluations.length, state.validMoves.length);
+    assert.deepEqual(evaluations[0].token, { id: 0, color: "red" });
+    assert.equal(evaluations[0].factors.captures, 1);
+    assert.ok(evaluations[0].score > evaluations[1].score);
+  });
+
+  it("has nothing to score before the dice is rolled", () => {
+    assert.deepEqual(evaluateMoves(makeState()), []);
+  });
+
+  it("counts opponents within one roll behind a cell, except on protected safe cells", () => {
+    const state = makeState();
+    state.tokens.blue[0] = { ...state.tokens.blue[0], position: 10, status: "active", steps: 5 };
+    assert.equal(dangerAt(state, "red", 12, config), 1);
+    assert.equal(dangerAt(state, "red", 17, config), 0);
+    const safe = config.SAFE_INDICES.find((cell) => cell > 10 && cell <= 16);
+    assert.ok(safe !== undefined);
+    assert.equal(dangerAt(state, "red", safe, config), 0);
+  });
+});
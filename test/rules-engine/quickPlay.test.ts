@@ -0,0 +1,40 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { PLAYER_COLOR_MAPS, getGameConfig } from "../../src/config/ludoConfigBackend";
+import { applyAction, validateHouseRules } from "../../src/game-logic/rules-engine";
+import { makeState } from "./helpers";
+
+const [RED] = PLAYER_COLOR_MAPS[4];
+const config = getGameConfig(4);
+
+describe("quick play", () => {
+  it("accepts one to four tokens per player", () => {
+    assert.ok("rules" in validateHouseRules({ tokensPerPlayer: 1, startTokenReleased: true }));
+    assert.ok("error" in validateHouseRules({ tokensPerPlayer: 0 }));
+    assert.ok("error" in validateHouseRules({ tokensPerPlayer: 5 }));
+  });
+
+  it("only offers the tokens the room plays with", () => {
+    const state = makeState({ rules: { tokensPerPlayer: 2 } });
+    const { nextState } = applyAction(state, { type: "roll", playerId: "p0", dice: 6 });
+    assert.equal(nextState.validMoves.length, 2);
+  });
+
+  it("finishes a player once their last token is home", () => {
+    const state = makeState({ rules: { tokensPerPlayer: 1 } });
+    const lastCell = config.HOME_POSITION - 2;
+    state.tokens[RED][0] = { ...state.tokens[RED][0], position: lastCell, status: "safe", steps: lastCell };
+
+    const rolled = applyAction(state, { type: "roll", playerId: "p0", dice: 1 }).nextState;
+    const { nextState, events } = applyAction(rolled, {
+      type: "move",
+      playerId: "p0",
+      tokenId: 0,
+      color: RED,
+      diceValue: 1,
+    });
+    assert.equal(nextState.tokens[RED][0].status, "home");
+    assert.deepEqual(nextState.winners, [{ playerId: "p0", rank: 1 }]);
+    assert.ok(events.some((e) => e.type === "player:finished"));
+  });
+});
@@ -0,0 +1,79 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { rebuildBoard } from "../../src/game-logic/rules-engine";
+import { Recorder, makeState } from "./helpers";
+
+const DICE = [6, 4, 3, 6, 6, 2, 5, 1, 6, 6, 6, 3, 2, 6, 5, 4, 1, 6, 3, 2, 6, 1, 4, 5, 2, 3];
+
+const playScript = (maxPlayers = 4) => {
+  const game = new Recorder(makeState({ maxPlayers }));
+  const snapshots = [game.state];
+  for (const dice of DICE) {
+    game.turn(dice);
+    snapshots[game.revision] = game.state;
+  }
+  return { game, snapshots };
+};
+
+describe("replay", () => {
+  it("rebuilds the final board from the recorded events", () => {
+    const { game } = playScript();
+    assert.deepEqual(rebuildBoard(makeState(), game.events), game.state);
+  });
+
+  it("rebuilds the board at any recorded revision", () => {
+    const { game, snapshots } = playScript(6);
+    for (let revision = 1; revision <= game.revision; revision += 1) {
+      if (!snapshots[revision]) continue;
+      assert.deepEqual(rebuildBoard(makeState({ maxPlayers: 6 }), game.events, revision), snapshots[revision], `revision ${revision}`);
+    }
+  });
+
+  it("replays pauses and resignations", () => {
+    const game = new Recorder(makeState());
+    game.turn(6);
+    game.turn(3);
+    const events = [
+      ...game.events,
+      { revision: game.revision + 1, type: "game:paused", actorRoomPlayerId: null, payload: {} },
+    ];
+    assert.equal(rebuildBoard(makeState(), events).status, "paused");
+
+    game.revision += 2;
+    game.events = [
+      ...events,
+      { revision: game.revision, type: "game:resumed", actorRoomPlayerId: null, payload: {} },
+    ];
+    game.apply({ type: "resign", playerId: "p2" });
+    assert.deepEqual(rebuildBoard(makeState(), game.events), game.state);
+  });
+
+  it("ends an abandoned game with the ranks the reaper recorded", () => {
+    const game = new Recorder(makeState());
+    game.turn(6);
+    game.turn(4);
+    const winners = [
+      { playerId: "p0", rank: 1 },
+      { playerId: "p1", rank: 2 },
+      { playerId: "p2", rank: 3 },
+      { playerId: "p3", rank: 4 },
+    ];
+    const events = [
+      ...game.events,
+      { revision: game.revision + 1, type: "game:abandoned", actorRoomPlayerId: null, payload: { reason: "idle", idleMs: 1, winners } },
+    ];
+
+    const board = rebuildBoard(makeState(), events);
+    assert.equal(board.status, "abandoned");
+    assert.deepEqual(board.winners, winners);
+    assert.equal(board.diceValue, null);
+    assert.deepEqual(board.validMoves, []);
+    assert.deepEqual(board.tokens, game.state.tokens);
+  });
+
+  it("throws when an event does not fit the board", () => {
+    const { game } = playScript();
+    const tampered = game.events.map((e, idx) => (idx === 0 ? { ...e, actorRoomPlayerId: "p3" } : e));
+    assert.throws(() => rebuildBoard(makeState(), tampered), /NOT_YOUR_TURN/);
+  });
+});
@@ -0,0 +1,47 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { PLAYER_COLOR_MAPS } from "../../src/config/ludoConfigBackend";
+import {
+  TEAM_LAYOUTS,
+  applyAction,
+  getTeamColors,
+  getTeamIndexForPosition,
+  resolveTeamLayout,
+  validateTeamLayout,
+} from "../../src/game-logic/rules-engine";
+import { makeState } from "./helpers";
+
+describe("team layouts", () => {
+  it("puts every seat on exactly one team", () => {
+    for (const layout of Object.values(TEAM_LAYOUTS)) {
+      const seats = layout.teams.flat().sort((a, b) => a - b);
+      assert.deepEqual(seats, Array.from({ length: layout.maxPlayers }, (_, idx) => idx), layout.name);
+    }
+  });
+
+  it("only accepts layouts that fit the player count", () => {
+    assert.deepEqual(validateTeamLayout(6, undefined), { layout: "2v2v2" });
+    assert.deepEqual(validateTeamLayout(6, "3v3"), { layout: "3v3" });
+    assert.ok("error" in validateTeamLayout(6, "2v2"));
+    assert.ok("error" in validateTeamLayout(5, undefined));
+    assert.equal(resolveTeamLayout(4, "3v3")?.name, "2v2");
+  });
+
+  it("maps seats and colors to their team", () => {
+    const colors = PLAYER_COLOR_MAPS[6];
+    const threes = TEAM_LAYOUTS["3v3"];
+    assert.deepEqual(getTeamColors(threes, colors[0]), [colors[0], colors[2], colors[4]]);
+    assert.equal(getTeamIndexForPosition(threes, 3), 1);
+    assert.equal(getTeamIndexForPosition(TEAM_LAYOUTS["2v2v2"], 5), 2);
+  });
+
+  it("keeps a three-team game going after one team resigns", () => {
+    const state = { ...makeState({ maxPlayers: 6, mode: "team" }), teamLayout: "2v2v2" as const };
+    const { nextState } = applyAction(state, { type: "resign", playerId: "p0" });
+    assert.deepEqual([...nextState.resigned].sort(), ["p0", "p3"]);
+    assert.equal(nextState.status, "in_progress");
+
+    const { nextState: finished } = applyAction(nextState, { type: "resign", playerId: "p1" });
+    assert.equal(finished.status, "completed");
+  });
+});
@@ -0,0 +1,59 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { applyAction } from "../../src/game-logic/rules-engine";
+import { Recorder, currentId, makeState } from "./helpers";
+
+describe("resigning", () => {
+  it("takes the whole team out and ends a two-team game", () => {
+    // 2v2: seats 0 and 2 against 1 and 3.
+    const state = makeState({ mode: "team" });
+    const { nextState, events } = applyAction(state, { type: "resign", playerId: "p0" });
+
+    assert.deepEqual([...nextState.resigned].sort(), ["p0", "p2"]);
+    assert.equal(nextState.status, "completed");
+    const rankOf = (id: string) => nextState.winners.find((w) => w.playerId === id)?.rank;
+    assert.equal(rankOf("p0"), 4, "the requester takes the lowest rank");
+    assert.equal(rankOf("p2"), 3);
+    assert.deepEqual([rankOf("p1"), rankOf("p3")].sort(), [1, 2]);
+    assert.ok(events.some((e) => e.type === "game:completed"));
+  });
+
+  it("keeps an individual game going while two players are left", () => {
+    const state = makeState();
+    const { nextState } = applyAction(state, { type: "resign", playerId: "p0" });
+
+    assert.equal(nextState.status, "in_progress");
+    assert.deepEqual(nextState.winners, [{ playerId: "p0", rank: 4 }]);
+    assert.equal(currentId(nextState), "p1", "the resigned seat's turn passes on");
+  });
+
+  it("sends unfinished tokens back to base and skips the seat afterwards", () => {
+    const game = new Recorder(makeState());
+    game.turn(6);
+    game.turn(2);
+    game.apply({ type: "resign", playerId: "p0" });
+
+    assert.ok(game.state.tokens.red.every((t) => t.status === "base"));
+    game.turn(1); // p1
+    game.turn(1); // p2
+    game.turn(1); // p3
+    assert.equal(currentId(game.state), "p1");
+  });
+
+  it("rejects a second resign", () => {
+    const { nextState } = applyAction(makeState(), { type: "resign", playerId: "p0" });
+    assert.throws(() => applyAction(nextState, { type: "resign", playerId: "p0" }), /ALREADY_RESIGNED/);
+  });
+
+  it("lets a player out of a paused game and leaves the turn for resume", () => {
+    const paused = { ...makeState(), status: "paused" as const };
+    const { nextState } = applyAction(paused, { type: "resign", playerId: "p0" });
+
+    assert.equal(nextState.status, "paused");
+    assert.deepEqual(nextState.resigned, ["p0"]);
+    assert.equal(currentId(nextState), "p0", "the turn waits for the game to resume");
+
+    const resumed = applyAction({ ...nextState, status: "in_progress" }, { type: "pass", playerId: "p0" });
+    assert.equal(currentId(resumed.nextState), "p1");
+  });
+});
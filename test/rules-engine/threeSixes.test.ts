@@ -0,0 +1,54 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { applyAction } from "../../src/game-logic/rules-engine";
+import { Recorder, currentId, makeState } from "./helpers";
+
+describe("three sixes in a row", () => {
+  it("rolls the whole turn back by default", () => {
+    const game = new Recorder(makeState());
+    const before = game.state.tokens;
+    game.turn(6);
+    game.turn(6);
+    assert.equal(currentId(game.state), "p0");
+    assert.notDeepEqual(game.state.tokens, before);
+
+    const { nextState, events } = applyAction(game.state, { type: "roll", playerId: "p0", dice: 6 });
+    assert.deepEqual(nextState.tokens, before);
+    assert.ok(events.some((e) => e.type === "turn:forfeited" && e.rolledBack));
+    assert.equal(currentId(nextState), "p1");
+    assert.equal(nextState.diceValue, null);
+    assert.equal(nextState.consecutiveSixes.p0, 0);
+  });
+
+  it("keeps the moves but ends the turn with end_turn", () => {
+    const game = new Recorder(makeState({ rules: { threeSixesPenalty: "end_turn" } }));
+    game.turn(6);
+    game.turn(6);
+    const moved = game.state.tokens;
+
+    const { nextState, events } = applyAction(game.state, { type: "roll", playerId: "p0", dice: 6 });
+    assert.deepEqual(nextState.tokens, moved);
+    assert.ok(events.some((e) => e.type === "turn:forfeited" && !e.rolledBack));
+    assert.equal(currentId(nextState), "p1");
+  });
+
+  it("lets the third six play when the penalty is off", () => {
+    const game = new Recorder(makeState({ rules: { threeSixesPenalty: "off" } }));
+    game.turn(6);
+    game.turn(6);
+
+    const { nextState, events } = applyAction(game.state, { type: "roll", playerId: "p0", dice: 6 });
+    assert.ok(!events.some((e) => e.type === "turn:forfeited"));
+    assert.equal(currentId(nextState), "p0");
+    assert.equal(nextState.diceValue, 6);
+    assert.ok(nextState.validMoves.length > 0);
+  });
+
+  it("only counts sixes rolled in a row", () => {
+    const game = new Recorder(makeState());
+    game.turn(6);
+    game.turn(3);
+    assert.equal(currentId(game.state), "p1");
+    assert.equal(game.state.consecutiveSixes.p0, 0);
+  });
+});
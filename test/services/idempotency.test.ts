@@ -0,0 +1,67 @@
+import assert from "node:assert/strict";
+import { EventEmitter } from "node:events";
+import { describe, it } from "node:test";
+import { idempotencyMiddleware } from "../../src/middleware/idempotency";
+
+// Without Redis the store keeps keys in memory, which is what these run against.
+const makeRequest = (key: string, body: unknown = { tokenId: 1 }) =>
+  ({
+    header: (name: string) => (name === "Idempotency-Key" ? key : undefined),
+    path: "/rooms/r1/move",
+    params: { roomId: "r1" },
+    userId: "u1",
+    method: "POST",
+    body,
+  }) as any;
+
+const makeResponse = () => {
+  const res: any = new EventEmitter();
+  res.statusCode = 200;
+  res.headers = {} as Record<string, string>;
+  res.sent = new Promise((resolve) => {
+    res.json = (body: unknown) => {
+      resolve({ statusCode: res.statusCode, body });
+      return res;
+    };
+  });
+  res.status = (code: number) => {
+    res.statusCode = code;
+    return res;
+  };
+  res.setHeader = (name: string, value: string) => {
+    res.headers[name] = value;
+  };
+  return res;
+};
+
+const run = async (key: string, handler?: (res: any) => void, body?: unknown) => {
+  const res = makeResponse();
+  await idempotencyMiddleware(makeRequest(key, body), res, () => handler?.(res));
+  return { res, sent: (await res.sent) as { statusCode: number; body: any } };
+};
+
+describe("idempotency middleware", () => {
+  it("replays a finished request to a retry sent right after the response", async () => {
+    const first = await run("k-replay", (res) => res.json({ dice: 4 }));
+    assert.deepEqual(first.sent, { statusCode: 200, body: { dice: 4 } });
+
+    const retry = await run("k-replay");
+    assert.deepEqual(retry.sent, { statusCode: 200, body: { dice: 4 } });
+    assert.equal(retry.res.headers["Idempotent-Replayed"], "true");
+  });
+
+  it("lets a failed request run again under the same key", async () => {
+    const failed = await run("k-failed", (res) => res.status(409).json({ error: "NOT_YOUR_TURN" }));
+    assert.equal(failed.sent.statusCode, 409);
+
+    const retry = await run("k-failed", (res) => res.json({ dice: 2 }));
+    assert.deepEqual(retry.sent, { statusCode: 200, body: { dice: 2 } });
+    assert.equal(retry.res.headers["Idempotent-Replayed"], undefined);
+  });
+
+  it("refuses a key reused for a different body", async () => {
+    await run("k-body", (res) => res.json({ ok: true }), { tokenId: 1 });
+    const reused = await run("k-body", undefined, { tokenId: 2 });
+    assert.equal(reused.sent.statusCode, 422);
+  });
+});
@@ -0,0 +1,47 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Types } from "mongoose";
+import {
+  formatMatchCursor,
+  matchPageFilter,
+  matchReadFilter,
+  parseMatchCursor,
+} from "../../src/services/matchResultService";
+
+describe("match history paging", () => {
+  const userId = new Types.ObjectId().toString();
+  const row = { _id: new Types.ObjectId(), endedAt: new Date("2026-03-01T10:00:00.123Z") };
+
+  it("round-trips a cursor", () => {
+    const cursor = parseMatchCursor(formatMatchCursor(row));
+    assert.ok(cursor);
+    assert.equal(cursor.endedAt.getTime(), row.endedAt.getTime());
+    assert.equal(cursor.id.toString(), row._id.toString());
+  });
+
+  it("rejects cursors it did not hand out", () => {
+    assert.equal(parseMatchCursor("1700000000000"), null);
+    assert.equal(parseMatchCursor("soon_" + row._id.toString()), null);
+    assert.equal(parseMatchCursor("1700000000000_nope"), null);
+  });
+
+  it("lists only the user's matches, starting after the cursor", () => {
+    assert.deepEqual(Object.keys(matchPageFilter(userId)), ["participantUserIds"]);
+
+    const cursor = parseMatchCursor(formatMatchCursor(row))!;
+    const filter = matchPageFilter(userId, cursor);
+    assert.equal(filter.participantUserIds.toString(), userId);
+    // Same millisecond falls back to the id, so ties still page apart.
+    assert.deepEqual(filter.$or, [
+      { endedAt: { $lt: cursor.endedAt } },
+      { endedAt: cursor.endedAt, _id: { $lt: cursor.id } },
+    ]);
+  });
+
+  it("shows a single match only to the people who played it", () => {
+    const matchId = row._id.toString();
+    const filter = matchReadFilter(matchId, userId);
+    assert.equal(filter._id.toString(), matchId);
+    assert.equal(filter.participantUserIds.toString(), userId);
+  });
+});
@@ -0,0 +1,96 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Types } from "mongoose";
+import { RematchInvite } from "../../src/models/Room";
+import {
+  heldRematchPositions,
+  inviteSeatProblem,
+  planInvites,
+  planSeats,
+  rematchClaimFilter,
+} from "../../src/services/rematchService";
+
+const room = (mode: "individual" | "team" = "individual") => ({ settings: { maxPlayers: 4, mode } });
+const seat = (id: string, color: string, position: number, extra: Record<string, unknown> = {}) => ({
+  _id: id,
+  userId: `u-${id}`,
+  color,
+  position,
+  ...extra,
+});
+const players = [
+  seat("a", "red", 0),
+  seat("b", "green", 1, { isBot: true }),
+  seat("c", "yellow", 2),
+  seat("d", "blue", 3),
+];
+const ranks: Record<string, number> = { a: 3, b: 4, c: 1, d: 2 };
+const rankOf = (p: any) => ranks[p._id];
+
+describe("rematch seats", () => {
+  it("keeps everyone's color by default", () => {
+    const seats = planSeats(room(), players, null);
+    assert.deepEqual(
+      seats.map((s) => [s.player._id, s.color, s.position]),
+      [
+        ["a", "red", 0],
+        ["b", "green", 1],
+        ["c", "yellow", 2],
+        ["d", "blue", 3],
+      ]
+    );
+  });
+
+  it("hands out colors by rank when asked", () => {
+    const seats = planSeats(room(), players, rankOf);
+    assert.deepEqual(
+      seats.map((s) => [s.player._id, s.position]),
+      [
+        ["c", 0],
+        ["d", 1],
+        ["a", 2],
+        ["b", 3],
+      ]
+    );
+  });
+
+  it("keeps team seats so partners stay together", () => {
+    const seats = planSeats(room("team"), players, rankOf);
+    assert.deepEqual(seats.map((s) => s.position), [0, 1, 2, 3]);
+  });
+
+  it("invites every other human to their planned seat", () => {
+    const seats = planSeats(room(), players, null);
+    assert.deepEqual(planInvites(seats, players[0]), [
+      { userId: "u-c", color: "yellow", position: 2, status: "invited" },
+      { userId: "u-d", color: "blue", position: 3, status: "invited" },
+    ]);
+  });
+});
+
+describe("rematch claim", () => {
+  it("takes the link only while it is empty, and gives back only its own", () => {
+    const rematchId = new Types.ObjectId();
+    assert.deepEqual(rematchClaimFilter("r1"), { _id: "r1", rematchRoomId: null });
+    assert.deepEqual(rematchClaimFilter("r1", rematchId), { _id: "r1", rematchRoomId: rematchId });
+  });
+});
+
+describe("rematch invites", () => {
+  const invites: RematchInvite[] = [
+    { userId: "u-c", color: "yellow", position: 2, status: "invited" },
+    { userId: "u-d", color: "blue", position: 3, status: "declined" },
+  ];
+
+  it("holds seats only for invitees who have not answered", () => {
+    assert.deepEqual(heldRematchPositions(invites), [2]);
+    assert.deepEqual(heldRematchPositions(invites, "u-c"), [], "an invitee's own seat is not held against them");
+    assert.deepEqual(heldRematchPositions(undefined), []);
+  });
+
+  it("seats an accepting invitee only in a free seat of a room with space", () => {
+    assert.equal(inviteSeatProblem(invites[0], [0, 1], 4), null);
+    assert.equal(inviteSeatProblem(invites[0], [0, 2], 4), "SEAT_TAKEN");
+    assert.equal(inviteSeatProblem(invites[0], [0, 1, 3, 4], 4), "ROOM_FULL");
+  });
+});
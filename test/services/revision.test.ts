@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { assertRevision } from "../../src/services/gameActionService";
+import { toRevisionConflict } from "../../src/services/roomSyncService";
+import { RuntimeRoomState } from "../../src/state/gameStateCache";
+
+const state = { revision: 7 } as RuntimeRoomState;
+const seats = [
+  { _id: "rp0", userId: "u0" },
+  { _id: "rp1", userId: "u1" },
+];
+
+describe("expectedRevision", () => {
+  it("lets a seat holder act on the current revision or without one", () => {
+    assert.doesNotThrow(() => assertRevision(state, seats, { source: "player", userId: "u1", expectedRevision: 7 }));
+    assert.doesNotThrow(() => assertRevision(state, seats, { source: "player", userId: "u1" }));
+  });
+
+  it("sends a stale seat holder to resync", () => {
+    assert.throws(
+      () => assertRevision(state, seats, { source: "player", userId: "u1", expectedRevision: 6 }),
+      /REVISION_MISMATCH/
+    );
+  });
+
+  it("refuses callers without a seat before looking at the revision", () => {
+    assert.throws(
+      () => assertRevision(state, seats, { source: "player", userId: "watcher", expectedRevision: 6 }),
+      /NOT_YOUR_TURN/
+    );
+  });
+
+  it("leaves server-side actors to their deadline check", () => {
+    assert.doesNotThrow(() => assertRevision(state, [], { source: "timer", deadline: "2026-01-01T00:00:00.000Z" }));
+  });
+
+  it("hands the stale caller the current board with the 409", () => {
+    const live = {
+      roomId: "r1",
+      status: "in_progress",
+      currentPlayerIndex: 1,
+      revision: 7,
+      gameBoard: { currentPlayerId: "rp1", diceValue: 5 },
+    } as RuntimeRoomState;
+    assert.deepEqual(toRevisionConflict(live), {
+      revision: 7,
+      snapshot: { revision: 7, status: "in_progress", currentPlayerIndex: 1, gameBoard: live.gameBoard },
+    });
+    assert.equal(toRevisionConflict(null), null);
+  });
+});
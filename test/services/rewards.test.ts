@@ -0,0 +1,54 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { computeReward, levelForXp, xpToNextLevel } from "../../src/services/rewardService";
+
+const seat = (rank: number, extra: Record<string, unknown> = {}) => ({
+  rank,
+  resigned: false,
+  captures: 0,
+  teamIndex: null,
+  ...extra,
+});
+
+describe("rewards", () => {
+  const individual = { mode: "individual", participants: [seat(1), seat(2), seat(3), seat(4)], teams: [] };
+
+  it("shrinks the placement award from first to last", () => {
+    const totals = individual.participants.map((p) => computeReward(individual, p).breakdown.rank);
+    assert.deepEqual(totals, [100, 67, 33, 0]);
+    assert.equal(computeReward(individual, individual.participants[0]).won, true);
+    assert.equal(computeReward(individual, individual.participants[1]).won, false);
+  });
+
+  it("gives a resigned seat only participation and captures", () => {
+    const { breakdown, won } = computeReward(individual, seat(4, { resigned: true, captures: 2 }));
+    assert.deepEqual(breakdown, { participation: 50, rank: 0, captures: 20, teamWin: 0, total: 70 });
+    assert.equal(won, false);
+  });
+
+  it("caps the capture award", () => {
+    assert.equal(computeReward(individual, seat(2, { captures: 40 })).breakdown.captures, 100);
+  });
+
+  it("pays the team bonus to every member of the winning team", () => {
+    const match = {
+      mode: "team",
+      participants: [seat(1, { teamIndex: 0 }), seat(3, { teamIndex: 1 }), seat(2, { teamIndex: 0 }), seat(4, { teamIndex: 1 })],
+      teams: [
+        { teamIndex: 0, rank: 1 },
+        { teamIndex: 1, rank: 3 },
+      ],
+    };
+    const second = computeReward(match, match.participants[2]);
+    assert.equal(second.won, true);
+    assert.equal(second.breakdown.teamWin, 50);
+    assert.equal(computeReward(match, match.participants[1]).breakdown.teamWin, 0);
+  });
+
+  it("needs more XP for every level", () => {
+    assert.equal(xpToNextLevel(1), 100);
+    assert.equal(xpToNextLevel(2), 150);
+    assert.deepEqual(levelForXp(0), { level: 1, xpIntoLevel: 0, xpForNextLevel: 100 });
+    assert.deepEqual(levelForXp(260), { level: 3, xpIntoLevel: 10, xpForNextLevel: 225 });
+  });
+});
@@ -0,0 +1,35 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { isStaleCopy, nextLockStep } from "../../src/state/gameStateCache";
+
+describe("room lock", () => {
+  it("runs once the lock is taken", () => {
+    assert.equal(nextLockStep("acquired", false), "run");
+    assert.equal(nextLockStep("acquired", true), "run");
+  });
+
+  it("waits for another holder, then gives up", () => {
+    assert.equal(nextLockStep("held", false), "retry");
+    assert.equal(nextLockStep("held", true), "refuse");
+  });
+
+  it("never writes around a configured Redis that is failing", () => {
+    assert.equal(nextLockStep("failed", false), "refuse");
+  });
+
+  it("leaves a single instance without Redis to its in-process queue", () => {
+    assert.equal(nextLockStep("disabled", false), "run-unlocked");
+  });
+});
+
+describe("stale-state eviction", () => {
+  it("drops the local copy once another instance stored a newer revision", () => {
+    assert.equal(isStaleCopy(4, 5), true);
+  });
+
+  it("keeps it when the shared state is not ahead or missing", () => {
+    assert.equal(isStaleCopy(5, 5), false);
+    assert.equal(isStaleCopy(6, 5), false);
+    assert.equal(isStaleCopy(5, null), false);
+  });
+});
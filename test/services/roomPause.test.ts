@@ -0,0 +1,48 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  addPauseVote,
+  deadlineOnResume,
+  pauseVotesNeeded,
+  remainingOnPause,
+} from "../../src/services/roomPauseService";
+
+const now = Date.parse("2026-05-01T12:00:00.000Z");
+
+describe("pause votes", () => {
+  it("needs a strict majority of the people still playing", () => {
+    assert.equal(pauseVotesNeeded(0), 1);
+    assert.equal(pauseVotesNeeded(1), 1);
+    assert.equal(pauseVotesNeeded(2), 2);
+    assert.equal(pauseVotesNeeded(3), 2);
+    assert.equal(pauseVotesNeeded(4), 3);
+  });
+
+  it("counts each voter once", () => {
+    const first = addPauseVote(null, "pause", "u1", "snack", now);
+    const second = addPauseVote(first, "pause", "u2", null, now + 1000);
+    const again = addPauseVote(second, "pause", "u2", null, now + 2000);
+    assert.deepEqual(again.voters, ["u1", "u2"]);
+    assert.equal(again.reason, "snack", "the first voter's reason stands");
+    assert.deepEqual(first.voters, ["u1"], "earlier counts are left alone");
+  });
+
+  it("starts over for the other action or once the window closes", () => {
+    const pause = addPauseVote(null, "pause", "u1", null, now);
+    assert.deepEqual(addPauseVote(pause, "resume", "u2", null, now).voters, ["u2"]);
+    assert.deepEqual(addPauseVote(pause, "pause", "u2", null, pause.expiresAt).voters, ["u2"]);
+  });
+});
+
+describe("turn clock across a pause", () => {
+  it("keeps what was left of the turn", () => {
+    assert.equal(remainingOnPause("2026-05-01T12:00:12.000Z", now), 12000);
+    assert.equal(remainingOnPause("2026-05-01T11:59:00.000Z", now), 0);
+    assert.equal(remainingOnPause(null, now), null);
+  });
+
+  it("gives it back on resume, with a floor", () => {
+    assert.equal(deadlineOnResume(12000, now), "2026-05-01T12:00:12.000Z");
+    assert.equal(deadlineOnResume(0, now), "2026-05-01T12:00:05.000Z");
+  });
+});
@@ -0,0 +1,33 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { desertedSince } from "../../src/services/roomReaperService";
+
+const cutoff = new Date("2026-05-01T12:00:00Z");
+const at = (iso: string) => new Date(iso);
+
+describe("room reaper", () => {
+  it("finds a game every human left to autopilot before the cutoff", () => {
+    const since = desertedSince(
+      [
+        { autopilot: true, updatedAt: at("2026-05-01T10:00:00Z") },
+        { autopilot: true, updatedAt: at("2026-05-01T11:30:00Z") },
+      ],
+      cutoff
+    );
+    assert.deepEqual(since, at("2026-05-01T11:30:00Z"));
+  });
+
+  it("leaves a game alone while anyone still plays", () => {
+    const playing = [
+      { autopilot: true, updatedAt: at("2026-05-01T10:00:00Z") },
+      { autopilot: false, updatedAt: at("2026-05-01T10:00:00Z") },
+    ];
+    assert.equal(desertedSince(playing, cutoff), null);
+  });
+
+  it("waits out the idle window after the last takeover", () => {
+    const recent = [{ autopilot: true, updatedAt: at("2026-05-01T12:30:00Z") }];
+    assert.equal(desertedSince(recent, cutoff), null);
+    assert.equal(desertedSince([], cutoff), null);
+  });
+});
@@ -0,0 +1,67 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  delayedRevision,
+  feedSendAt,
+  validateSpectatorSettings,
+  viewerFor,
+} from "../../src/services/spectatorService";
+
+const now = Date.parse("2026-05-01T12:00:00.000Z");
+const at = (seconds: number) => new Date(now + seconds * 1000).toISOString();
+
+describe("spectator gating", () => {
+  it("shows lobbies, finished games and a player's own game in full", () => {
+    assert.deepEqual(viewerFor("waiting", false, { allowed: false }, now), { role: "player" });
+    assert.deepEqual(viewerFor("completed", false, { allowed: false }, now), { role: "player" });
+    assert.deepEqual(viewerFor("in_progress", true, { allowed: false }, now), { role: "player" });
+  });
+
+  it("puts everyone else on the delayed feed", () => {
+    assert.deepEqual(viewerFor("paused", false, { delaySeconds: 30 }, now), {
+      role: "spectator",
+      settings: { allowed: true, delaySeconds: 30 },
+      cutoff: new Date(at(-30)),
+    });
+  });
+
+  it("turns watchers away when the host said no", () => {
+    assert.throws(() => viewerFor("in_progress", false, { allowed: false }, now), /SPECTATORS_NOT_ALLOWED/);
+  });
+
+  it("lets the host change one setting at a time", () => {
+    assert.deepEqual(validateSpectatorSettings({ delaySeconds: 10 }, { allowed: false, delaySeconds: 0 }), {
+      settings: { allowed: false, delaySeconds: 10 },
+    });
+    assert.ok("error" in validateSpectatorSettings({ delaySeconds: 121 }));
+    assert.ok("error" in validateSpectatorSettings({ allowed: "yes" }));
+  });
+});
+
+describe("spectator delay", () => {
+  it("holds a message back by the delay", () => {
+    assert.equal(feedSendAt(now, 0, undefined), now);
+    assert.equal(feedSendAt(now, 20, undefined), now + 20000);
+  });
+
+  it("never lets a message overtake the one before it", () => {
+    const first = feedSendAt(now, 30, undefined);
+    // The host shortened the delay after the first message went into the queue.
+    assert.equal(feedSendAt(now + 1000, 5, first), first);
+  });
+
+  it("rebuilds the board at the last revision old enough to show", () => {
+    const replay = {
+      initialRevision: 1,
+      replayableThrough: 4,
+      events: [
+        { revision: 2, createdAt: at(-40) },
+        { revision: 3, createdAt: at(-20) },
+        { revision: 4, createdAt: at(-5) },
+      ],
+    };
+    assert.equal(delayedRevision(replay, now - 30000), 2);
+    assert.equal(delayedRevision(replay, now - 50000), 1);
+    assert.equal(delayedRevision({ ...replay, replayableThrough: 2 }, now), 2);
+  });
+});
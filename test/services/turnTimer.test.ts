@@ -0,0 +1,35 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { computeTurnDeadline, normalizeTurnTimer, validateTurnTimer } from "../../src/services/turnTimer";
+
+const NOW = Date.parse("2026-01-01T00:00:00.000Z");
+
+describe("turn timer setting", () => {
+  it("is off unless the host asks for it", () => {
+    assert.deepEqual(validateTurnTimer(undefined), { settings: { enabled: false, rollSeconds: 15, moveSeconds: 20 } });
+    assert.deepEqual(validateTurnTimer({ rollSeconds: 10 }), {
+      settings: { enabled: true, rollSeconds: 10, moveSeconds: 20 },
+    });
+    assert.deepEqual(validateTurnTimer({ enabled: false, moveSeconds: 30 }), {
+      settings: { enabled: false, rollSeconds: 15, moveSeconds: 30 },
+    });
+  });
+
+  it("rejects bad input", () => {
+    assert.ok("error" in validateTurnTimer({ enabled: "yes" }));
+    assert.ok("error" in validateTurnTimer({ rollSeconds: 2 }));
+    assert.ok("error" in validateTurnTimer([]));
+  });
+
+  it("leaves the deadline empty when the room has no timer", () => {
+    assert.equal(computeTurnDeadline("in_progress", null, normalizeTurnTimer({}), NOW), null);
+    assert.equal(computeTurnDeadline("in_progress", 4, normalizeTurnTimer({ enabled: false }), NOW), null);
+  });
+
+  it("times the roll and the move separately", () => {
+    const settings = normalizeTurnTimer({ enabled: true, rollSeconds: 10, moveSeconds: 30 });
+    assert.equal(computeTurnDeadline("in_progress", null, settings, NOW), "2026-01-01T00:00:10.000Z");
+    assert.equal(computeTurnDeadline("in_progress", 6, settings, NOW), "2026-01-01T00:00:30.000Z");
+    assert.equal(computeTurnDeadline("completed", null, settings, NOW), null);
+  });
+});